@@ -0,0 +1,9 @@
+//separate module, so that usersettings_schema.ts does not have to import index.ts, which re-exports it
+
+export function EscapeToVariableName(n: string) {
+    return (<any>(n.toLocaleUpperCase())).replaceAll(" ", "_");
+}
+
+export function EscapeToVariableName2(n: string) {
+  return (<any>n).replaceAll(" ", "_").replaceAll("-", "_");
+}
@@ -13,6 +13,9 @@ export enum TimeGranularity{
 
 export enum eEncryptionMode { ENCRYPTED, NON_ENCRYPTED }
 
+//X.509 extension with the roles of a client certificate (SEQUENCE OF UTF8String). Written by CreateAndSignClientCert, evaluated by the authorization policy of the websocket_file_testserver
+export const ROLE_CLAIM_OID = "1.3.6.1.4.1.54392.5.2757.1";
+
 declare global {
   interface Map<K, V> {
     getOrAdd(key: K, valueFactory: () => V): V;
@@ -115,14 +118,6 @@ export function X02(num: number | bigint, len = 2) {
     const str = num.toString(16);
     return "0".repeat(len - str.length) + str; }
 
-export function EscapeToVariableName(n: string) {
-    return (<any>(n.toLocaleUpperCase())).replaceAll(" ", "_");
-}
-
-export function EscapeToVariableName2(n: string) {
-  return (<any>n).replaceAll(" ", "_").replaceAll("-", "_");
-}
-
 export function bigint2array(mc: number) {
     const ret = new Uint8Array(6);
     ret[5] = Number((mc) & 0xFF)
@@ -206,4 +201,6 @@ export class StringBuilderImpl implements IStringBuilder {
         this.AppendLine(initialValue);
       }
     }
-  }
\ No newline at end of file
+  }
+export * from "./escape"
+export * from "./usersettings_schema"
@@ -0,0 +1,488 @@
+import { EscapeToVariableName } from "./escape";
+
+//Declarative schema of the user settings. It is the single source for the build (C++ accessors, NVS partition) and for the web UI.
+//Plain objects only, so that a schema can also be stored as JSON
+
+export const NVS_MAX_KEY_LENGTH = 15;//for setting keys and namespaces (=group keys)
+export const NVS_MAX_NAMESPACES = 254;
+export const NVS_MAX_STRING_LENGTH = 3999;//without the terminating zero
+export const INT32_MIN = -2147483648;
+export const INT32_MAX = 2147483647;
+export const FLOAT32_MAX = 3.4028234663852886e38;
+export const NVS_MAX_BLOB_LENGTH = 508000;//limit of multi page blobs
+
+//condition on the current value of another setting of the same group, e.g. { key: "mqtt_enabled" } for a boolean setting
+export interface ISettingCondition {
+  key: string;
+  equals?: SettingValue;//enums by index or by value
+  notEquals?: SettingValue;//if neither equals nor notEquals is specified, the value has to be true
+}
+
+interface ISettingBase {
+  displayName: string;
+  key?: string;//NVS key; the displayName, if not specified
+  visibleWhen?: ISettingCondition;
+  enabledWhen?: ISettingCondition;
+  unit?: string;//e.g. "°C" for integers and floats
+  description?: string;//help text, shown as tooltip
+  secret?: boolean;//strings only: password input; the firmware never sends the value back
+  requiresRestart?: boolean;//the firmware reads the value only at startup
+  readOnly?: boolean;//cannot be changed in the web UI
+}
+
+export interface IStringSetting extends ISettingBase {
+  type: "string";
+  default?: string;
+  regex?: string;//has to match the whole value like the pattern attribute of html input elements
+}
+
+export interface IIntegerSetting extends ISettingBase {
+  type: "integer";
+  default?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface IBooleanSetting extends ISettingBase {
+  type: "boolean";
+  default?: boolean;
+}
+
+export interface IEnumSetting extends ISettingBase {
+  type: "enum";
+  values: Array<string>;
+  default?: number;//index in values
+}
+
+export interface IFloatSetting extends ISettingBase {
+  type: "float";
+  default?: number;
+  min?: number;
+  max?: number;
+  step?: number;//any value, if not specified
+}
+
+export interface IBlobSetting extends ISettingBase {
+  type: "blob";
+  default?: string;//base64
+  maxLength?: number;//in bytes
+}
+
+export interface IIpv4Setting extends ISettingBase {
+  type: "ipv4";
+  default?: string;//dotted decimal, e.g. "192.168.1.1"
+}
+
+export interface IColorSetting extends ISettingBase {
+  type: "color";
+  default?: string;//"#rrggbb" like the value of html color inputs
+}
+
+export type ISetting = IStringSetting | IIntegerSetting | IBooleanSetting | IEnumSetting | IFloatSetting | IBlobSetting | IIpv4Setting | IColorSetting;
+
+//cross-field validation within a group; validators, that refer to hidden settings, are skipped
+export type IGroupValidator =
+  { type: "lessThan" | "lessOrEqual", left: string, right: string, message?: string } |//keys of integer or float settings
+  { type: "required", key: string, message?: string };//key of a string or blob setting, that must not be empty
+
+export interface ISettingsGroup {
+  displayName: string;
+  key?: string;//NVS namespace; the displayName, if not specified
+  settings: Array<ISetting>;
+  validators?: Array<IGroupValidator>;
+}
+
+export interface IGroupValidationError {
+  keys: Array<string>;//settings, that are affected
+  message: string;
+}
+
+export type SettingsSchema = Array<ISettingsGroup>;
+
+export function KeyOf(x: ISettingsGroup | ISetting) {
+  return x.key ?? x.displayName;
+}
+
+//the defaults of optional properties are defined only here
+export function StringDefault(s: IStringSetting) {
+  return s.default ?? "";
+}
+
+export function StringRegex(s: IStringSetting) {
+  return s.regex ?? ".*";
+}
+
+export function MatchesStringRegex(s: IStringSetting, value: string) {
+  return new RegExp(`^(?:${StringRegex(s)})$`).test(value);
+}
+
+export function IntegerDefault(s: IIntegerSetting) {
+  return s.default ?? 0;
+}
+
+export function IntegerMin(s: IIntegerSetting) {
+  return s.min ?? 0;
+}
+
+export function IntegerMax(s: IIntegerSetting) {
+  return s.max ?? INT32_MAX;
+}
+
+export function IntegerStep(s: IIntegerSetting) {
+  return s.step ?? 1;
+}
+
+export function BooleanDefault(s: IBooleanSetting) {
+  return s.default ?? false;
+}
+
+export function EnumDefault(s: IEnumSetting) {
+  return s.default ?? 0;
+}
+
+export function FloatDefault(s: IFloatSetting) {
+  return s.default ?? 0;
+}
+
+export function FloatMin(s: IFloatSetting) {
+  return s.min ?? -FLOAT32_MAX;
+}
+
+export function FloatMax(s: IFloatSetting) {
+  return s.max ?? FLOAT32_MAX;
+}
+
+export function BlobDefault(s: IBlobSetting) {
+  return s.default ?? "";
+}
+
+export function BlobMaxLength(s: IBlobSetting) {
+  return s.maxLength ?? NVS_MAX_BLOB_LENGTH;
+}
+
+//returns the number of decoded bytes or -1, if the string is not valid base64
+export function Base64Length(base64: string) {
+  if (!/^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(base64)) return -1;
+  return base64.length / 4 * 3 - (base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0);
+}
+
+export function Ipv4Default(s: IIpv4Setting) {
+  return s.default ?? "0.0.0.0";
+}
+
+export const IPV4_PATTERN = "((25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9]?[0-9])\\.){3}(25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9]?[0-9])";
+
+//u32 like esp_ip4_addr_t::addr, i.e. the first octet is in the lowest byte; null, if the string is not a valid address
+export function ParseIpv4(dottedDecimal: string): number | null {
+  if (!new RegExp(`^${IPV4_PATTERN}$`).test(dottedDecimal)) return null;
+  return dottedDecimal.split(".").reduceRight((acc, octet) => acc * 256 + parseInt(octet), 0);
+}
+
+export function FormatIpv4(addr: number) {
+  return [0, 8, 16, 24].map(shift => (addr >>> shift) & 0xFF).join(".");
+}
+
+export function ColorDefault(s: IColorSetting) {
+  return s.default ?? "#000000";
+}
+
+//u32 0x00RRGGBB; null, if the string is not in the format #rrggbb
+export function ParseColor(color: string): number | null {
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) return null;
+  return parseInt(color.substring(1), 16);
+}
+
+export function FormatColor(rgb: number) {
+  return "#" + (rgb & 0xFFFFFF).toString(16).padStart(6, "0");
+}
+
+//value of a setting in exports and imports; the same representation as the defaults (blobs in base64, enums by index)
+export type SettingValue = string | number | boolean;
+
+//file format of the export in the web UI, e.g. to clone the configuration of a board
+export interface ISettingsExport {
+  exported: string;//ISO date
+  groups: { [groupKey: string]: { [settingKey: string]: SettingValue } };
+}
+
+export function SettingDefault(s: ISetting): SettingValue {
+  switch (s.type) {
+    case "string": return StringDefault(s);
+    case "integer": return IntegerDefault(s);
+    case "boolean": return BooleanDefault(s);
+    case "enum": return EnumDefault(s);
+    case "float": return FloatDefault(s);
+    case "blob": return BlobDefault(s);
+    case "ipv4": return Ipv4Default(s);
+    case "color": return ColorDefault(s);
+  }
+}
+
+//returns an error message or null, if the value is valid for the setting (e.g. a value of an imported file)
+export function ValidateSettingValue(s: ISetting, v: unknown): string | null {
+  const expected = { string: "string", integer: "number", boolean: "boolean", enum: "number", float: "number", blob: "string", ipv4: "string", color: "string" }[s.type];
+  if (typeof v != expected) return `${JSON.stringify(v)} is not a ${expected}`;
+  switch (s.type) {
+    case "string":
+      if (!MatchesStringRegex(s, v as string)) return `"${v}" does not match ${StringRegex(s)}`;
+      if ((v as string).length > NVS_MAX_STRING_LENGTH) return `longer than ${NVS_MAX_STRING_LENGTH} characters`;
+      return null;
+    case "integer":
+      if (!Number.isInteger(v) || (v as number) < IntegerMin(s) || (v as number) > IntegerMax(s)) return `${v} is not an integer within [${IntegerMin(s)}, ${IntegerMax(s)}]`;
+      return null;
+    case "enum":
+      if (!Number.isInteger(v) || (v as number) < 0 || (v as number) >= s.values.length) return `${v} is not an index within [0, ${s.values.length - 1}]`;
+      return null;
+    case "float":
+      if (!Number.isFinite(v) || (v as number) < FloatMin(s) || (v as number) > FloatMax(s)) return `${v} is not within [${FloatMin(s)}, ${FloatMax(s)}]`;
+      return null;
+    case "blob": {
+      const length = Base64Length(v as string);
+      if (length < 0) return `not valid base64`;
+      if (length > BlobMaxLength(s)) return `${length} bytes, but at most ${BlobMaxLength(s)} bytes are allowed`;
+      return null;
+    }
+    case "ipv4":
+      return ParseIpv4(v as string) === null ? `"${v}" is not an IPv4 address` : null;
+    case "color":
+      return ParseColor(v as string) === null ? `"${v}" is not a color in the format #rrggbb` : null;
+    default:
+      return null;
+  }
+}
+
+//equal values have the same normalized representation, e.g. "#FF0000" and "#ff0000"
+export function NormalizeSettingValue(s: ISetting, v: SettingValue): SettingValue {
+  switch (s.type) {
+    case "ipv4": return FormatIpv4(ParseIpv4(v as string) ?? 0);
+    case "color": return (v as string).toLowerCase();
+    default: return v;
+  }
+}
+
+//human readable representation, e.g. for a diff
+export function FormatSettingValue(s: ISetting, v: SettingValue): string {
+  if (s.secret) return v === "" ? "" : "••••••";
+  switch (s.type) {
+    case "enum": return s.values[v as number] ?? v.toString();
+    case "blob": return `${Math.max(Base64Length(v as string), 0)} bytes`;
+    default: return v.toString();
+  }
+}
+
+function findSetting(group: ISettingsGroup, key: string) {
+  return group.settings.find(s => KeyOf(s) == key);
+}
+
+function conditionValue(s: ISetting, v: SettingValue) {
+  if (s.type == "enum" && typeof v == "string") return s.values.indexOf(v);
+  return NormalizeSettingValue(s, v);
+}
+
+//values: current values of the settings of the group by key
+export function EvaluateCondition(group: ISettingsGroup, c: ISettingCondition | undefined, values: Map<string, SettingValue>): boolean {
+  if (!c) return true;
+  const s = findSetting(group, c.key);
+  const v = values.get(c.key);
+  if (!s || v === undefined) return false;
+  if (c.equals !== undefined) return NormalizeSettingValue(s, v) === conditionValue(s, c.equals);
+  if (c.notEquals !== undefined) return NormalizeSettingValue(s, v) !== conditionValue(s, c.notEquals);
+  return v === true;
+}
+
+//a setting is hidden, if the setting of its condition is hidden
+export function IsSettingVisible(group: ISettingsGroup, s: ISetting, values: Map<string, SettingValue>, visited = new Set<ISetting>()): boolean {
+  if (!s.visibleWhen) return true;
+  if (visited.has(s)) return false;
+  visited.add(s);
+  const other = findSetting(group, s.visibleWhen.key);
+  return other !== undefined && IsSettingVisible(group, other, values, visited) && EvaluateCondition(group, s.visibleWhen, values);
+}
+
+export function IsSettingEnabled(group: ISettingsGroup, s: ISetting, values: Map<string, SettingValue>) {
+  return EvaluateCondition(group, s.enabledWhen, values);
+}
+
+export function ValidateGroupValues(group: ISettingsGroup, values: Map<string, SettingValue>): Array<IGroupValidationError> {
+  const errors: Array<IGroupValidationError> = [];
+  const visible = (key: string) => {
+    const s = findSetting(group, key);
+    return s !== undefined && IsSettingVisible(group, s, values);
+  };
+  const name = (key: string) => findSetting(group, key)?.displayName ?? key;
+  for (const v of group.validators ?? []) {
+    switch (v.type) {
+      case "lessThan":
+      case "lessOrEqual": {
+        const [l, r] = [values.get(v.left), values.get(v.right)];
+        if (!visible(v.left) || !visible(v.right) || typeof l != "number" || typeof r != "number") break;
+        if (v.type == "lessThan" ? l < r : l <= r) break;
+        errors.push({ keys: [v.left, v.right], message: v.message ?? `${name(v.left)} has to be ${v.type == "lessThan" ? "less than" : "less than or equal to"} ${name(v.right)}` });
+        break;
+      }
+      case "required":
+        if (!visible(v.key) || values.get(v.key) !== "") break;
+        errors.push({ keys: [v.key], message: v.message ?? `${name(v.key)} is required` });
+        break;
+    }
+  }
+  return errors;
+}
+
+//schemas may come from JSON, so the default branch of an exhaustive switch can be reached at runtime
+function typeOfUnknown(x: never): unknown {
+  return (x as { type?: unknown }).type;
+}
+
+function validateGroupRules(g: ISettingsGroup, where: string): Array<string> {
+  const errors: Array<string> = [];
+  const checkCondition = (s: ISetting, c: ISettingCondition | undefined, property: string) => {
+    if (!c) return;
+    const other = findSetting(g, c.key);
+    if (!other || other == s) {
+      errors.push(`${where}: ${property} of "${s.displayName}" refers to the unknown setting "${c.key}"`);
+      return;
+    }
+    const expected = c.equals ?? c.notEquals;
+    if (expected === undefined) {
+      if (other.type != "boolean") errors.push(`${where}: ${property} of "${s.displayName}" needs equals or notEquals, as "${c.key}" is not a boolean`);
+    } else if (ValidateSettingValue(other, other.type == "enum" && typeof expected == "string" && other.values.includes(expected) ? other.values.indexOf(expected) : expected) !== null) {
+      errors.push(`${where}: ${property} of "${s.displayName}" compares with ${JSON.stringify(expected)}, which is not a valid value of "${c.key}"`);
+    }
+  };
+  for (const s of g.settings) {
+    checkCondition(s, s.visibleWhen, "visibleWhen");
+    checkCondition(s, s.enabledWhen, "enabledWhen");
+    const chain = new Set<ISetting>();
+    for (let x: ISetting | undefined = s; x?.visibleWhen; x = findSetting(g, x.visibleWhen.key)) {
+      if (chain.has(x)) {
+        errors.push(`${where}: visibleWhen of "${s.displayName}" is cyclic`);
+        break;
+      }
+      chain.add(x);
+    }
+  }
+  const checkType = (key: string, types: Array<ISetting["type"]>, validator: string) => {
+    const s = findSetting(g, key);
+    if (!s) errors.push(`${where}: validator ${validator} refers to the unknown setting "${key}"`);
+    else if (!types.includes(s.type)) errors.push(`${where}: validator ${validator} does not support "${key}" of type ${s.type}`);
+  };
+  for (const v of g.validators ?? []) {
+    switch (v.type) {
+      case "lessThan":
+      case "lessOrEqual":
+        checkType(v.left, ["integer", "float"], v.type);
+        checkType(v.right, ["integer", "float"], v.type);
+        break;
+      case "required":
+        checkType(v.key, ["string", "blob"], v.type);
+        break;
+      default:
+        errors.push(`${where}: unknown validator type ${typeOfUnknown(v)}`);
+    }
+  }
+  const defaults = new Map(g.settings.map(s => [KeyOf(s), SettingDefault(s)]));
+  for (const e of ValidateGroupValues(g, defaults)) errors.push(`${where}: the default values are invalid: ${e.message}`);
+  return errors;
+}
+
+function validateSetting(s: ISetting, where: string): Array<string> {
+  const errors: Array<string> = [];
+  if (s.secret && s.type != "string") errors.push(`${where}: only strings can be secret`);
+  if (s.unit !== undefined && s.type != "integer" && s.type != "float") errors.push(`${where}: only integers and floats can have a unit`);
+  const isInt32 = (n: number) => Number.isInteger(n) && n >= INT32_MIN && n <= INT32_MAX;
+  switch (s.type) {
+    case "string": {
+      let regex: RegExp | null = null;
+      try {
+        regex = new RegExp(`^(?:${StringRegex(s)})$`);
+      } catch (e: unknown) {
+        errors.push(`${where}: regex ${StringRegex(s)} is invalid: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      if (regex && !regex.test(StringDefault(s))) errors.push(`${where}: default "${StringDefault(s)}" does not match regex ${StringRegex(s)}`);
+      if (StringDefault(s).length > NVS_MAX_STRING_LENGTH) errors.push(`${where}: default is longer than ${NVS_MAX_STRING_LENGTH} characters`);
+      break;
+    }
+    case "integer": {
+      const [def, min, max, step] = [IntegerDefault(s), IntegerMin(s), IntegerMax(s), IntegerStep(s)];
+      if (![def, min, max].every(isInt32)) errors.push(`${where}: default, min and max have to be 32 bit integers`);
+      if (min > max) errors.push(`${where}: min ${min} is greater than max ${max}`);
+      if (def < min || def > max) errors.push(`${where}: default ${def} is not within [${min}, ${max}]`);
+      if (!Number.isInteger(step) || step <= 0) errors.push(`${where}: step ${step} has to be a positive integer`);
+      break;
+    }
+    case "boolean":
+      break;
+    case "enum":
+      if (!Array.isArray(s.values) || s.values.length == 0) {
+        errors.push(`${where}: there are no values`);
+        break;
+      }
+      if (new Set(s.values).size != s.values.length) errors.push(`${where}: values are not unique`);
+      if (!Number.isInteger(EnumDefault(s)) || EnumDefault(s) < 0 || EnumDefault(s) >= s.values.length) errors.push(`${where}: default index ${EnumDefault(s)} is not within [0, ${s.values.length - 1}]`);
+      break;
+    case "float": {
+      const [def, min, max] = [FloatDefault(s), FloatMin(s), FloatMax(s)];
+      if (![def, min, max].every(n => Number.isFinite(n) && Math.abs(n) <= FLOAT32_MAX)) errors.push(`${where}: default, min and max have to be 32 bit floats`);
+      if (min > max) errors.push(`${where}: min ${min} is greater than max ${max}`);
+      if (def < min || def > max) errors.push(`${where}: default ${def} is not within [${min}, ${max}]`);
+      if (s.step !== undefined && !(s.step > 0)) errors.push(`${where}: step ${s.step} has to be positive`);
+      break;
+    }
+    case "blob": {
+      const maxLength = BlobMaxLength(s);
+      if (!Number.isInteger(maxLength) || maxLength <= 0 || maxLength > NVS_MAX_BLOB_LENGTH) errors.push(`${where}: maxLength ${maxLength} is not within [1, ${NVS_MAX_BLOB_LENGTH}]`);
+      const length = Base64Length(BlobDefault(s));
+      if (length < 0) errors.push(`${where}: default is not valid base64`);
+      else if (length > maxLength) errors.push(`${where}: default has ${length} bytes, but maxLength is ${maxLength}`);
+      break;
+    }
+    case "ipv4":
+      if (ParseIpv4(Ipv4Default(s)) === null) errors.push(`${where}: default "${Ipv4Default(s)}" is not an IPv4 address`);
+      break;
+    case "color":
+      if (ParseColor(ColorDefault(s)) === null) errors.push(`${where}: default "${ColorDefault(s)}" is not a color in the format #rrggbb`);
+      break;
+    default:
+      errors.push(`${where}: unknown type ${typeOfUnknown(s)}`);
+  }
+  return errors;
+}
+
+//returns all errors; an empty array means, that the schema is valid
+export function ValidateSettingsSchema(schema: SettingsSchema): Array<string> {
+  const errors: Array<string> = [];
+  if (schema.length > NVS_MAX_NAMESPACES) errors.push(`There are ${schema.length} groups, but NVS supports only ${NVS_MAX_NAMESPACES} namespaces`);
+  const checkKey = (key: string, where: string) => {
+    if (!key) errors.push(`${where}: key is empty`);
+    if (key.length > NVS_MAX_KEY_LENGTH) errors.push(`${where}: key "${key}" is longer than ${NVS_MAX_KEY_LENGTH} characters`);
+  };
+  const groupNames = new Map<string, string>();//keys are also used in C++ identifiers
+  for (const g of schema) {
+    const gk = KeyOf(g);
+    const where = `Group "${g.displayName}"`;
+    checkKey(gk, where);
+    if (groupNames.has(EscapeToVariableName(gk))) errors.push(`${where}: key "${gk}" is not unique (conflicts with "${groupNames.get(EscapeToVariableName(gk))}")`);
+    groupNames.set(EscapeToVariableName(gk), gk);
+    const settingNames = new Map<string, string>();
+    for (const s of g.settings) {
+      const k = KeyOf(s);
+      const whereSetting = `Setting "${gk}/${s.displayName}"`;
+      checkKey(k, whereSetting);
+      if (settingNames.has(EscapeToVariableName(k))) errors.push(`${whereSetting}: key "${k}" is not unique in its group (conflicts with "${settingNames.get(EscapeToVariableName(k))}")`);
+      settingNames.set(EscapeToVariableName(k), k);
+      errors.push(...validateSetting(s, whereSetting));
+    }
+    errors.push(...validateGroupRules(g, where));
+  }
+  return errors;
+}
+
+export function AssertValidSettingsSchema(schema: SettingsSchema) {
+  const errors = ValidateSettingsSchema(schema);
+  if (errors.length > 0) {
+    throw new Error(`The settings schema is invalid:\n${errors.join("\n")}`);
+  }
+  return schema;
+}
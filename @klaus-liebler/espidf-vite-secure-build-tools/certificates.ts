@@ -1,13 +1,58 @@
 import * as forge from 'node-forge';
 import * as fs from 'fs';
+import * as path from "node:path";
 import * as crypto from "node:crypto";
+import { CA_DATABASE_FILENAME, ROOT_CA_CRL_PEM_FILE } from "./paths";
+import { ROLE_CLAIM_OID } from "@klaus-liebler/commons";
 
 //Certificate generation
-const DEFAULT_COUNTRY = 'DE';
-const DEFAULT_STATE = 'NRW';
-const DEFAULT_LOCALITY = 'Greven';
-const DEFAULT_ORGANIZATION = 'Klaus Liebler personal';
+//node-forge can only handle RSA keys. Therefore keys are generated and certificates are signed with node:crypto; forge is only used to encode names and extensions
+export enum KeyAlgorithm {
+	RSA_2048 = "rsa2048",
+	RSA_3072 = "rsa3072",
+	RSA_4096 = "rsa4096",
+	ECDSA_P256 = "ecdsa_p256",//fastest TLS handshake on ESP32
+	ECDSA_P384 = "ecdsa_p384",
+}
+
+export interface ICertificateSubject {
+	country: string;
+	state: string;
+	locality: string;
+	organization: string;
+	organizationalUnit?: string;
+}
+
+//extension in node-forge notation, e.g. { name: "keyUsage", digitalSignature: true } or { id: "1.2.3.4", value: <DER as binary string or ASN.1> }.
+//@types/node-forge declares extensions only as any[]
+export interface ICertificateExtension {
+	name?: string;
+	id?: string;
+	critical?: boolean;
+	value?: string | forge.asn1.Asn1;
+	[field: string]: unknown;//fields of the named extensions
+}
+
+export interface ICertificateProfile {
+	keyAlgorithm: KeyAlgorithm;
+	subject: ICertificateSubject;
+	validityDays: number;
+	extensions?: Array<ICertificateExtension>;//additional extensions, appended to the default ones
+}
+
+export const DEFAULT_CERTIFICATE_PROFILE: ICertificateProfile = {
+	keyAlgorithm: KeyAlgorithm.RSA_2048,
+	subject: {
+		country: 'DE',
+		state: 'NRW',
+		locality: 'Greven',
+		organization: 'Klaus Liebler personal',
+	},
+	validityDays: 3000,//8 Years
+};
 
+const OID_ECDSA_WITH_SHA256 = "1.2.840.10045.4.3.2";
+const OID_ECDSA_WITH_SHA384 = "1.2.840.10045.4.3.3";
 
 function createRootCaExtensions() {
 	return [{
@@ -20,15 +65,24 @@ function createRootCaExtensions() {
 	}];
 }
 
+//pathLenConstraint 0: an intermediate CA may only issue end entity certificates
+function createIntermediateCaExtensions() {
+	return [{
+		name: 'basicConstraints',
+		critical: true,
+		cA: true,
+		pathLenConstraint: 0
+	}, {
+		name: 'keyUsage',
+		critical: true,
+		keyCertSign: true,
+		cRLSign: true
+	}];
+}
 
-
-function createUniversalAuthExtensions(ipAddressAsString:string, dnsHostnames: Array<string>, authorityKeyIdentifier: string) {
+function createUniversalAuthExtensions(ipAddressAsString:string, dnsHostnames: Array<string>) {
 	var x= [
 		{
-			name: 'authorityKeyIdentifier',
-			authorityCertIssuer: true,
-			serialNumber: authorityKeyIdentifier
-		},{
 			name: 'basicConstraints',
 			cA: false
 		},  {
@@ -41,8 +95,6 @@ function createUniversalAuthExtensions(ipAddressAsString:string, dnsHostnames: A
 			name: 'extKeyUsage',
 			serverAuth: true,
 			clientAuth: true,
-		},{
-			name: 'subjectKeyIdentifier'
 		},{
 			name: 'customExtension',
 			id: '1.3.6.1.4.1.54392.5.2757', // custom OID as flag to be allowed to access the labathome webservice, created with https://freeoid.pythonanywhere.com/getoid
@@ -69,29 +121,48 @@ function createUniversalAuthExtensions(ipAddressAsString:string, dnsHostnames: A
 }
 
 
-function createSubject(commonName: string): forge.pki.CertificateField[] {
-	return [{
+//SEQUENCE OF UTF8String
+function createRoleClaimExtension(roles: Array<string>) {
+	return {
+		name: 'roleClaim',
+		id: ROLE_CLAIM_OID,
+		value: forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SEQUENCE, true,
+			roles.map(r => forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.UTF8, false, forge.util.encodeUtf8(r))))
+	};
+}
+
+
+function createSubject(commonName: string, s: ICertificateSubject): forge.pki.CertificateField[] {
+	const fields: forge.pki.CertificateField[] = [{
 		shortName: 'C',
-		value: DEFAULT_COUNTRY,
-		
+		value: s.country,
+
 	}, {
 		shortName: 'ST',
-		value: DEFAULT_STATE,
+		value: s.state,
 		valueTagClass: forge.asn1.Type.UTF8 as any
 	}, {
 		shortName: 'L',
-		value: DEFAULT_LOCALITY,
+		value: s.locality,
 		valueTagClass: forge.asn1.Type.UTF8 as any
 	}, {
 		shortName: 'O',
-		value: DEFAULT_ORGANIZATION,//hier muss vermutlich was stehen
+		value: s.organization,//hier muss vermutlich was stehen
 		valueTagClass: forge.asn1.Type.UTF8 as any
-	}, 
-	{
+	}];
+	if (s.organizationalUnit) {
+		fields.push({
+			shortName: 'OU',
+			value: s.organizationalUnit,
+			valueTagClass: forge.asn1.Type.UTF8 as any
+		});
+	}
+	fields.push({
 		shortName: 'CN',
 		value: commonName,//hier muss vermutlich beim host certificate etwas anderes stehen, als der Hostname
 		valueTagClass: forge.asn1.Type.UTF8 as any
-	}];
+	});
+	return fields;
 }
 
 // a hexString is considered negative if it's most significant bit is 1
@@ -104,74 +175,362 @@ function randomSerialNumber(numberOfBytes: number) {
 	return buf.toString("hex");
 }
 
+const CRL_VALIDITY_DAYS = 30;
+const OID_CRL_NUMBER = "2.5.29.20";
+const OID_CRL_REASON = "2.5.29.21";
+
+export type CertificateKind = "server" | "client" | "intermediate";
+export enum RevocationReason {
+	UNSPECIFIED = 0,
+	KEY_COMPROMISE = 1,
+	CA_COMPROMISE = 2,
+	AFFILIATION_CHANGED = 3,
+	SUPERSEDED = 4,
+	CESSATION_OF_OPERATION = 5,
+}
+
+export interface IIssuedCertificate {
+	serialNumber: string;//hex
+	commonName: string;
+	kind: CertificateKind;
+	ipAddress: string;
+	dnsHostnames: Array<string>;
+	issuedOn: string;//ISO date
+	notAfter: string;//ISO date
+	boardMac: number | null;
+	revokedOn: string | null;
+	revocationReason: RevocationReason | null;
+	renewedBy: string | null;//serial number of the successor
+	profile?: ICertificateProfile;//missing for certificates issued before profiles existed
+	roles?: Array<string>;//role claims of client certificates
+}
+
+export interface ICaDatabase {
+	crlNumber: number;
+	issued: Array<IIssuedCertificate>;
+}
+
+//the database is always located next to the certificate of the CA. So an intermediate CA needs its own directory
+function caDatabasePath(certificateCaPemPath: fs.PathOrFileDescriptor) {
+	return path.join(path.dirname(certificateCaPemPath.toString()), CA_DATABASE_FILENAME);
+}
+
+export function ReadCaDatabase(certificateCaPemPath: fs.PathOrFileDescriptor): ICaDatabase {
+	const p = caDatabasePath(certificateCaPemPath);
+	if (!fs.existsSync(p)) return { crlNumber: 0, issued: [] };
+	return JSON.parse(fs.readFileSync(p).toString()) as ICaDatabase;
+}
+
+function writeCaDatabase(certificateCaPemPath: fs.PathOrFileDescriptor, db: ICaDatabase) {
+	fs.writeFileSync(caDatabasePath(certificateCaPemPath), JSON.stringify(db, null, 2));
+}
+
+function registerIssuedCert(certificateCaPemPath: fs.PathOrFileDescriptor, certificatePem: string, kind: CertificateKind, ipAddressAsString: string, dnsHostnames: Array<string>, boardMac: number | null, profile: ICertificateProfile, roles: Array<string> = []) {
+	if (typeof certificateCaPemPath === "number") {
+		console.warn(`CA database cannot be located for a file descriptor; certificate is not registered`);
+		return;
+	}
+	const cert = readCertificateInfo(certificatePem);
+	const db = ReadCaDatabase(certificateCaPemPath);
+	db.issued.push({
+		serialNumber: cert.serialNumber,
+		commonName: cert.commonName,
+		kind,
+		ipAddress: ipAddressAsString,
+		dnsHostnames,
+		issuedOn: cert.notBefore.toISOString(),
+		notAfter: cert.notAfter.toISOString(),
+		boardMac,
+		revokedOn: null,
+		revocationReason: null,
+		renewedBy: null,
+		profile,
+		roles,
+	});
+	writeCaDatabase(certificateCaPemPath, db);
+}
+
 function DateNDaysInFuture(n: number) {
 	var d = new Date();
 	d.setDate(d.getDate() + n);
 	return d;
 }
 
-function certHelper(setPrivateKeyInCertificate: boolean, subject: forge.pki.CertificateField[], issuer: forge.pki.CertificateField[], exts: any[], signWith: forge.pki.PrivateKey | null) {
-	const keypair = forge.pki.rsa.generateKeyPair(2048);
-	const cert = forge.pki.createCertificate();
-	cert.publicKey = keypair.publicKey;
-	if (setPrivateKeyInCertificate) cert.privateKey = keypair.privateKey;
-	cert.serialNumber = randomSerialNumber(20);
-	cert.validity.notBefore = DateNDaysInFuture(-1);
-	cert.validity.notAfter = DateNDaysInFuture(3000);//8 Years
-	cert.setSubject(subject);
-	cert.setIssuer(issuer);
-	cert.setExtensions(exts);
-	cert.sign(signWith ?? keypair.privateKey, forge.md.sha256.create());
-	return { certificate: forge.pki.certificateToPem(cert), privateKey: forge.pki.privateKeyToPem(keypair.privateKey), };
-}
-export function CreateAndSignCertWithGivenPublicKey(publicKeyPemPath: fs.PathOrFileDescriptor, commonName:string, ipAddressAsString:string, dnsHostname: string, certificateCaPemPath: fs.PathOrFileDescriptor, caPrivateKeyPemPath:fs.PathOrFileDescriptor) {
-
-	let caCert = forge.pki.certificateFromPem(fs.readFileSync(certificateCaPemPath).toString());
-	let caPrivateKey = forge.pki.privateKeyFromPem(fs.readFileSync(caPrivateKeyPemPath).toString());
-	let publicKey = forge.pki.publicKeyFromPem(fs.readFileSync(publicKeyPemPath).toString());
-	const cert = forge.pki.createCertificate();
-	cert.publicKey = publicKey;
-	cert.serialNumber = randomSerialNumber(20);
-	cert.validity.notBefore = DateNDaysInFuture(-1);//8 Years
-	cert.validity.notAfter = DateNDaysInFuture(3000);//8 Years
-	cert.setSubject(createSubject(commonName));
-	cert.setIssuer(caCert.subject.attributes); //issuer is the subject of the rootCA);
-	cert.setExtensions(createUniversalAuthExtensions(ipAddressAsString, [dnsHostname], caCert.serialNumber));
-	cert.sign(caPrivateKey, forge.md.sha256.create());
-	return forge.pki.certificateToPem(cert);
-}
-
-export function CreateRootCA(commonName: string) {
-	const subjectAndIssuer = createSubject(commonName);
-	return certHelper(
-		true,//necessary, found out in tests
-		subjectAndIssuer,
-		subjectAndIssuer, //self sign
-		createRootCaExtensions(),
-		null);//self sign
-}
-
-export function CreateAndSignCert(commonName:string, ipAddressAsString:string, dnsHostnames: Array<string>, certificateCaPemPath: fs.PathOrFileDescriptor, privateKeyCaPemPath: fs.PathOrFileDescriptor) {
-	let caCert = forge.pki.certificateFromPem(fs.readFileSync(certificateCaPemPath).toString());
-	let caPrivateKey = forge.pki.privateKeyFromPem(fs.readFileSync(privateKeyCaPemPath).toString());
-	return certHelper(
-		false,
-		createSubject(commonName),
-		caCert.subject.attributes, //issuer is the subject of the rootCA
-		createUniversalAuthExtensions(ipAddressAsString, dnsHostnames, caCert.serialNumber),
-		caPrivateKey //sign with private key of rootCA
-	);
-}
-
-export function CreateAndSignClientCert(username: string, certificateCaPemPath: fs.PathOrFileDescriptor, privateKeyCaPemPath: fs.PathOrFileDescriptor) {
-	let caCert = forge.pki.certificateFromPem(fs.readFileSync(certificateCaPemPath).toString());
-	let caPrivateKey = forge.pki.privateKeyFromPem(fs.readFileSync(privateKeyCaPemPath).toString());
-	return certHelper(
-		false,
-		createSubject(username),
-		caCert.subject.attributes, //issuer is the subject of the rootCA
-		createUniversalAuthExtensions("192.168.4.1", [username], caCert.serialNumber),
-		caPrivateKey //sign with private key of rootCA
-	);
+function generateKeyPair(a: KeyAlgorithm) {
+	switch (a) {
+		case KeyAlgorithm.ECDSA_P256: return crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+		case KeyAlgorithm.ECDSA_P384: return crypto.generateKeyPairSync("ec", { namedCurve: "secp384r1" });
+		case KeyAlgorithm.RSA_2048: return crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+		case KeyAlgorithm.RSA_3072: return crypto.generateKeyPairSync("rsa", { modulusLength: 3072 });
+		case KeyAlgorithm.RSA_4096: return crypto.generateKeyPairSync("rsa", { modulusLength: 4096 });
+		default: throw new Error(`Unknown key algorithm ${a}`);
+	}
+}
+
+//"RSA PRIVATE KEY" resp. "EC PRIVATE KEY", both understood by mbedtls
+function privateKeyToPem(k: crypto.KeyObject) {
+	return k.export({ type: k.asymmetricKeyType == "rsa" ? "pkcs1" : "sec1", format: "pem" }).toString();
+}
+
+//RFC 5280, section 4.2.1.2, method (1): SHA-1 of the subjectPublicKey BIT STRING; identical to what node-forge and openssl calculate
+function subjectKeyIdentifier(publicKey: crypto.KeyObject) {
+	let subjectPublicKey: Buffer;
+	if (publicKey.asymmetricKeyType == "rsa") {
+		subjectPublicKey = publicKey.export({ type: "pkcs1", format: "der" });
+	} else {
+		const jwk = publicKey.export({ format: "jwk" });
+		subjectPublicKey = Buffer.concat([Buffer.from([0x04]), Buffer.from(jwk.x!, "base64url"), Buffer.from(jwk.y!, "base64url")]);//uncompressed point
+	}
+	return crypto.createHash("sha1").update(subjectPublicKey).digest("hex");
 }
 
+interface ICertificateInfo {
+	serialNumber: string;
+	commonName: string;
+	subject: forge.asn1.Asn1;
+	subjectKeyIdentifier: string;
+	selfSigned: boolean;
+	notBefore: Date;
+	notAfter: Date;
+}
+
+//forge.pki.certificateFromPem fails for ECDSA keys, so only the needed parts are extracted
+function readCertificateInfo(pem: string): ICertificateInfo {
+	const x509 = new crypto.X509Certificate(pem);
+	const tbs = (forge.asn1.fromDer(x509.raw.toString("binary")).value as Array<forge.asn1.Asn1>)[0].value as Array<forge.asn1.Asn1>;
+	const offset = tbs[0].tagClass == forge.asn1.Class.CONTEXT_SPECIFIC ? 1 : 0;//explicit version tag
+	return {
+		serialNumber: x509.serialNumber.toLowerCase(),
+		commonName: x509.subject.split("\n").find(l => l.startsWith("CN="))?.substring(3) ?? "",
+		subject: tbs[offset + 4],
+		subjectKeyIdentifier: subjectKeyIdentifier(x509.publicKey),
+		selfSigned: x509.subject == x509.issuer,
+		notBefore: new Date(x509.validFrom),
+		notAfter: new Date(x509.validTo),
+	};
+}
+
+function integerAsn1FromHex(hex: string) {
+	return forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.INTEGER, false, forge.util.hexToBytes(hex.length % 2 ? "0" + hex : hex));
+}
+
+function integerAsn1(n: number) {
+	return forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.INTEGER, false, forge.asn1.integerToDer(n).getBytes());
+}
+
+//RFC 5280 requires GeneralizedTime from 2050 on
+function timeAsn1(d: Date) {
+	return d.getUTCFullYear() < 2050 ?
+		forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.UTCTIME, false, forge.asn1.dateToUtcTime(d)) :
+		forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.GENERALIZEDTIME, false, forge.asn1.dateToGeneralizedTime(d));
+}
+
+function extensionAsn1(oid: string, value: forge.asn1.Asn1 | string, critical = false) {
+	return forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SEQUENCE, true, [
+		forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.OID, false, forge.asn1.oidToDer(oid).getBytes()),
+		...(critical ? [forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.BOOLEAN, false, String.fromCharCode(0xFF))] : []),
+		forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.OCTETSTRING, false, typeof value == "string" ? value : forge.asn1.toDer(value).getBytes()),
+	]);
+}
+
+//the signature algorithm depends on the key of the signer, not on the key in the certificate
+function signatureAlgorithm(signWith: crypto.KeyObject) {
+	const asn1 = forge.asn1;
+	const algorithmIdentifier = (oid: string, withNullParameter: boolean) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+		asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(oid).getBytes()),
+		...(withNullParameter ? [asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, "")] : []),
+	]);
+	if (signWith.asymmetricKeyType == "rsa") {
+		return { hash: "sha256", asn1: algorithmIdentifier(forge.pki.oids.sha256WithRSAEncryption, true) };
+	}
+	if (signWith.asymmetricKeyDetails?.namedCurve == "secp384r1") {
+		return { hash: "sha384", asn1: algorithmIdentifier(OID_ECDSA_WITH_SHA384, false) };//parameters must be absent for ECDSA
+	}
+	return { hash: "sha256", asn1: algorithmIdentifier(OID_ECDSA_WITH_SHA256, false) };
+}
+
+//wraps a TBSCertificate or TBSCertList into the signed structure; the algorithm has to be the same as in the tbs structure
+function signAsn1(tbs: forge.asn1.Asn1, algorithm: ReturnType<typeof signatureAlgorithm>, signWith: crypto.KeyObject) {
+	const signature = crypto.sign(algorithm.hash, Buffer.from(forge.asn1.toDer(tbs).getBytes(), "binary"), signWith);
+	return forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SEQUENCE, true, [
+		tbs,
+		algorithm.asn1,
+		forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.BITSTRING, false, String.fromCharCode(0) + signature.toString("binary")),
+	]);
+}
+
+//issuer===null means self signed
+function certHelper(publicKey: crypto.KeyObject, commonName: string, profile: ICertificateProfile, exts: Array<ICertificateExtension>, issuer: ICertificateInfo | null, signWith: crypto.KeyObject) {
+	const asn1 = forge.asn1;
+	const ski = subjectKeyIdentifier(publicKey);
+	//the forge certificate object only serves to fill in the fields of the names and the extensions
+	const helper = forge.pki.createCertificate();
+	helper.setSubject(createSubject(commonName, profile.subject));
+	helper.setExtensions([
+		...exts,
+		...(profile.extensions ?? []),
+		{ name: 'subjectKeyIdentifier', value: asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, forge.util.hexToBytes(ski)) },
+		{
+			//only the key identifier, as openssl compares issuer and serial number of this extension with the issuer of the issuing CA
+			name: 'authorityKeyIdentifier', value: asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+				asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, false, forge.util.hexToBytes(issuer?.subjectKeyIdentifier ?? ski))
+			])
+		},
+	]);
+	const subject = forge.pki.distinguishedNameToAsn1(helper.subject);
+	const algorithm = signatureAlgorithm(signWith);
+	const tbs = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+		asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [integerAsn1(2)]),//v3
+		integerAsn1FromHex(randomSerialNumber(20)),
+		algorithm.asn1,
+		issuer?.subject ?? subject,
+		asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+			timeAsn1(DateNDaysInFuture(-1)),
+			timeAsn1(DateNDaysInFuture(profile.validityDays)),
+		]),
+		subject,
+		asn1.fromDer(publicKey.export({ type: "spki", format: "der" }).toString("binary")),
+		asn1.create(asn1.Class.CONTEXT_SPECIFIC, 3, true, [
+			asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, helper.extensions.map(e => extensionAsn1(e.id, e.value, e.critical))),
+		]),
+	]);
+	return forge.pem.encode({ type: "CERTIFICATE", body: asn1.toDer(signAsn1(tbs, algorithm, signWith)).getBytes() });
+}
+
+function readCa(certificateCaPemPath: fs.PathOrFileDescriptor, privateKeyCaPemPath: fs.PathOrFileDescriptor) {
+	const pem = fs.readFileSync(certificateCaPemPath).toString();
+	return { pem, info: readCertificateInfo(pem), privateKey: crypto.createPrivateKey(fs.readFileSync(privateKeyCaPemPath)) };
+}
+
+//a server has to present the intermediate CA together with its own certificate
+function chainOf(certificate: string, ca: ReturnType<typeof readCa>) {
+	return ca.info.selfSigned ? certificate : certificate + ca.pem;
+}
+
+export function CreateAndSignCertWithGivenPublicKey(publicKeyPemPath: fs.PathOrFileDescriptor, commonName:string, ipAddressAsString:string, dnsHostname: string, certificateCaPemPath: fs.PathOrFileDescriptor, caPrivateKeyPemPath:fs.PathOrFileDescriptor, boardMac: number | null = null, profile: ICertificateProfile = DEFAULT_CERTIFICATE_PROFILE) {
+	const ca = readCa(certificateCaPemPath, caPrivateKeyPemPath);
+	const publicKey = crypto.createPublicKey(fs.readFileSync(publicKeyPemPath));
+	const pem = certHelper(publicKey, commonName, profile, createUniversalAuthExtensions(ipAddressAsString, [dnsHostname]), ca.info, ca.privateKey);
+	registerIssuedCert(certificateCaPemPath, pem, "server", ipAddressAsString, [dnsHostname], boardMac, profile);
+	return pem;
+}
+
+export function CreateRootCA(commonName: string, profile: ICertificateProfile = DEFAULT_CERTIFICATE_PROFILE) {
+	const keypair = generateKeyPair(profile.keyAlgorithm);
+	return {
+		certificate: certHelper(keypair.publicKey, commonName, profile, createRootCaExtensions(), null, keypair.privateKey),//self sign
+		privateKey: privateKeyToPem(keypair.privateKey),
+	};
+}
+
+//The intermediate CA is signed by the rootCA, so that the key of the rootCA can stay offline. Certificates issued by the intermediate CA are registered in its own database, see caDatabasePath
+export function CreateIntermediateCA(commonName: string, certificateCaPemPath: fs.PathOrFileDescriptor, privateKeyCaPemPath: fs.PathOrFileDescriptor, profile: ICertificateProfile = DEFAULT_CERTIFICATE_PROFILE) {
+	const ca = readCa(certificateCaPemPath, privateKeyCaPemPath);
+	const keypair = generateKeyPair(profile.keyAlgorithm);
+	const certificate = certHelper(keypair.publicKey, commonName, profile, createIntermediateCaExtensions(), ca.info, ca.privateKey);
+	registerIssuedCert(certificateCaPemPath, certificate, "intermediate", "", [], null, profile);
+	return { certificate, privateKey: privateKeyToPem(keypair.privateKey), chain: chainOf(certificate, ca) };
+}
+
+export function CreateAndSignCert(commonName:string, ipAddressAsString:string, dnsHostnames: Array<string>, certificateCaPemPath: fs.PathOrFileDescriptor, privateKeyCaPemPath: fs.PathOrFileDescriptor, boardMac: number | null = null, profile: ICertificateProfile = DEFAULT_CERTIFICATE_PROFILE) {
+	const ca = readCa(certificateCaPemPath, privateKeyCaPemPath);
+	const keypair = generateKeyPair(profile.keyAlgorithm);
+	const certificate = certHelper(keypair.publicKey, commonName, profile, createUniversalAuthExtensions(ipAddressAsString, dnsHostnames), ca.info, ca.privateKey);
+	registerIssuedCert(certificateCaPemPath, certificate, "server", ipAddressAsString, dnsHostnames, boardMac, profile);
+	return { certificate, privateKey: privateKeyToPem(keypair.privateKey), chain: chainOf(certificate, ca) };
+}
+
+const CLIENT_CERT_IP_ADDRESS = "192.168.4.1";
+
+//roles are embedded as claims (ROLE_CLAIM_OID); which rights they grant, is defined by the authorization policy of the server
+export function CreateAndSignClientCert(username: string, certificateCaPemPath: fs.PathOrFileDescriptor, privateKeyCaPemPath: fs.PathOrFileDescriptor, profile: ICertificateProfile = DEFAULT_CERTIFICATE_PROFILE, roles: Array<string> = []) {
+	const ca = readCa(certificateCaPemPath, privateKeyCaPemPath);
+	const keypair = generateKeyPair(profile.keyAlgorithm);
+	const exts: Array<ICertificateExtension> = createUniversalAuthExtensions(CLIENT_CERT_IP_ADDRESS, [username]);
+	if (roles.length) exts.push(createRoleClaimExtension(roles));
+	const certificate = certHelper(keypair.publicKey, username, profile, exts, ca.info, ca.privateKey);
+	registerIssuedCert(certificateCaPemPath, certificate, "client", CLIENT_CERT_IP_ADDRESS, [username], null, profile, roles);
+	return { certificate, privateKey: privateKeyToPem(keypair.privateKey), chain: chainOf(certificate, ca) };
+}
+
+//Revoked certificates are listed in the CRL from the next call of CreateCRL on
+export function RevokeCert(serialNumber: string, certificateCaPemPath: fs.PathOrFileDescriptor, reason: RevocationReason = RevocationReason.UNSPECIFIED) {
+	const db = ReadCaDatabase(certificateCaPemPath);
+	const entry = db.issued.find(e => e.serialNumber.toLowerCase() == serialNumber.toLowerCase());
+	if (!entry) {
+		throw new Error(`Certificate with serial number ${serialNumber} has not been issued by this CA`);
+	}
+	if (entry.revokedOn) {
+		console.info(`Certificate ${entry.commonName} (${serialNumber}) has already been revoked`);
+		return;
+	}
+	entry.revokedOn = new Date().toISOString();
+	entry.revocationReason = reason;
+	writeCaDatabase(certificateCaPemPath, db);
+	console.log(`Certificate ${entry.commonName} (${serialNumber}) revoked`);
+}
+
+//node-forge cannot create CRLs, so the X.509 v2 CRL (RFC 5280, section 5) is assembled manually. Increments the CRL number and writes the CRL next to the CA
+export function CreateCRL(certificateCaPemPath: fs.PathOrFileDescriptor, privateKeyCaPemPath: fs.PathOrFileDescriptor, validityDays: number = CRL_VALIDITY_DAYS, crlFileName: string = ROOT_CA_CRL_PEM_FILE) {
+	const asn1 = forge.asn1;
+	const ca = readCa(certificateCaPemPath, privateKeyCaPemPath);
+	const db = ReadCaDatabase(certificateCaPemPath);
+	db.crlNumber++;
+	const algorithm = signatureAlgorithm(ca.privateKey);
+	const revoked = db.issued.filter(e => e.revokedOn).map(e => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+		integerAsn1FromHex(e.serialNumber),
+		timeAsn1(new Date(e.revokedOn!)),
+		asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+			extensionAsn1(OID_CRL_REASON, asn1.create(asn1.Class.UNIVERSAL, asn1.Type.ENUMERATED, false, String.fromCharCode(e.revocationReason ?? RevocationReason.UNSPECIFIED))),
+		]),
+	]));
+	const tbsCertList = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+		integerAsn1(1),//v2
+		algorithm.asn1,
+		ca.info.subject,
+		timeAsn1(new Date()),
+		timeAsn1(DateNDaysInFuture(validityDays)),
+		...(revoked.length ? [asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, revoked)] : []),//must be absent, if empty
+		asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [
+			asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [extensionAsn1(OID_CRL_NUMBER, integerAsn1(db.crlNumber))]),
+		]),
+	]);
+	const pem = forge.pem.encode({ type: "X509 CRL", body: asn1.toDer(signAsn1(tbsCertList, algorithm, ca.privateKey)).getBytes() });
+	fs.writeFileSync(path.join(path.dirname(certificateCaPemPath.toString()), crlFileName), pem);
+	writeCaDatabase(certificateCaPemPath, db);
+	console.log(`CRL #${db.crlNumber} with ${revoked.length} revoked certificates created`);
+	return pem;
+}
+
+//certificates, that are neither revoked nor renewed and expire within the next days
+export function FindCertsNearingExpiry(certificateCaPemPath: fs.PathOrFileDescriptor, days: number) {
+	const limit = DateNDaysInFuture(days).getTime();
+	return ReadCaDatabase(certificateCaPemPath).issued.filter(e => !e.revokedOn && !e.renewedBy && new Date(e.notAfter).getTime() < limit);
+}
+
+//Issues a new certificate (new key pair) with the same subject, names and profile. The old one is revoked as superseded. The caller has to store the returned files where the old ones were
+export function RenewCert(serialNumber: string, certificateCaPemPath: fs.PathOrFileDescriptor, privateKeyCaPemPath: fs.PathOrFileDescriptor) {
+	const old = ReadCaDatabase(certificateCaPemPath).issued.find(e => e.serialNumber.toLowerCase() == serialNumber.toLowerCase());
+	if (!old) {
+		throw new Error(`Certificate with serial number ${serialNumber} has not been issued by this CA`);
+	}
+	const profile = old.profile ?? DEFAULT_CERTIFICATE_PROFILE;
+	let ret: { certificate: string, privateKey: string, chain: string };
+	switch (old.kind) {
+		case "client": ret = CreateAndSignClientCert(old.commonName, certificateCaPemPath, privateKeyCaPemPath, profile, old.roles ?? []); break;
+		case "intermediate": ret = CreateIntermediateCA(old.commonName, certificateCaPemPath, privateKeyCaPemPath, profile); break;
+		default: ret = CreateAndSignCert(old.commonName, old.ipAddress, old.dnsHostnames, certificateCaPemPath, privateKeyCaPemPath, old.boardMac, profile); break;
+	}
+	const db = ReadCaDatabase(certificateCaPemPath);
+	db.issued.find(e => e.serialNumber == old.serialNumber)!.renewedBy = readCertificateInfo(ret.certificate).serialNumber;
+	writeCaDatabase(certificateCaPemPath, db);
+	RevokeCert(old.serialNumber, certificateCaPemPath, RevocationReason.SUPERSEDED);
+	return ret;
+}
+
+
+//Key pair to sign release manifests. Not a certificate, as the verifier knows the public key in advance
+export function CreateReleaseSigningKey() {
+	const keypair = forge.pki.rsa.generateKeyPair(3072);
+	return { privateKey: forge.pki.privateKeyToPem(keypair.privateKey), publicKey: forge.pki.publicKeyToPem(keypair.publicKey) };
+}
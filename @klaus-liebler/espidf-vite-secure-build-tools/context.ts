@@ -18,9 +18,30 @@ export class Context {
     fs.writeFileSync(boardInfoJsonPath, JSON.stringify(this.b))
   }
 
+  public setSecureBootEnabled() {
+    this.b.secure_boot_enabled = true;
+    const boardInfoJsonPath = P.Paths.boardSpecificPath(this.c.boardsDirectory, this.b.mac, P.BOARD_INFO_JSON_FILENAME);
+    fs.writeFileSync(boardInfoJsonPath, JSON.stringify(this.b))
+  }
+
+  private static printSecurityPosture(e: idf.EFuseData) {
+    const v = (...names: Array<string>) => names.map(n => e[n]?.value).find(x => x !== undefined);
+    const yesNo = (b: unknown) => b ? "yes" : "no";
+    const cryptCnt = Number(v("SPI_BOOT_CRYPT_CNT", "FLASH_CRYPT_CNT") ?? 0);
+    const onesInCryptCnt = cryptCnt.toString(2).split("").filter(c => c == "1").length;
+    console.log(" Flash Encryption: " + (onesInCryptCnt % 2 == 1 ? "enabled" : "disabled") + ` (crypt count 0b${cryptCnt.toString(2)})`);
+    console.log("      Secure Boot: " + (v("SECURE_BOOT_EN", "ABS_DONE_1") ? "enabled" : v("ABS_DONE_0") ? "enabled (V1)" : "disabled"));
+    console.log("    JTAG disabled: " + yesNo(v("DIS_PAD_JTAG", "HARD_DIS_JTAG", "JTAG_DISABLE")) + (e["SOFT_DIS_JTAG"] ? ` (soft: ${yesNo(e["SOFT_DIS_JTAG"].value)})` : "") + (e["DIS_USB_JTAG"] ? ` (usb: ${yesNo(e["DIS_USB_JTAG"].value)})` : ""));
+    console.log("    Download Mode: " + (v("DIS_DOWNLOAD_MODE", "UART_DOWNLOAD_DIS") ? "disabled" : v("ENABLE_SECURITY_DOWNLOAD") ? "secure download only" : "enabled"));
+    console.log("  DL Mode Encrypt: " + (v("DIS_DOWNLOAD_MANUAL_ENCRYPT", "DISABLE_DL_ENCRYPT") ? "disabled" : "enabled"));
+    Object.values(e).filter(x => x.block > 0).forEach(k => {
+      console.log(`${k.name.padStart(17)}: ${k.value || "-"}, ${k.readable ? "readable" : "read protected"}, ${k.writeable ? "writeable" : "write protected"}`);
+    });
+  }
+
   public static async printInfo(config: ContextConfig) {
 
-    var esp32 = await esp.GetESP32Object();
+    var esp32 = await esp.GetESP32Object(true);
     if (!esp32) {
       throw new Error(`Updating mac from ESP32 was not successful.`);
     }
@@ -34,6 +55,9 @@ export class Context {
     console.log("       ESP32 Chip: " + esp32.chipName);
     console.log("         COM Port: " + esp32.comPort.path);
     console.log(" Is current board: " + (mac_in_json_file==esp32.macAsNumber ? "yes" : "no"));  
+    if (esp32.efuseSummary) {
+      Context.printSecurityPosture(esp32.efuseSummary);
+    }
     var isAKnownBoard = fs.existsSync(P.Paths.boardSpecificPath(config.boardsDirectory, esp32.macAsNumber))
     if(!isAKnownBoard){
       console.log("No more board info available, as this board is not known yet.");
@@ -48,6 +72,7 @@ export class Context {
     console.log("  First connected: " + new Date(b.first_connected_dt).toLocaleString());
     console.log("   Last connected: " + new Date(b.last_connected_dt).toLocaleString());
     console.log("Encryption active: " + (b.flash_encryption_key_burned_and_activated ? "yes" : "no"));
+    console.log("Secure Boot active: " + (b.secure_boot_enabled ? "yes" : "no"));
 
   }
 
@@ -115,6 +140,7 @@ export class Context {
         last_connected_dt: Date.now(),
         mac: mac,
         flash_encryption_key_burned_and_activated: false,
+        secure_boot_enabled: false,
       }
       fs.writeFileSync(boardInfoJsonPath, JSON.stringify(boardInfo))
 
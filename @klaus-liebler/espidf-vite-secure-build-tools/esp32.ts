@@ -1,16 +1,49 @@
-import { SerialPort, SlipDecoder, SlipEncoder } from "serialport";
+import { SerialPort, SerialPortMock, SlipDecoder, SlipEncoder } from "serialport";
 import { SetOptions } from '@serialport/bindings-interface'
 import { autoDetect } from '@serialport/bindings-cpp'
+import * as zlib from "node:zlib"
+import * as crypto from "node:crypto";
 import { } from "./utils";
 import { X02 } from "@klaus-liebler/commons";
+import type { EFuseData } from "./espidf";
+
+//SerialPortMock allows to test the loader without hardware
+type LoaderPort = SerialPort | SerialPortMock;
+
+export interface IFlashRegion {
+    offset: number;
+    data: Buffer;
+    name?: string;//only for progress reporting
+}
+
+export interface IFlashProgress {
+    name: string;
+    offset: number;
+    writtenBytes: number;//over all regions, uncompressed
+    totalBytes: number;
+}
+
+export interface IFlashOptions {
+    baudRate?: number;//switch to this baud rate after sync
+    compress?: boolean;//default true
+    verify?: boolean;//MD5 of each region is compared after writing; default true
+    reboot?: boolean;//hard reset after writing; default true
+    flashSizeBytes?: number;//the ROM loader uses this only for range checks
+    onProgress?: (p: IFlashProgress) => void;
+}
 
 export abstract class ESP32Type {
     constructor(protected loader:EspLoader){}
     protected _chipName="undefined"
     protected _hasEncryptionKey=false;
     protected _mac=new Uint8Array(6);
+    protected _efuseSummary:EFuseData|null=null;
     public abstract updateChipInfo():void;
+    //decodes the security relevant fields of BLOCK0 and the protection of the key blocks
+    public abstract readEfuseSummary():Promise<EFuseData>;
     public get chipName(){return this._chipName;}
+    //null, if readEfuseSummary has not been called while the loader was open
+    public get efuseSummary(){return this._efuseSummary;}
     public get macAsUint8Array(){
         return this._mac;
     }
@@ -45,9 +78,34 @@ class EspLoader {
 
     static readonly REQUEST = 0x00;
     static readonly RESPONSE = 0x01;
+    static readonly ESP_FLASH_BEGIN = 0x02;
+    static readonly ESP_FLASH_DATA = 0x03;
+    static readonly ESP_FLASH_END = 0x04;
     static readonly ESP_SYNC = 0x08;
     static readonly ESP_WRITE_REG = 0x09;
     static readonly ESP_READ_REG = 0x0a;
+    static readonly ESP_SPI_SET_PARAMS = 0x0b;
+    static readonly ESP_SPI_ATTACH = 0x0d;
+    static readonly ESP_CHANGE_BAUDRATE = 0x0f;
+    static readonly ESP_FLASH_DEFL_BEGIN = 0x10;
+    static readonly ESP_FLASH_DEFL_DATA = 0x11;
+    static readonly ESP_FLASH_DEFL_END = 0x12;
+    static readonly ESP_SPI_FLASH_MD5 = 0x13;
+
+    static readonly INITIAL_BAUDRATE = 115200;
+    static readonly ROM_STATUS_BYTES_LENGTH = 4;//all ESP32 ROM loaders append status, error, reserved, reserved
+    static readonly FLASH_WRITE_SIZE = 0x400;//block size of the ROM loader
+    static readonly FLASH_SECTOR_SIZE = 0x1000;
+    static readonly DEFAULT_FLASH_SIZE = 16 * 1024 * 1024;
+    static readonly DEFAULT_TIMEOUT_MS = 500;
+    static readonly MIN_LONG_TIMEOUT_MS = 3000;
+    static readonly ERASE_REGION_TIMEOUT_PER_MB_MS = 30000;
+    static readonly ERASE_WRITE_TIMEOUT_PER_MB_MS = 40000;
+    static readonly MD5_TIMEOUT_PER_MB_MS = 8000;
+    static readonly POLL_INTERVAL_MS = 5;
+
+    //ESP32-S2 and newer ROMs expect an additional "encrypted" word in FLASH_BEGIN/FLASH_DEFL_BEGIN
+    private romSupportsEncryptedFlag = false;
 
     public get comPort(){
         return this.port;
@@ -61,25 +119,26 @@ class EspLoader {
         return checksum;
     }
 
-    public async sendCommandPacketWithSingleNumberValue(functionCode: number, data: number, needsChecksum = false): Promise<BootloaderReturn> {
+    public async sendCommandPacketWithSingleNumberValue(functionCode: number, data: number, checksum = 0): Promise<BootloaderReturn> {
         var b = Buffer.allocUnsafe(4);
         b.writeUint32LE(data, 0);
-        return this.sendCommandPacket(functionCode, b, needsChecksum);
+        return this.sendCommandPacket(functionCode, b, checksum);
     }
 
-    public async sendCommandPacket(commandCode: number, data: Buffer, needsChecksum = false): Promise<BootloaderReturn> {
+    //checksum is only used by the data commands and is calculated over the payload without its header
+    public async sendCommandPacket(commandCode: number, data: Buffer, checksum = 0, timeoutMs = EspLoader.DEFAULT_TIMEOUT_MS): Promise<BootloaderReturn> {
         var b = Buffer.allocUnsafe(8 + data.byteLength);
         b.writeUInt8(EspLoader.REQUEST, 0);
         b.writeUInt8(commandCode, 1);
         b.writeUint16LE(data.byteLength, 2);
-        b.writeUint32LE(needsChecksum ? this.calculateChecksum(data) : 0, 4);
+        b.writeUint32LE(checksum, 4);
         data.copy(b, 8);
         while (this.slipDecoder.read() != null) { ; }
         this.slipEncoder.write(b, undefined, ((error: Error | null | undefined) => {
             //console.debug(`${n()} Message out ${util.format(b)} and error ${error}`);
         }));
-        let timeout = 10;
-        while (timeout > 0) {
+        const deadline = Date.now() + timeoutMs;
+        while (Date.now() < deadline) {
             var b1: Buffer = this.slipDecoder.read();
             if (b1) {
                 if (b1.readUInt8(0) != EspLoader.RESPONSE) {
@@ -100,12 +159,154 @@ class EspLoader {
                 //console.debug(`${n()} Message in Received size=${receivedSize} value=${receivedValue}`);
                 return new BootloaderReturn(true, receivedValue, receivedPayload);
             }
-            await sleep(50);
-            timeout--;
+            await sleep(EspLoader.POLL_INTERVAL_MS);
         }
         console.error("Timeout!")
         return new BootloaderReturn(false, 0, null);
     }
+
+    //like sendCommandPacket, but evaluates the status bytes of the ROM loader and throws on any error
+    private async command(name: string, commandCode: number, data: Buffer, checksum = 0, timeoutMs = EspLoader.DEFAULT_TIMEOUT_MS): Promise<BootloaderReturn> {
+        const res = await this.sendCommandPacket(commandCode, data, checksum, timeoutMs);
+        if (!res.valid) {
+            throw new Error(`${name} failed: no valid response within ${timeoutMs}ms`);
+        }
+        const p = res.payload;
+        if (!p || p.length < EspLoader.ROM_STATUS_BYTES_LENGTH) {
+            throw new Error(`${name} failed: response contains no status`);
+        }
+        if (p[p.length - EspLoader.ROM_STATUS_BYTES_LENGTH] != 0) {
+            throw new Error(`${name} failed with error code 0x${X02(p[p.length - EspLoader.ROM_STATUS_BYTES_LENGTH + 1])}`);
+        }
+        return res;
+    }
+
+    private static timeoutPerMb(msPerMb: number, sizeBytes: number) {
+        return Math.max(EspLoader.MIN_LONG_TIMEOUT_MS, Math.ceil(msPerMb * sizeBytes / 1e6));
+    }
+
+    public async spiAttach() {
+        await this.command("SPI_ATTACH", EspLoader.ESP_SPI_ATTACH, Buffer.alloc(8));
+    }
+
+    public async spiSetParams(flashSizeBytes: number) {
+        const b = Buffer.allocUnsafe(24);
+        b.writeUint32LE(0, 0);//flash id
+        b.writeUint32LE(flashSizeBytes, 4);
+        b.writeUint32LE(64 * 1024, 8);//block size
+        b.writeUint32LE(EspLoader.FLASH_SECTOR_SIZE, 12);
+        b.writeUint32LE(256, 16);//page size
+        b.writeUint32LE(0xffff, 20);//status mask
+        await this.command("SPI_SET_PARAMS", EspLoader.ESP_SPI_SET_PARAMS, b);
+    }
+
+    public async changeBaudrate(baudRate: number) {
+        const b = Buffer.allocUnsafe(8);
+        b.writeUint32LE(baudRate, 0);
+        b.writeUint32LE(0, 4);//the ROM loader does not need the old baud rate
+        await this.command("CHANGE_BAUDRATE", EspLoader.ESP_CHANGE_BAUDRATE, b);
+        await new Promise<void>((resolve, reject) => this.port.update({ baudRate }, (err) => err ? reject(err) : resolve()));
+        await sleep(50);
+        while (this.slipDecoder.read() != null) { ; }
+    }
+
+    private beginData(size: number, numBlocks: number, offset: number) {
+        const b = Buffer.alloc(this.romSupportsEncryptedFlag ? 20 : 16);
+        b.writeUint32LE(size, 0);
+        b.writeUint32LE(numBlocks, 4);
+        b.writeUint32LE(EspLoader.FLASH_WRITE_SIZE, 8);
+        b.writeUint32LE(offset, 12);
+        //last word (if present) stays 0: the data is written as is, files for encrypted flash are already encrypted on the host
+        return b;
+    }
+
+    private blockData(seq: number, block: Buffer) {
+        const b = Buffer.alloc(16 + block.length);
+        b.writeUint32LE(block.length, 0);
+        b.writeUint32LE(seq, 4);
+        block.copy(b, 16);
+        return b;
+    }
+
+    public async flashBegin(size: number, offset: number) {
+        const numBlocks = Math.ceil(size / EspLoader.FLASH_WRITE_SIZE);
+        await this.command("FLASH_BEGIN", EspLoader.ESP_FLASH_BEGIN, this.beginData(size, numBlocks, offset), 0, EspLoader.timeoutPerMb(EspLoader.ERASE_REGION_TIMEOUT_PER_MB_MS, size));
+    }
+
+    public async flashFinish(reboot: boolean) {
+        await this.command("FLASH_END", EspLoader.ESP_FLASH_END, Buffer.from([reboot ? 0 : 1, 0, 0, 0]));
+    }
+
+    //onWritten gets the number of uncompressed bytes of this region written so far
+    public async writeRegion(offset: number, data: Buffer, compress: boolean, onWritten: (bytes: number) => void) {
+        if (compress) {
+            const compressed = zlib.deflateSync(data, { level: 9 });//the ROM expects zlib format, not raw deflate
+            const numBlocks = Math.ceil(compressed.length / EspLoader.FLASH_WRITE_SIZE);
+            const eraseSize = Math.ceil(data.length / EspLoader.FLASH_WRITE_SIZE) * EspLoader.FLASH_WRITE_SIZE;
+            await this.command("FLASH_DEFL_BEGIN", EspLoader.ESP_FLASH_DEFL_BEGIN, this.beginData(eraseSize, numBlocks, offset), 0, EspLoader.timeoutPerMb(EspLoader.ERASE_REGION_TIMEOUT_PER_MB_MS, eraseSize));
+            const uncompressedPerBlock = data.length / numBlocks;
+            for (let seq = 0; seq < numBlocks; seq++) {
+                const block = compressed.subarray(seq * EspLoader.FLASH_WRITE_SIZE, (seq + 1) * EspLoader.FLASH_WRITE_SIZE);
+                await this.command("FLASH_DEFL_DATA", EspLoader.ESP_FLASH_DEFL_DATA, this.blockData(seq, block), this.calculateChecksum(block), EspLoader.timeoutPerMb(EspLoader.ERASE_WRITE_TIMEOUT_PER_MB_MS, uncompressedPerBlock));
+                onWritten(Math.min(data.length, Math.round((seq + 1) * uncompressedPerBlock)));
+            }
+        } else {
+            await this.flashBegin(data.length, offset);
+            const numBlocks = Math.ceil(data.length / EspLoader.FLASH_WRITE_SIZE);
+            for (let seq = 0; seq < numBlocks; seq++) {
+                const block = Buffer.alloc(EspLoader.FLASH_WRITE_SIZE, 0xff);//last block is padded
+                data.copy(block, 0, seq * EspLoader.FLASH_WRITE_SIZE, (seq + 1) * EspLoader.FLASH_WRITE_SIZE);
+                await this.command("FLASH_DATA", EspLoader.ESP_FLASH_DATA, this.blockData(seq, block), this.calculateChecksum(block), EspLoader.timeoutPerMb(EspLoader.ERASE_WRITE_TIMEOUT_PER_MB_MS, EspLoader.FLASH_WRITE_SIZE));
+                onWritten(Math.min(data.length, (seq + 1) * EspLoader.FLASH_WRITE_SIZE));
+            }
+        }
+    }
+
+    //returns the md5 as lowercase hex string
+    public async flashMd5(offset: number, size: number) {
+        const b = Buffer.alloc(16);
+        b.writeUint32LE(offset, 0);
+        b.writeUint32LE(size, 4);
+        const res = await this.command("SPI_FLASH_MD5", EspLoader.ESP_SPI_FLASH_MD5, b, 0, EspLoader.timeoutPerMb(EspLoader.MD5_TIMEOUT_PER_MB_MS, size));
+        const digest = res.payload!.subarray(0, res.payload!.length - EspLoader.ROM_STATUS_BYTES_LENGTH);
+        //ROM sends 32 hex chars, the stub loader 16 raw bytes
+        return digest.length == 32 ? digest.toString("ascii").toLowerCase() : digest.toString("hex");
+    }
+
+    public async hardReset() {
+        this.port.set({ rts: true });
+        await sleep(100);
+        this.port.set(EspLoader.freeRunningEPS32);
+    }
+
+    public async WriteFlash(regions: Array<IFlashRegion>, options: IFlashOptions = {}) {
+        const compress = options.compress ?? true;
+        await this.spiAttach();
+        await this.spiSetParams(options.flashSizeBytes ?? EspLoader.DEFAULT_FLASH_SIZE);
+        if (options.baudRate && options.baudRate != EspLoader.INITIAL_BAUDRATE) {
+            await this.changeBaudrate(options.baudRate);
+        }
+        const totalBytes = regions.reduce((sum, r) => sum + r.data.length, 0);
+        let writtenBefore = 0;
+        for (const r of regions) {
+            const name = r.name ?? `0x${X02(r.offset, 6)}`;
+            await this.writeRegion(r.offset, r.data, compress, (bytes) => options.onProgress?.({ name, offset: r.offset, writtenBytes: writtenBefore + bytes, totalBytes }));
+            writtenBefore += r.data.length;
+            if (options.verify ?? true) {
+                const expected = crypto.createHash("md5").update(r.data).digest("hex");
+                const actual = await this.flashMd5(r.offset, r.data.length);
+                if (expected != actual) {
+                    throw new Error(`Verification of ${name} failed: MD5 in flash is ${actual}, expected ${expected}`);
+                }
+            }
+        }
+        //leave the flash mode of the ROM loader without starting the app, the reset follows
+        await this.flashBegin(0, 0);
+        await this.flashFinish(false);
+        if (options.reboot ?? true) {
+            await this.hardReset();
+        }
+    }
     private syncbuffer = Buffer.from([0x07, 0x07, 0x12, 0x20, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55,]);
 
     public syncronize = async (retries: number) => {
@@ -133,9 +334,9 @@ class EspLoader {
 
     private slipEncoder = new SlipEncoder({ bluetoothQuirk: true });//After analysis of the data of the original tool, I discovered, that each packet starts with a 0xC0 char (which is the package end char). the "bluetoothQuirk" option does exactly this...
     private slipDecoder = new SlipDecoder();
-    private port: SerialPort;
+    private port: LoaderPort;
 
-    public promisifiedOpen = (port: SerialPort) => {
+    public promisifiedOpen = (port: LoaderPort) => {
         return new Promise<boolean>((resolve, reject) => {
             port.open((err) => {
                 if (err) {
@@ -146,12 +347,12 @@ class EspLoader {
         });
     }
 
-    constructor(comPort: string) {
-        this.port = new SerialPort({
+    constructor(comPort: string | LoaderPort) {
+        this.port = typeof comPort === "string" ? new SerialPort({
             path: comPort,
-            baudRate: 115200,
+            baudRate: EspLoader.INITIAL_BAUDRATE,
             autoOpen: false,
-        });
+        }) : comPort;
     }
 
 
@@ -203,13 +404,12 @@ class EspLoader {
             case 0x1b31506f:
             case 0x4881606f:
             case 0x4361606f: {
-
-                console.error("ESP32C3ROM() not supported");
-                return null;
+                this.romSupportsEncryptedFlag = true;
+                return new ESP32C3(this);
             }
             case 0x2ce0806f: {
-                console.error("ESP32C6ROM not supported");
-                return null;
+                this.romSupportsEncryptedFlag = true;
+                return new ESP32C6(this);
             }
             case 0x33f0206f:
             case 0x2421606f: {
@@ -222,16 +422,17 @@ class EspLoader {
                 return null;
             }
             case 0xd7b73e80: {
-                console.error("ESP32H2ROM not supported");
-                return null;
+                this.romSupportsEncryptedFlag = true;
+                return new ESP32H2(this);
             }
             case 0x09: {
                 //console.info("Detected ESP32S3ROM");
+                this.romSupportsEncryptedFlag = true;
                 return new ESP32S3(this);
             }
             case 0x000007c6: {
-                console.error("ESP32S2ROM not supported");
-                return null;
+                this.romSupportsEncryptedFlag = true;
+                return new ESP32S2(this);
             }
             case 0xfff0c101: {
                 console.error("ESP8266ROM not supported");
@@ -255,6 +456,68 @@ class EspLoader {
 
 }
 
+//Position of an eFuse field in BLOCK0. word is the index of the 32bit word in the array read by readBlock0
+interface IEfuseField {
+    name: string;
+    category: string;
+    description: string;
+    word: number;
+    pos: number;
+    bit_len: number;
+    wrDisBit?: number;//bit in WR_DIS, that write protects this field
+    rdDisBit?: number;//bit in RD_DIS, that read protects this field
+}
+
+//Key blocks are not read, only their purpose and protection is reported
+interface IEfuseKeyBlock {
+    name: string;
+    block: number;
+    description: string;
+    wrDisBit: number;
+    rdDisBit: number;
+}
+
+function bitsOf(words: Uint32Array, word: number, pos: number, bit_len: number) {
+    return bit_len == 32 ? words[word] >>> 0 : (words[word] >>> pos) & ((1 << bit_len) - 1);
+}
+
+function decodeEfuses(words: Uint32Array, wrDis: number, rdDis: number, fields: Array<IEfuseField>, keyBlocks: Array<IEfuseKeyBlock>, keyPurposeName: (purpose: number) => string): EFuseData {
+    const summary: EFuseData = {};
+    for (const f of fields) {
+        const raw = bitsOf(words, f.word, f.pos, f.bit_len);
+        summary[f.name] = {
+            name: f.name,
+            category: f.category,
+            description: f.description,
+            block: 0,
+            word: f.word,
+            pos: f.pos,
+            bit_len: f.bit_len,
+            efuse_type: f.bit_len == 1 ? "bool" : `uint:${f.bit_len}`,
+            value: f.bit_len == 1 ? raw == 1 : f.name.startsWith("KEY_PURPOSE_") ? keyPurposeName(raw) : raw,
+            readable: f.rdDisBit === undefined || ((rdDis >>> f.rdDisBit) & 1) == 0,
+            writeable: f.wrDisBit === undefined || ((wrDis >>> f.wrDisBit) & 1) == 0,
+        };
+    }
+    keyBlocks.forEach((k, i) => {
+        const purpose = summary[`KEY_PURPOSE_${i}`];
+        summary[k.name] = {
+            name: k.name,
+            category: "security",
+            description: k.description,
+            block: k.block,
+            word: null,
+            pos: null,
+            bit_len: 256,
+            efuse_type: "bytes:32",
+            value: purpose ? purpose.value : "",
+            readable: ((rdDis >>> k.rdDisBit) & 1) == 0,
+            writeable: ((wrDis >>> k.wrDisBit) & 1) == 0,
+        };
+    });
+    return summary;
+}
+
 class ESP32Classic extends ESP32Type {
     constructor(loader:EspLoader){
         super(loader);
@@ -262,6 +525,30 @@ class ESP32Classic extends ESP32Type {
     }
     static readonly EFUSE_BASE = 0x3ff5a000;
     static readonly MACFUSEADDR = ESP32Classic.EFUSE_BASE + 0x1;
+    static readonly EFUSE_BLK0_RDATA0_REG = ESP32Classic.EFUSE_BASE;
+    static readonly BLOCK0_WORDS = 7;
+
+    static readonly FIELDS: Array<IEfuseField> = [
+        { name: "WR_DIS", category: "efuse", description: "Efuse write disable mask", word: 0, pos: 0, bit_len: 16 },
+        { name: "RD_DIS", category: "efuse", description: "Disable reading from BlOCK1-3", word: 0, pos: 16, bit_len: 4, wrDisBit: 0 },
+        { name: "FLASH_CRYPT_CNT", category: "security", description: "Flash encryption is enabled if this field has an odd number of bits set", word: 0, pos: 20, bit_len: 7, wrDisBit: 2 },
+        { name: "UART_DOWNLOAD_DIS", category: "security", description: "Disable UART download mode. Valid for ESP32 V3 and newer", word: 0, pos: 27, bit_len: 1, wrDisBit: 2 },
+        { name: "FLASH_CRYPT_CONFIG", category: "security", description: "Flash encryption config (key tweak bits)", word: 5, pos: 28, bit_len: 4, wrDisBit: 10, rdDisBit: 3 },
+        { name: "CODING_SCHEME", category: "efuse", description: "Efuse variable block length scheme", word: 6, pos: 0, bit_len: 2, wrDisBit: 10, rdDisBit: 3 },
+        { name: "CONSOLE_DEBUG_DISABLE", category: "security", description: "Disable ROM BASIC interpreter fallback", word: 6, pos: 2, bit_len: 1, wrDisBit: 15 },
+        { name: "ABS_DONE_0", category: "security", description: "Secure boot V1 is enabled for bootloader image", word: 6, pos: 4, bit_len: 1, wrDisBit: 12 },
+        { name: "ABS_DONE_1", category: "security", description: "Secure boot V2 is enabled for bootloader image", word: 6, pos: 5, bit_len: 1, wrDisBit: 13 },
+        { name: "JTAG_DISABLE", category: "security", description: "Disable JTAG", word: 6, pos: 6, bit_len: 1, wrDisBit: 14 },
+        { name: "DISABLE_DL_ENCRYPT", category: "security", description: "Disable flash encryption in UART bootloader", word: 6, pos: 7, bit_len: 1, wrDisBit: 15 },
+        { name: "DISABLE_DL_DECRYPT", category: "security", description: "Disable flash decryption in UART bootloader", word: 6, pos: 8, bit_len: 1, wrDisBit: 15 },
+        { name: "DISABLE_DL_CACHE", category: "security", description: "Disable flash cache in UART bootloader", word: 6, pos: 9, bit_len: 1, wrDisBit: 15 },
+    ];
+
+    static readonly KEY_BLOCKS: Array<IEfuseKeyBlock> = [
+        { name: "BLOCK1", block: 1, description: "Flash encryption key", wrDisBit: 7, rdDisBit: 0 },
+        { name: "BLOCK2", block: 2, description: "Secure boot key (V1) or public key digest (V2)", wrDisBit: 8, rdDisBit: 1 },
+        { name: "BLOCK3", block: 3, description: "Variable block 3", wrDisBit: 9, rdDisBit: 2 },
+    ];
     
     async updateChipInfo () {
         var efuses = await this.loader.readRegisters(ESP32Classic.MACFUSEADDR, 2);
@@ -278,11 +565,17 @@ class ESP32Classic extends ESP32Type {
         this._mac[5] = mac0 & 0xff;
     }
 
+    async readEfuseSummary() {
+        const words = await this.loader.readRegisters(ESP32Classic.EFUSE_BLK0_RDATA0_REG, ESP32Classic.BLOCK0_WORDS);
+        this._efuseSummary = decodeEfuses(words, bitsOf(words, 0, 0, 16), bitsOf(words, 0, 16, 4), ESP32Classic.FIELDS, ESP32Classic.KEY_BLOCKS, (p) => p.toString());
+        return this._efuseSummary;
+    }
+
 }
 
 enum KeyPurpose{
     USER_EMPTY=0,
-    RESERVED=1,
+    RESERVED=1,//ECDSA_KEY on ESP32H2
     XTS_AES_256_KEY_1=2,
     XTS_AES_256_KEY_2=3,
     XTS_AES_128_KEY=4,
@@ -295,52 +588,140 @@ enum KeyPurpose{
     SECURE_BOOT_DIGEST2=11,
 }
 
-class ESP32S3 extends ESP32Type {
-    constructor(loader:EspLoader){
+//BLOCK0 layout shared by ESP32S2 and all newer chips: WR_DIS followed by RD_REPEAT_DATA0..4. Fields, that are not at the same position on all chips, are defined in the subclasses
+const KEY_FAMILY_COMMON_FIELDS: Array<IEfuseField> = [
+    { name: "WR_DIS", category: "efuse", description: "Disable programming of individual eFuses", word: 0, pos: 0, bit_len: 32 },
+    { name: "RD_DIS", category: "efuse", description: "Disable reading from BlOCK4-10", word: 1, pos: 0, bit_len: 7, wrDisBit: 0 },
+    { name: "DIS_FORCE_DOWNLOAD", category: "security", description: "Disable the function that forces chip into download mode", word: 1, pos: 12, bit_len: 1, wrDisBit: 2 },
+    { name: "SPI_BOOT_CRYPT_CNT", category: "security", description: "Enables flash encryption when 1 or 3 bits are set and disables otherwise", word: 2, pos: 18, bit_len: 3, wrDisBit: 4 },
+    { name: "SECURE_BOOT_KEY_REVOKE0", category: "security", description: "Revoke 1st secure boot key", word: 2, pos: 21, bit_len: 1, wrDisBit: 5 },
+    { name: "SECURE_BOOT_KEY_REVOKE1", category: "security", description: "Revoke 2nd secure boot key", word: 2, pos: 22, bit_len: 1, wrDisBit: 6 },
+    { name: "SECURE_BOOT_KEY_REVOKE2", category: "security", description: "Revoke 3rd secure boot key", word: 2, pos: 23, bit_len: 1, wrDisBit: 7 },
+    { name: "KEY_PURPOSE_0", category: "security", description: "Purpose of Key0", word: 2, pos: 24, bit_len: 4, wrDisBit: 8 },
+    { name: "KEY_PURPOSE_1", category: "security", description: "Purpose of Key1", word: 2, pos: 28, bit_len: 4, wrDisBit: 9 },
+    { name: "KEY_PURPOSE_2", category: "security", description: "Purpose of Key2", word: 3, pos: 0, bit_len: 4, wrDisBit: 10 },
+    { name: "KEY_PURPOSE_3", category: "security", description: "Purpose of Key3", word: 3, pos: 4, bit_len: 4, wrDisBit: 11 },
+    { name: "KEY_PURPOSE_4", category: "security", description: "Purpose of Key4", word: 3, pos: 8, bit_len: 4, wrDisBit: 12 },
+    { name: "KEY_PURPOSE_5", category: "security", description: "Purpose of Key5", word: 3, pos: 12, bit_len: 4, wrDisBit: 13 },
+    { name: "SECURE_BOOT_EN", category: "security", description: "Enable secure boot", word: 3, pos: 20, bit_len: 1, wrDisBit: 15 },
+    { name: "SECURE_BOOT_AGGRESSIVE_REVOKE", category: "security", description: "Enable revoking aggressive secure boot", word: 3, pos: 21, bit_len: 1, wrDisBit: 16 },
+    { name: "DIS_DOWNLOAD_MODE", category: "security", description: "Disable download mode (boot_mode[3:0] = 0, 1, 2, 3, 6, 7)", word: 4, pos: 0, bit_len: 1, wrDisBit: 18 },
+    { name: "ENABLE_SECURITY_DOWNLOAD", category: "security", description: "Enable security download mode", word: 4, pos: 5, bit_len: 1, wrDisBit: 18 },
+];
+
+const KEY_FAMILY_KEY_BLOCKS: Array<IEfuseKeyBlock> = [0, 1, 2, 3, 4, 5].map(i => ({ name: `BLOCK_KEY${i}`, block: 4 + i, description: `Key${i} or user data`, wrDisBit: 23 + i, rdDisBit: i }));
+
+//ESP32S2 and newer: six key blocks with configurable purpose
+abstract class ESP32WithKeyPurposes extends ESP32Type {
+    constructor(loader:EspLoader, chipName:string, private readonly efuseBase:number, private readonly chipSpecificFields:Array<IEfuseField>){
         super(loader);
-        this._chipName="ESP32S3"
-    }
-    static readonly EFUSE_BASE = 0x6000_7000;
-    static readonly EFUSE_RD_REG_BASE           = ESP32S3.EFUSE_BASE + 0x030  //BLOCK0 read base address
-    static readonly EFUSE_BLOCK1_ADDR           = ESP32S3.EFUSE_BASE + 0x44;
-    static readonly EFUSE_BLOCK2_ADDR           = ESP32S3.EFUSE_BASE + 0x5C;
-    static readonly EFUSE_RD_REPEAT_DATA0_REG   = ESP32S3.EFUSE_BASE + 0x030;
-    static readonly EFUSE_RD_REPEAT_DATA1_REG   = ESP32S3.EFUSE_BASE + 0x034;
-    
-    static readonly MACFUSEADDR                 = ESP32S3.EFUSE_BLOCK1_ADDR;
+        this._chipName=chipName;
+    }
+    private get EFUSE_RD_WR_DIS_REG() {return this.efuseBase + 0x02C;}
+    private get EFUSE_RD_REPEAT_DATA1_REG() {return this.efuseBase + 0x034;}
+    private get MACFUSEADDR() {return this.efuseBase + 0x044;}//BLOCK1
+    static readonly BLOCK0_WORDS = 6;
+
+    protected keyPurposeName(purpose: number) {
+        return KeyPurpose[purpose] ?? purpose.toString();
+    }
 
     async updateChipInfo () {
-        var efuses = await this.loader.readRegisters(ESP32S3.MACFUSEADDR, 2);
+        var efuses = await this.loader.readRegisters(this.MACFUSEADDR, 2);
         let mac0 = efuses[0];
         let mac1 = efuses[1];
         //let mac2 = efuses[2];
         //let mac3 = efuses[3];
-        //valid only for ESP32S3
         this._mac[0] = (mac1 >> 8) & 0xff;
         this._mac[1] = mac1 & 0xff;
         this._mac[2] = (mac0 >> 24) & 0xff;
         this._mac[3] = (mac0 >> 16) & 0xff;
         this._mac[4] = (mac0 >> 8) & 0xff;
         this._mac[5] = mac0 & 0xff;
-        var data_regs_efuses = await this.loader.readRegisters(ESP32S3.EFUSE_RD_REPEAT_DATA1_REG, 2);
+        var data_regs_efuses = await this.loader.readRegisters(this.EFUSE_RD_REPEAT_DATA1_REG, 2);
         const purposes=[((data_regs_efuses[0]>>24)& 0xF) as KeyPurpose, ((data_regs_efuses[0]>>28)& 0xF) as KeyPurpose, ((data_regs_efuses[1]>>0)& 0xF) as KeyPurpose,((data_regs_efuses[1]>>4)& 0xF) as KeyPurpose,((data_regs_efuses[1]>>8)& 0xF) as KeyPurpose,((data_regs_efuses[1]>>12)& 0xF) as KeyPurpose,];
         const SPI_BOOT_CRYPT_CNT = (data_regs_efuses[0]>>18)& 0x7
+        //boards, whose secure boot digest has been burned into the first empty key block, have it in KEY0 or KEY1
+        const isFreeOrDigest = (p: KeyPurpose) => p == KeyPurpose.USER_EMPTY || (p >= KeyPurpose.SECURE_BOOT_DIGEST0 && p <= KeyPurpose.SECURE_BOOT_DIGEST2);
         if(purposes[0]==KeyPurpose.XTS_AES_256_KEY_1 && purposes[1]==KeyPurpose.XTS_AES_256_KEY_2){
             if(!(SPI_BOOT_CRYPT_CNT==0b1 || SPI_BOOT_CRYPT_CNT==0b11 || SPI_BOOT_CRYPT_CNT==0b111)){
                 throw Error(`Encryption Key is XTS_AES_256, but SPI_BOOT_CRYPT_CNT has no odd number of ones, but 0b${SPI_BOOT_CRYPT_CNT.toString(2)}`);	
             }
             this._hasEncryptionKey=true;
         }
-        else if(purposes[0]==KeyPurpose.XTS_AES_128_KEY && purposes[1]==KeyPurpose.USER_EMPTY){
+        else if(purposes[0]==KeyPurpose.XTS_AES_128_KEY && isFreeOrDigest(purposes[1])){
             if(!(SPI_BOOT_CRYPT_CNT==0b1 || SPI_BOOT_CRYPT_CNT==0b11 || SPI_BOOT_CRYPT_CNT==0b111)){
                 throw Error(`Encryption Key is XTS_AES_128, but SPI_BOOT_CRYPT_CNT has no odd number of ones, but 0b${SPI_BOOT_CRYPT_CNT.toString(2)}`);	
             }
             this._hasEncryptionKey=true;
         }
-        else if(!(purposes[0]==KeyPurpose.USER_EMPTY && purposes[1]==KeyPurpose.USER_EMPTY)){
+        else if(!(isFreeOrDigest(purposes[0]) && isFreeOrDigest(purposes[1]))){
             throw Error("Unexpected key purposes");
         } 
     }
+
+    async readEfuseSummary() {
+        const words = await this.loader.readRegisters(this.EFUSE_RD_WR_DIS_REG, ESP32WithKeyPurposes.BLOCK0_WORDS);
+        const fields = [...KEY_FAMILY_COMMON_FIELDS, ...this.chipSpecificFields];
+        this._efuseSummary = decodeEfuses(words, words[0] >>> 0, bitsOf(words, 1, 0, 7), fields, KEY_FAMILY_KEY_BLOCKS, (p) => this.keyPurposeName(p));
+        return this._efuseSummary;
+    }
+}
+
+class ESP32S2 extends ESP32WithKeyPurposes {
+    constructor(loader:EspLoader){
+        super(loader, "ESP32S2", 0x3F41_A000, [
+            { name: "SOFT_DIS_JTAG", category: "security", description: "Software disables JTAG. When software disabled, JTAG can be activated temporarily by HMAC peripheral", word: 1, pos: 17, bit_len: 1, wrDisBit: 31 },
+            { name: "HARD_DIS_JTAG", category: "security", description: "Hardware disables JTAG permanently", word: 1, pos: 18, bit_len: 1, wrDisBit: 2 },
+            { name: "DIS_DOWNLOAD_MANUAL_ENCRYPT", category: "security", description: "Disable flash encryption when in download boot modes", word: 1, pos: 19, bit_len: 1, wrDisBit: 2 },
+            { name: "DIS_USB_DOWNLOAD_MODE", category: "security", description: "Disable USB OTG download mode", word: 4, pos: 4, bit_len: 1, wrDisBit: 18 },
+        ]);
+    }
+}
+
+class ESP32S3 extends ESP32WithKeyPurposes {
+    constructor(loader:EspLoader){
+        super(loader, "ESP32S3", 0x6000_7000, [
+            { name: "SOFT_DIS_JTAG", category: "security", description: "Software disables JTAG by programming odd number of 1 bit(s). JTAG can be re-enabled via HMAC peripheral", word: 1, pos: 16, bit_len: 3, wrDisBit: 31 },
+            { name: "DIS_PAD_JTAG", category: "security", description: "Hardware disables JTAG permanently", word: 1, pos: 19, bit_len: 1, wrDisBit: 2 },
+            { name: "DIS_DOWNLOAD_MANUAL_ENCRYPT", category: "security", description: "Disable flash encryption when in download boot modes", word: 1, pos: 20, bit_len: 1, wrDisBit: 2 },
+            { name: "DIS_USB_JTAG", category: "security", description: "Disable usb_serial_jtag-to-jtag function", word: 3, pos: 22, bit_len: 1, wrDisBit: 2 },
+            { name: "DIS_USB_SERIAL_JTAG", category: "security", description: "Disable usb_serial_jtag module", word: 3, pos: 23, bit_len: 1, wrDisBit: 2 },
+            { name: "DIS_USB_SERIAL_JTAG_DOWNLOAD_MODE", category: "security", description: "Disable download through USB-Serial-JTAG", word: 4, pos: 4, bit_len: 1, wrDisBit: 18 },
+        ]);
+    }
+}
+
+//C3, C6 and H2 have the same layout of the security fields
+const RISCV_SPECIFIC_FIELDS: Array<IEfuseField> = [
+    { name: "DIS_USB_JTAG", category: "security", description: "Disable usb_serial_jtag-to-jtag function", word: 1, pos: 9, bit_len: 1, wrDisBit: 2 },
+    { name: "DIS_USB_SERIAL_JTAG", category: "security", description: "Disable usb_serial_jtag module", word: 1, pos: 11, bit_len: 1, wrDisBit: 2 },
+    { name: "SOFT_DIS_JTAG", category: "security", description: "Software disables JTAG by programming odd number of 1 bit(s). JTAG can be re-enabled via HMAC peripheral", word: 1, pos: 16, bit_len: 3, wrDisBit: 31 },
+    { name: "DIS_PAD_JTAG", category: "security", description: "Hardware disables JTAG permanently", word: 1, pos: 19, bit_len: 1, wrDisBit: 2 },
+    { name: "DIS_DOWNLOAD_MANUAL_ENCRYPT", category: "security", description: "Disable flash encryption when in download boot modes", word: 1, pos: 20, bit_len: 1, wrDisBit: 2 },
+    { name: "DIS_USB_SERIAL_JTAG_DOWNLOAD_MODE", category: "security", description: "Disable download through USB-Serial-JTAG", word: 4, pos: 4, bit_len: 1, wrDisBit: 18 },
+];
+
+class ESP32C3 extends ESP32WithKeyPurposes {
+    constructor(loader:EspLoader){
+        super(loader, "ESP32C3", 0x6000_8800, RISCV_SPECIFIC_FIELDS);
+    }
+}
+
+class ESP32C6 extends ESP32WithKeyPurposes {
+    constructor(loader:EspLoader){
+        super(loader, "ESP32C6", 0x600B_0800, RISCV_SPECIFIC_FIELDS);
+    }
+}
+
+class ESP32H2 extends ESP32WithKeyPurposes {
+    constructor(loader:EspLoader){
+        super(loader, "ESP32H2", 0x600B_0800, RISCV_SPECIFIC_FIELDS);
+    }
+
+    protected keyPurposeName(purpose: number) {
+        return purpose == KeyPurpose.RESERVED ? "ECDSA_KEY" : super.keyPurposeName(purpose);
+    }
 }
 
 
@@ -354,17 +735,34 @@ class BootloaderReturn {
 }
 
 
-export async function GetESP32ObjectFromSpecificPort(comPort: string): Promise<ESP32Type|null> {
+export async function GetESP32ObjectFromSpecificPort(comPort: string, readEfuseSummary = false): Promise<ESP32Type|null> {
     var loader = new EspLoader(comPort);
     var res = await loader.GetESP32Object();
     if (!res) {
         return null;
     }
     await res.updateChipInfo();
+    if (readEfuseSummary) {
+        await res.readEfuseSummary();
+    }
     loader.Close();
     return res;
 }
 
+//Writes the regions with the ROM loader, no esptool/python necessary. comPort may also be a SerialPortMock
+export async function WriteFlash(comPort: string | LoaderPort, regions: Array<IFlashRegion>, options: IFlashOptions = {}) {
+    var loader = new EspLoader(comPort);
+    var esp32 = await loader.GetESP32Object();
+    if (!esp32) {
+        throw new Error(`No supported ESP32 found on ${typeof comPort === "string" ? comPort : comPort.path}`);
+    }
+    try {
+        await loader.WriteFlash(regions, options);
+    } finally {
+        await loader.Close();
+    }
+}
+
 export interface IPortInfo{
     friendlyName:string;
     locationId:string;
@@ -394,12 +792,12 @@ const validUsb=[
     new VendorProduct("303A", "1002"),//second gen ESPProg
     new VendorProduct("1A86", "55D3"),//internal USB of ESP32-S3-DevKitC-1
 ]
-export async function GetESP32Object(): Promise<ESP32Type|null> {
+export async function GetESP32Object(readEfuseSummary = false): Promise<ESP32Type|null> {
     let ret:ESP32Type|null;
     const filteredPorts = await FindProbablePorts()
     for (var pi of filteredPorts) {
         console.log(`Checking Port '${pi.friendlyName}' (vid:${pi.vendorId}, pid:${pi.productId})`);
-        ret=await GetESP32ObjectFromSpecificPort(pi.path)
+        ret=await GetESP32ObjectFromSpecificPort(pi.path, readEfuseSummary)
         if(ret){
             return ret;
         }
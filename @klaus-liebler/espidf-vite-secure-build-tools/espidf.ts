@@ -1,21 +1,32 @@
-import { execSync } from 'node:child_process';
 import * as P from "./paths";
 import fs from "node:fs";
 import { Context } from './context';
 import path from 'node:path';
-import { mac_12char } from './utils';
-import { FindProbablePorts } from './esp32';
-import * as os from "node:os"
+import { CopyBoardSpecificFiles, mac_12char } from './utils';
+import { createLittlefsImage, littlefsFilesFromDirectory } from './littlefs';
+import { GetESP32Object, IFlashProgress, WriteFlash } from './esp32';
+import { exec, GetIdfEnvironment } from './exec';
 
 export enum EncryptionStrength {
   AES128 = 256,//AES-128 (256-bit key)
   AES256 = 512,//AES-256 (512-bit key)
 };
 
+export enum SecureBootKeyType {
+  RSA3072 = "rsa3072",
+  ECDSA256 = "ecdsa256",//not supported by ESP32 (classic) and ESP32S2
+};
+
+export enum SecureBootKeyScope {
+  BOARD,//individual key per board
+  FLEET,//one key for all boards
+};
 
-const IDF_PATH = globalThis.process.env.IDF_PATH as string;
-//Location of esp idf tools
-const NVS_PARTITION_GEN_TOOL = path.join(IDF_PATH, "components/nvs_flash/nvs_partition_generator/nvs_partition_gen.py");
+
+//Location of esp idf tools relative to IDF_PATH
+const NVS_PARTITION_GEN_TOOL = path.join("components", "nvs_flash", "nvs_partition_generator", "nvs_partition_gen.py");
+const IDF_PY = path.join("tools", "idf.py");
+const FLASH_BAUDRATE = 460800;
 
 
 export async function createRandomFlashEncryptionKeyLazily(c: Context, keySize: EncryptionStrength) {
@@ -25,34 +36,138 @@ export async function createRandomFlashEncryptionKeyLazily(c: Context, keySize:
     return;
   }
   c.p.createBoardSpecificPathLazy(P.FLASH_KEY_SUBDIR);
-  espsecure(`generate_flash_encryption_key --keylen ${keySize} "${path}"`, (line) => true);
+  await espsecure(["generate_flash_encryption_key", "--keylen", `${keySize}`, path], (line) => true);
   console.log('Random Flash Encryption Key successfully generated');
 }
 
+//the connected board, if it is the board of the context. Irreversible operations must use the port of this board
+async function connectedBoardOfContext(c: Context, readEfuseSummary: boolean) {
+  const esp32 = await GetESP32Object(readEfuseSummary);
+  if (!esp32 || (readEfuseSummary && !esp32.efuseSummary)) {
+    throw new Error(`No board found or eFuses of the connected board could not be read`);
+  }
+  if (esp32.macAsNumber != c.b.mac) {
+    throw new Error(`Connected board has mac ${esp32.macAsHexString}, but the context is for board with mac 0x${mac_12char(c.b.mac)}`);
+  }
+  return esp32;
+}
+
+//ESP32S2 and newer: updateChipInfo expects the flash encryption key in BLOCK_KEY0 (XTS_AES_128_KEY) or in BLOCK_KEY0 and BLOCK_KEY1 (XTS_AES_256_KEY).
+//These blocks stay reserved, even if the flash encryption key has not been burned yet. All other keys get the first free block behind them
+function keyBlockFor(e: EFuseData, use: "flash_encryption" | "secure_boot_digest", flashKeySize: EncryptionStrength): string {
+  const flashKeyBlocks = flashKeySize == EncryptionStrength.AES256 ? 2 : 1;
+  const isFree = (i: number) => e[`BLOCK_KEY${i}`]?.value == "USER_EMPTY" && e[`BLOCK_KEY${i}`].writeable;
+  if (!e["BLOCK_KEY0"]) {
+    throw new Error(`The connected chip has no key blocks with configurable purpose`);
+  }
+  if (use == "flash_encryption") {
+    for (let i = 0; i < flashKeyBlocks; i++) {
+      if (!isFree(i)) throw new Error(`BLOCK_KEY${i} is reserved for the flash encryption key, but is already used as ${e[`BLOCK_KEY${i}`]?.value} or write protected`);
+    }
+    return "BLOCK_KEY0";
+  }
+  for (let i = flashKeyBlocks; e[`BLOCK_KEY${i}`]; i++) {
+    if (isFree(i)) return `BLOCK_KEY${i}`;
+  }
+  throw new Error(`There is no free key block for the secure boot digest`);
+}
+
+//number of key blocks to keep free for the flash encryption key: as long as the key file does not exist, AES-256 is assumed
+function plannedFlashKeySize(c: Context) {
+  const keyPath = c.p.boardSpecificPath(P.FLASH_KEY_SUBDIR, P.FLASH_KEY_FILENAME);
+  return fs.existsSync(keyPath) && fs.statSync(keyPath).size * 8 == EncryptionStrength.AES128 ? EncryptionStrength.AES128 : EncryptionStrength.AES256;
+}
+
 export async function burnFlashEncryptionKeyAndActivateEncryptedFlash(c: Context, keySize: EncryptionStrength) {
   if (c.b.flash_encryption_key_burned_and_activated) {
     console.info(`flash_encryption key for board  ${c.b.board_name} ${c.b.board_version} with mac 0x${mac_12char(c.b.mac)} has already been burned to efuse and has been activated`);
     return;
   }
-  const pi = (await FindProbablePorts())[0];
   const path=c.p.boardSpecificPath(P.FLASH_KEY_SUBDIR, P.FLASH_KEY_FILENAME);
   const sizeByte = fs.statSync(path).size;
   if (sizeByte != keySize / 8) {
     throw Error(`flash_encryption key for board  ${c.b.board_name} ${c.b.board_version} with mac 0x${mac_12char(c.b.mac)} has already been created, but with wrong size! (is:${sizeByte}Byte, shall:${keySize}/8 byte)`);
   }
-  if (keySize == EncryptionStrength.AES128) {
-    espefuse(`--port ${pi.path} --do-not-confirm burn_key BLOCK_KEY0 ${path} XTS_AES_128_KEY`, (l) => false);
-  } else if (keySize == EncryptionStrength.AES256) {
-    espefuse(`--port ${pi.path} --do-not-confirm burn_key BLOCK_KEY0 ${path} XTS_AES_256_KEY`, (l) => false);
-  } else {
+  if (keySize != EncryptionStrength.AES128 && keySize != EncryptionStrength.AES256) {
     throw Error(`KeySize ${keySize} not implemented`);
   }
-  espefuse(`--port ${pi.path} --do-not-confirm burn_efuse SPI_BOOT_CRYPT_CNT 1`, (l) => false);
+  const esp32 = await connectedBoardOfContext(c, true);
+  const port = esp32.comPort.path;
+  const block = keyBlockFor(esp32.efuseSummary!, "flash_encryption", keySize);
+  await espefuse(["--port", port, "--do-not-confirm", "burn_key", block, path, keySize == EncryptionStrength.AES128 ? "XTS_AES_128_KEY" : "XTS_AES_256_KEY"], (l) => false);
+  await espefuse(["--port", port, "--do-not-confirm", "burn_efuse", "SPI_BOOT_CRYPT_CNT", "1"], (l) => false);
   console.log('Random Flash Encryption Key successfully burned to EFUSE; encryption of flash activated!');
   c.setFlashEncryptionKeyBurnedAndActivated();
 }
 
-interface IPartitionTableEntry {
+export async function createSecureBootSigningKeyLazily(c: Context, keyType: SecureBootKeyType, scope: SecureBootKeyScope) {
+  const keyPath = c.p.secureBootKeyPath(scope == SecureBootKeyScope.BOARD, P.SECURE_BOOT_SIGNING_KEY_FILENAME);
+  if (fs.existsSync(keyPath)) {
+    console.info(`Secure boot signing key ${keyPath} has already been created.`);
+    return;
+  }
+  fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+  await espsecure(["generate_signing_key", "--version", "2", "--scheme", keyType, keyPath], (line) => true);
+  console.log(`Secure Boot V2 signing key (${keyType}) successfully generated`);
+}
+
+//has to be called after buildFirmware and before encryptPartitions_Bootloader_App_PartitionTable_OtaData; signs the images in place
+export async function signBootloaderAndApp(c: Context, scope: SecureBootKeyScope) {
+  const keyPath = c.p.secureBootKeyPath(scope == SecureBootKeyScope.BOARD, P.SECURE_BOOT_SIGNING_KEY_FILENAME);
+  if (!fs.existsSync(keyPath)) {
+    throw new Error(`Secure boot signing key ${keyPath} does not exist. Call createSecureBootSigningKeyLazily first`);
+  }
+  for (const s of [c.f!.bootloader, c.f!.app]) {
+    const file = path.join(c.p.P_BUILD, s.file);
+    await espsecure(["sign_data", "--version", "2", "--keyfile", keyPath, "--output", file, file], () => false);
+  }
+  console.log('Signing of bootloader and app finished');
+}
+
+//Burning the digest is irreversible. With dryRun, only the commands are printed. Otherwise confirmMac has to be the 12 character mac of the board (e.g. "7cdfa1e01234") as explicit confirmation
+export async function burnSecureBootKeyDigestAndEnableSecureBoot(c: Context, scope: SecureBootKeyScope, dryRun: boolean = true, confirmMac: string = "") {
+  if (c.b.secure_boot_enabled) {
+    console.info(`Secure boot for board  ${c.b.board_name} ${c.b.board_version} with mac 0x${mac_12char(c.b.mac)} has already been enabled`);
+    return;
+  }
+  if (!dryRun && confirmMac.toLowerCase() != mac_12char(c.b.mac).toLowerCase()) {
+    throw new Error(`Burning the secure boot digest is irreversible. Pass the mac ${mac_12char(c.b.mac)} of board ${c.b.board_name} ${c.b.board_version} as confirmation`);
+  }
+  const keyPath = c.p.secureBootKeyPath(scope == SecureBootKeyScope.BOARD, P.SECURE_BOOT_SIGNING_KEY_FILENAME);
+  const digestPath = c.p.secureBootKeyPath(scope == SecureBootKeyScope.BOARD, P.SECURE_BOOT_KEY_DIGEST_FILENAME);
+  if (!fs.existsSync(keyPath)) {
+    throw new Error(`Secure boot signing key ${keyPath} does not exist. Call createSecureBootSigningKeyLazily first`);
+  }
+  const esp32 = await connectedBoardOfContext(c, true);
+  const e = esp32.efuseSummary!;
+  const port = esp32.comPort.path;
+  const commands: Array<Array<string>> = [];
+  if (e["BLOCK2"]) {
+    //ESP32 (classic) has exactly one block for the digest
+    if (!e["BLOCK2"].writeable) {
+      throw new Error(`BLOCK2 for the secure boot digest is already write protected`);
+    }
+    commands.push(["--port", port, "--do-not-confirm", "burn_key_digest", keyPath]);
+    commands.push(["--port", port, "--do-not-confirm", "burn_efuse", "ABS_DONE_1"]);
+  } else {
+    const block = keyBlockFor(e, "secure_boot_digest", plannedFlashKeySize(c));
+    await espsecure(["digest_sbv2_public_key", "--keyfile", keyPath, "--output", digestPath], () => false);
+    commands.push(["--port", port, "--do-not-confirm", "burn_key", block, digestPath, "SECURE_BOOT_DIGEST0"]);
+    commands.push(["--port", port, "--do-not-confirm", "burn_efuse", "SECURE_BOOT_EN", "1"]);
+  }
+  if (dryRun) {
+    console.log(`Dry run: the following espefuse commands would be executed for board ${c.b.board_name} ${c.b.board_version} with mac 0x${mac_12char(c.b.mac)}:`);
+    commands.forEach(cmd => console.log(`  espefuse.py ${cmd.join(" ")}`));
+    return;
+  }
+  for (const cmd of commands) {
+    await espefuse(cmd, (l) => false);
+  }
+  console.log('Secure boot key digest successfully burned to EFUSE; secure boot activated!');
+  c.setSecureBootEnabled();
+}
+
+export interface IPartitionTableEntry {
   Name: string;
   Type: string;
   SubType: string;
@@ -61,6 +176,13 @@ interface IPartitionTableEntry {
   Flags?: string;  // Flags sind weiterhin optional und vom Typ string.
 }
 
+export function findPartition(c: Context, predicate: (e: IPartitionTableEntry) => boolean, description: string): IPartitionTableEntry {
+  const entry = parsePartitionsCSVFromFile(path.join(c.c.idfProjectDirectory, "partitions.csv")).find(predicate);
+  if (!entry) throw new Error(`There is no ${description} partition in partitions.csv`);
+  if (!entry.Offset) throw new Error(`Offset of the ${description} partition must be defined in partitions.csv`);
+  return entry;
+}
+
 function parsePartitionsCSVFromFile(filePath: string): IPartitionTableEntry[] {
   // Lese den gesamten Inhalt der Datei als String.
   const csvData = fs.readFileSync(filePath, 'utf8');
@@ -77,9 +199,9 @@ function parsePartitionsCSVFromFile(filePath: string): IPartitionTableEntry[] {
 
     // Erstelle ein Entry und füge es zur Liste hinzu.
     const entry: IPartitionTableEntry = {
-      Name: values[0],
-      Type: values[1],
-      SubType: values[2],
+      Name: values[0].trim(),
+      Type: values[1].trim(),
+      SubType: values[2].trim(),
       Offset: values[3] ? parseInt(values[3], 16) : undefined, // Konvertiere Offset nach Nummer (hexadezimal).
       Size: parseInt(values[4], 16), // Konvertiere Size nach Nummer (hexadezimal).
       Flags: values[5] || undefined, // Flags bleiben undefined, wenn sie leer sind.
@@ -93,8 +215,8 @@ function parsePartitionsCSVFromFile(filePath: string): IPartitionTableEntry[] {
 
 
 
-export async function buildFirmware(c: Context) {
-  exec_in_idf_terminal(`idf.py build`, c.c.idfProjectDirectory, (l) => l.startsWith("Successfully created"));
+export async function buildFirmware(c: Context, signal?: AbortSignal) {
+  await idf_python(IDF_PY, ["build"], c.c.idfProjectDirectory, (l) => l.startsWith("Successfully created"), signal);
 }
 /*
 With flash encryption enabled, the following types of data are encrypted by default:
@@ -106,13 +228,41 @@ All app type partitions
 */
 
 export async function encryptPartitions_Bootloader_App_PartitionTable_OtaData(c: Context) {
-  [c.f!.bootloader, c.f!.app, c.f!["partition-table"], c.f!.otadata].forEach(s => {
-    espsecure(`encrypt_flash_data --aes_xts --keyfile "${c.p.boardSpecificPath(P.FLASH_KEY_SUBDIR, P.FLASH_KEY_FILENAME)}" --address ${s.offset} --output ${path.join(c.p.P_BUILD, s.file.replace(".bin", "-enc.bin"))} ${path.join(c.p.P_BUILD, s.file)}`, () => false);
-  })
+  for (const s of [c.f!.bootloader, c.f!.app, c.f!["partition-table"], c.f!.otadata]) {
+    await espsecure(["encrypt_flash_data", "--aes_xts", "--keyfile", c.p.boardSpecificPath(P.FLASH_KEY_SUBDIR, P.FLASH_KEY_FILENAME), "--address", s.offset, "--output", path.join(c.p.P_BUILD, s.file.replace(".bin", "-enc.bin")), path.join(c.p.P_BUILD, s.file)], () => false);
+  }
   console.log('Encryption finished');
 }
 
-export function nvs_partition_gen(c: Context, encrypt: boolean, filterStdOut: (line: string) => boolean): Section {
+//The NVS encryption key is independent of the flash encryption key. It is stored in the nvs_keys partition, which itself is protected by flash encryption
+export async function createRandomNvsEncryptionKeyLazily(c: Context) {
+  const keyPath = c.p.boardSpecificPath(P.NVS_KEY_SUBDIR, P.NVS_KEYS_FILENAME);
+  if (fs.existsSync(keyPath)) {
+    console.info(`nvs_encryption key for board  ${c.b.board_name} ${c.b.board_version} with mac 0x${mac_12char(c.b.mac)} has already been created.`);
+    return;
+  }
+  c.p.createBoardSpecificPathLazy(P.NVS_KEY_SUBDIR);
+  //the tool always writes to <outdir>/keys/<keyfile>
+  const outdir = c.p.boardSpecificPath(P.NVS_KEY_SUBDIR);
+  await idf_python(NVS_PARTITION_GEN_TOOL, ["generate-key", "--keyfile", P.NVS_KEYS_FILENAME, "--outdir", outdir], c.c.idfProjectDirectory, (l) => false);
+  fs.renameSync(path.join(outdir, "keys", P.NVS_KEYS_FILENAME), keyPath);
+  fs.rmSync(path.join(outdir, "keys"), { recursive: true, force: true });
+  console.log('Random NVS Encryption Key successfully generated');
+}
+
+//the nvs_keys partition is the only partition of type data, that is encrypted with the flash encryption key. It needs the "encrypted" flag in partitions.csv
+export async function encryptNvsKeysPartition(c: Context): Promise<Section> {
+  const nvsKeysPartitionInfo = findPartition(c, (e) => e.Type == "data" && e.SubType == "nvs_keys", "nvs_keys");
+  const keyPath = c.p.boardSpecificPath(P.NVS_KEY_SUBDIR, P.NVS_KEYS_FILENAME);
+  const encKeyPath = c.p.boardSpecificPath(P.NVS_KEY_SUBDIR, P.NVS_KEYS_ENC_FILENAME);
+  if (!fs.existsSync(keyPath)) {
+    throw new Error(`nvs_encryption key ${keyPath} does not exist. Call createRandomNvsEncryptionKeyLazily first`);
+  }
+  await espsecure(["encrypt_flash_data", "--aes_xts", "--keyfile", c.p.boardSpecificPath(P.FLASH_KEY_SUBDIR, P.FLASH_KEY_FILENAME), "--address", `${nvsKeysPartitionInfo.Offset}`, "--output", encKeyPath, keyPath], () => false);
+  return { encrypted: true, file: encKeyPath, offset: nvsKeysPartitionInfo.Offset!.toString() };
+}
+
+export async function nvs_partition_gen(c: Context, encrypt: boolean, filterStdOut: (line: string) => boolean): Promise<Section> {
   const nvsPartitionInfo: IPartitionTableEntry = parsePartitionsCSVFromFile(path.join(c.c.idfProjectDirectory, "partitions.csv")).find((e) => e.Name == "nvs")!;
   const p=c.p;
   if (nvsPartitionInfo.Size % 4096 != 0) {
@@ -123,67 +273,121 @@ export function nvs_partition_gen(c: Context, encrypt: boolean, filterStdOut: (l
   }
 
   if (encrypt) {
-    const cmd = `python.exe ${NVS_PARTITION_GEN_TOOL} encrypt --inputkey " NO THIS IS NOT THE FLASH KEY, THIS IS A SEPARATE KEY SPECIFIC FOR NVS ENCRYPTION, see https://docs.espressif.com/projects/esp-idf/en/v5.4/esp32s3/api-reference/storage/nvs_encryption.html ${p.boardSpecificPath(P.FLASH_KEY_SUBDIR, P.FLASH_KEY_FILENAME)}" "${path.join(p.GENERATED_USERSETTINGS, P.NVS_CSV_FILENAME)}" "${path.join(p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME)}" ${nvsPartitionInfo.Size}`
-    exec_in_idf_terminal(cmd, c.c.idfProjectDirectory, filterStdOut)
+    //NOT the flash key, but the separate key for NVS encryption, see https://docs.espressif.com/projects/esp-idf/en/v5.4/esp32s3/api-reference/storage/nvs_encryption.html
+    const nvsKeyPath = p.boardSpecificPath(P.NVS_KEY_SUBDIR, P.NVS_KEYS_FILENAME);
+    if (!fs.existsSync(nvsKeyPath)) {
+      throw new Error(`nvs_encryption key ${nvsKeyPath} does not exist. Call createRandomNvsEncryptionKeyLazily first`);
+    }
+    await idf_python(NVS_PARTITION_GEN_TOOL, ["encrypt", "--inputkey", nvsKeyPath, path.join(p.GENERATED_USERSETTINGS, P.NVS_CSV_FILENAME), path.join(p.GENERATED_USERSETTINGS, P.NVS_PARTITION_ENC_BIN_FILENAME), `${nvsPartitionInfo.Size}`], c.c.idfProjectDirectory, filterStdOut);
     return { encrypted: true, file: path.join(p.GENERATED_USERSETTINGS, P.NVS_PARTITION_ENC_BIN_FILENAME), offset: nvsPartitionInfo.Offset!.toString() };
   } else {
-    const cmd = `python.exe ${NVS_PARTITION_GEN_TOOL} generate  "${path.join(p.GENERATED_USERSETTINGS, P.NVS_CSV_FILENAME)}" "${path.join(p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME)}" ${nvsPartitionInfo.Size}`
-    exec_in_idf_terminal(cmd, c.c.idfProjectDirectory, filterStdOut)
+    await idf_python(NVS_PARTITION_GEN_TOOL, ["generate", path.join(p.GENERATED_USERSETTINGS, P.NVS_CSV_FILENAME), path.join(p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME), `${nvsPartitionInfo.Size}`], c.c.idfProjectDirectory, filterStdOut);
     return { encrypted: false, file: path.join(p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME), offset: nvsPartitionInfo.Offset!.toString() };
   }
 }
 
-export async function flashEncryptedFirmware(c: Context, write_nvs: boolean, write_storage: boolean, nvs_is_encrypted: boolean) {
+function findStoragePartition(c: Context) {
+  return findPartition(c, (e) => e.Type == "data" && (e.SubType == "littlefs" || e.Name == "storage"), "storage");
+}
+
+//Creates the LittleFS image of the storage partition with the web files, the german sounds and the board specific files (e.g. certificates).
+//The size is taken from partitions.csv, the image is written to P_BUILD
+export function littlefs_partition_gen(c: Context, pathsWithDynamicFiles: Array<string> = [], namesToSearchFor: Array<string> = []): Section {
+  const storagePartitionInfo = findStoragePartition(c);
+  const p = c.p;
+  fs.rmSync(p.GENERATED_STORAGE, { recursive: true, force: true });
+  fs.mkdirSync(p.GENERATED_STORAGE, { recursive: true });
+  if (fs.existsSync(p.GENERATED_WEB)) {
+    fs.cpSync(p.GENERATED_WEB, path.join(p.GENERATED_STORAGE, P.STORAGE_WEB_SUBDIR), { recursive: true });
+  }
+  if (fs.existsSync(p.P_SOUNDS_DE)) {
+    fs.cpSync(p.P_SOUNDS_DE, path.join(p.GENERATED_STORAGE, P.SOUNDS_DE_SUBDIR), { recursive: true });
+  }
+  CopyBoardSpecificFiles(p.GENERATED_STORAGE, pathsWithDynamicFiles, namesToSearchFor);
+  const files = littlefsFilesFromDirectory(p.GENERATED_STORAGE);
+  const image = createLittlefsImage(files, storagePartitionInfo.Size);
+  const file = path.join(p.P_BUILD, P.STORAGE_PARTITION_BIN_FILENAME);
+  fs.mkdirSync(p.P_BUILD, { recursive: true });
+  fs.writeFileSync(file, image);
+  console.info(`LittleFS image ${file} with ${files.length} entries created`);
+  return { encrypted: false, file, offset: storagePartitionInfo.Offset!.toString() };
+}
+
+//the image of littlefs_partition_gen, if it has been created. Otherwise the storage image, that has been built by ESP-IDF (see flasher_args.json)
+function storageSection(c: Context): Section {
+  const file = path.join(c.p.P_BUILD, P.STORAGE_PARTITION_BIN_FILENAME);
+  if (fs.existsSync(file)) {
+    return { encrypted: false, file, offset: findStoragePartition(c).Offset!.toString() };
+  }
+  if (!c.f?.storage) {
+    throw new Error(`storage partition image does not exist. Call littlefs_partition_gen first or let ESP-IDF build the storage image`)
+  }
+  return { ...c.f.storage, file: path.join(c.p.P_BUILD, c.f.storage.file) };
+}
+
+function logFlashProgress() {
+  let lastName = "";
+  let lastPercent = -1;
+  return (p: IFlashProgress) => {
+    const percent = Math.floor(100 * p.writtenBytes / p.totalBytes);
+    if (p.name == lastName && percent - lastPercent < 10 && percent < 100) return;
+    lastName = p.name;
+    lastPercent = percent;
+    console.log(`Writing ${p.name} at 0x${p.offset.toString(16)} (${percent}% of ${p.totalBytes} byte)`);
+  };
+}
+
+async function writeSections(comPort: string, sections: Array<Section>, onProgress: (p: IFlashProgress) => void) {
+  await WriteFlash(comPort, sections.map(s => ({ offset: parseInt(s.offset), data: fs.readFileSync(s.file), name: path.basename(s.file) })), { baudRate: FLASH_BAUDRATE, onProgress });
+}
+
+export async function flashEncryptedFirmware(c: Context, write_nvs: boolean, write_storage: boolean, nvs_is_encrypted: boolean, onProgress: (p: IFlashProgress) => void = logFlashProgress()) {
   if(c.b.flash_encryption_key_burned_and_activated==false){
     throw new Error(`Cannot flash encrypted firmware, as flash encryption is not activated for board ${c.b.board_name} ${c.b.board_version} with mac 0x${mac_12char(c.b.mac)}. Please use the non-encrypted firmware build.`);
   }
-  const pi = (await FindProbablePorts())[0];
+  const port = (await connectedBoardOfContext(c, false)).comPort.path;
   const sections: Array<Section> = [c.f!.bootloader, c.f!.app, c.f!["partition-table"], c.f!.otadata]
 
   sections.forEach(e => e.file = path.join(c.p.P_BUILD, e.file.replace(".bin", "-enc.bin")))//change filename to encrypted
   if (write_storage) {
-    c.f!.storage.file = path.join(c.p.P_BUILD, c.f!.storage.file)
-    sections.push(c.f!.storage); //c.f!.storage is not encrypted!
+    sections.push(storageSection(c)); //the storage partition is not encrypted!
   }
 
-  if (fs.existsSync(path.join(c.p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME))) {
-    const nvsPartitionInfo: IPartitionTableEntry = parsePartitionsCSVFromFile(path.join(c.c.idfProjectDirectory, "partitions.csv")).find((e) => e.Name == "nvs")!;
-    if (!nvsPartitionInfo.Offset) throw new Error(`nvsPartitionInfo.Offset must be defined`)
-    //FOR FUTURE: add nvs-partition only if it exists, filename needs not to be changed, as it is created directly encrypted with correct filename
-    //NOW: nvs-Partition is not encrypted
-    if (write_nvs) {
-      if (nvs_is_encrypted) {
-        sections.push({ encrypted: true, file: path.join(c.p.GENERATED_USERSETTINGS, P.NVS_PARTITION_ENC_BIN_FILENAME), offset: nvsPartitionInfo.Offset!.toString() })
-      } else {
-        sections.push({ encrypted: false, file: path.join(c.p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME), offset: nvsPartitionInfo.Offset!.toString() })
-      }
+  if (write_nvs) {
+    const nvsPartitionInfo = findPartition(c, (e) => e.Name == "nvs", "nvs");
+    if (nvs_is_encrypted) {
+      //the nvs image is already encrypted with the nvs key by nvs_partition_gen; only the nvs_keys partition needs the flash key
+      const nvsImage = path.join(c.p.GENERATED_USERSETTINGS, P.NVS_PARTITION_ENC_BIN_FILENAME);
+      if (!fs.existsSync(nvsImage)) throw new Error(`encrypted nvs partition image does not exist. Call nvs_partition_gen with encrypt=true first`)
+      sections.push(await encryptNvsKeysPartition(c));
+      sections.push({ encrypted: true, file: nvsImage, offset: nvsPartitionInfo.Offset!.toString() })
+    } else {
+      const nvsImage = path.join(c.p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME);
+      if (!fs.existsSync(nvsImage)) throw new Error(`nvs partition image does not exist`)
+      sections.push({ encrypted: false, file: nvsImage, offset: nvsPartitionInfo.Offset!.toString() })
     }
   }
-  var cmd = `--port ${pi.path} write_flash --flash_size keep`
-  sections.forEach(s => {cmd += ` ${s.offset} ${s.file}`;})
-  esptool(cmd, (line) => line.startsWith("Wrote") || line.startsWith("Hash"))
+  await writeSections(port, sections, onProgress);
   console.log('Flash (encrypted) finished');
 }
 
-export async function flashFirmware(c: Context, write_nvs: boolean, write_storage: boolean) {
+export async function flashFirmware(c: Context, write_nvs: boolean, write_storage: boolean, onProgress: (p: IFlashProgress) => void = logFlashProgress()) {
   if(c.b.flash_encryption_key_burned_and_activated){
     throw new Error(`Cannot flash non-encrypted firmware, as flash encryption is already activated for board ${c.b.board_name} ${c.b.board_version} with mac 0x${mac_12char(c.b.mac)}. Please use the encrypted firmware build.`);
   }
-  const pi = (await FindProbablePorts())[0];
+  const port = (await connectedBoardOfContext(c, false)).comPort.path;
   const sections: Array<Section> = [c.f!.bootloader, c.f!.app, c.f!["partition-table"], c.f!.otadata]
+  sections.forEach(e => e.file = path.join(c.p.P_BUILD, e.file))//add path to filename
   if (write_storage) {
-    sections.push(c.f!.storage);
+    sections.push(storageSection(c));
   }
-  sections.forEach(e => e.file = path.join(c.p.P_BUILD, e.file))//add path to filename
   if (write_nvs) {
     const nvsPartitionInfo: IPartitionTableEntry = parsePartitionsCSVFromFile(path.join(c.c.idfProjectDirectory, "partitions.csv")).find((e) => e.Name == "nvs")!;
     if (!nvsPartitionInfo.Offset) throw new Error(`nvsPartitionInfo.Offset must be defined`)
     if (!fs.existsSync(path.join(c.p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME))) throw new Error(`nvs partition image does not exist`)
     sections.push({ encrypted: false, file: path.join(c.p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME), offset: nvsPartitionInfo.Offset!.toString() })
   }
-  var cmd = `--port ${pi.path} write_flash --flash_size keep`;
-  sections.forEach(s => {cmd += ` ${s.offset} ${s.file}`;})
-  esptool(cmd, (line) => line.startsWith("Wrote") || line.startsWith("Hash"))
+  await writeSections(port, sections, onProgress);
   console.log('Flash (not encrypted) finished');
 }
 
@@ -206,38 +410,44 @@ export function GetFlashArgs(espIdfProjectDirectory: string): IFlasherConfigurat
   return JSON.parse(fs.readFileSync(p).toString()) as IFlasherConfiguration;
 }
 
-export function espefuse(params: string, filterStdOut: (line: string) => boolean) {
-  tool("espefuse.py", params, filterStdOut)
+export function espefuse(params: Array<string>, filterStdOut: (line: string) => boolean) {
+  return tool("espefuse.py", params, filterStdOut)
 }
 
-export function espsecure(params: string, filterStdOut: (line: string) => boolean) {
-  tool("espsecure.py", params, filterStdOut)
+export function espsecure(params: Array<string>, filterStdOut: (line: string) => boolean) {
+  return tool("espsecure.py", params, filterStdOut)
 }
 
-export function esptool(params: string, filterStdOut: (line: string) => boolean, workingDirectory: string = "./") {
-  tool("esptool.py", params, filterStdOut, workingDirectory)
+export function esptool(params: Array<string>, filterStdOut: (line: string) => boolean, workingDirectory: string = "./") {
+  return tool("esptool.py", params, filterStdOut, workingDirectory)
 }
 
 
-export function tool(tool: string, params: string, filterStdOut: (line: string) => boolean = (l) => true, workingDirectory: string = "./") {
-  const cmd = `python.exe ${path.join(IDF_PATH, "components", "esptool_py", "esptool", tool)} ${params} `
-  exec_in_idf_terminal(cmd, workingDirectory, filterStdOut)
+export async function tool(tool: string, params: Array<string>, filterStdOut: (line: string) => boolean = (l) => true, workingDirectory: string = "./", signal?: AbortSignal) {
+  const e = await GetIdfEnvironment();
+  const script = path.join(e.idfPath, "components", "esptool_py", "esptool", tool);
+  if (fs.existsSync(script)) {
+    return exec_in_idf_terminal(e.python, [script, ...params], workingDirectory, filterStdOut, signal);
+  }
+  //newer versions of ESP-IDF install esptool as python package only
+  return exec_in_idf_terminal(e.python, ["-m", tool.replace(".py", ""), ...params], workingDirectory, filterStdOut, signal);
 }
 
+//replaced by littlefs_partition_gen
 export function spiffsgen_deprecated_use_littlefs_instead(image_size: number, base_dir: string, output_file: string, filterStdOut: (line: string) => boolean = (l) => true, workingDirectory: string = "./") {
-  const cmd = `python.exe spiffsgen.py ${image_size} ${base_dir} ${output_file} `
-  exec_in_idf_terminal(cmd, workingDirectory, filterStdOut)
+  return idf_python(path.join("components", "spiffs", "spiffsgen.py"), [`${image_size}`, base_dir, output_file], workingDirectory, filterStdOut);
+}
+
+//script is relative to IDF_PATH; it is executed with the python of the ESP-IDF environment
+export async function idf_python(script: string, args: Array<string>, workingDirectory: string, filterStdOut: (line: string) => boolean, signal?: AbortSignal) {
+  const e = await GetIdfEnvironment();
+  return exec_in_idf_terminal(e.python, [path.join(e.idfPath, script), ...args], workingDirectory, filterStdOut, signal);
 }
 
-export function exec_in_idf_terminal(command: string, idfProjectDirectory: string, filterStdOut: (line: string) => boolean) {
-  const cmd = `${path.join(IDF_PATH, "export.bat")} && ${command}`
-  console.info(`Executing ${cmd}`)
-  const stdout = execSync(cmd, {
-    cwd: idfProjectDirectory,
-    env: process.env
-  });
-  if (stdout)
-    stdout.toString().split(os.EOL).filter((v) => filterStdOut(v)).forEach(v => console.log(v.toString()))
+//on all platforms with the environment of export.bat / export.sh; throws an ExecError, if the command fails
+export async function exec_in_idf_terminal(command: string, args: Array<string>, workingDirectory: string, filterStdOut: (line: string) => boolean, signal?: AbortSignal) {
+  const e = await GetIdfEnvironment();
+  return exec(command, args, { cwd: workingDirectory, env: e.env, filterStdOut, signal });
 }
 
 export interface ConfigEnvironment {
@@ -327,7 +537,7 @@ export interface IFlasherConfiguration {
   extra_esptool_args: ExtraEsptoolArgs;
 }
 
-interface EFuseEntry {
+export interface EFuseEntry {
   bit_len: number;
   block: number;
   category: string;
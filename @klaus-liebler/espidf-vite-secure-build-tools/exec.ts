@@ -0,0 +1,139 @@
+import { spawn } from "node:child_process";
+import path from "node:path";
+import fs from "node:fs";
+
+//Platform independent execution of the ESP-IDF tools and other command line tools with streamed output, exit errors and cancellation.
+//Instead of calling export.bat / export.sh before every command, the environment of the export script is determined once and reused
+
+export interface IExecOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  filterStdOut?: (line: string) => boolean;//only matching lines of stdout are logged; stderr is always logged
+  signal?: AbortSignal;//aborting kills the process
+  shell?: boolean;//necessary for .bat and .cmd files (e.g. npm) on Windows
+}
+
+export interface IExecResult {
+  stdout: string;
+  stderr: string;
+}
+
+export class ExecError extends Error {
+  constructor(message: string, public readonly command: string, public readonly exitCode: number | null, public readonly signal: NodeJS.Signals | null, public readonly cancelled: boolean, public readonly stdout: string, public readonly stderr: string) {
+    super(message);
+    this.name = "ExecError";
+  }
+}
+
+export interface IIdfEnvironment {
+  idfPath: string;
+  python: string;//python of the virtual environment of ESP-IDF (IDF_PYTHON_ENV_PATH)
+  env: NodeJS.ProcessEnv;
+}
+
+function commandLine(file: string, args: Array<string>) {
+  return [file, ...args].map(a => a.includes(" ") && !a.startsWith("\"") ? `"${a}"` : a).join(" ");
+}
+
+function lineLogger(log: (line: string) => void) {
+  let rest = "";
+  let all = "";
+  return {
+    Push(chunk: string) {
+      all += chunk;
+      const lines = (rest + chunk).split(/\r?\n/);
+      rest = lines.pop()!;
+      lines.forEach(log);
+    },
+    Flush() {
+      if (rest) log(rest);
+      rest = "";
+      return all;
+    }
+  };
+}
+
+export function exec(file: string, args: Array<string>, options: IExecOptions = {}): Promise<IExecResult> {
+  const command = commandLine(file, args);
+  const filterStdOut = options.filterStdOut ?? ((l: string) => true);
+  console.info(`Executing ${command}${options.cwd ? ` in ${options.cwd}` : ""}`);
+  return new Promise((resolve, reject) => {
+    const stdout = lineLogger(l => { if (filterStdOut(l)) console.log(l); });
+    const stderr = lineLogger(l => console.warn(l));
+    let settled = false;
+    const finish = (e: ExecError | null, result: IExecResult) => {
+      if (settled) return;
+      settled = true;
+      e ? reject(e) : resolve(result);
+    };
+    const child = spawn(file, args, { cwd: options.cwd, env: options.env ?? process.env, shell: options.shell ?? false, signal: options.signal, windowsHide: true });
+    child.stdout.setEncoding("utf8").on("data", (d: string) => stdout.Push(d));
+    child.stderr.setEncoding("utf8").on("data", (d: string) => stderr.Push(d));
+    child.on("error", (e) => {
+      if (options.signal?.aborted) return;//close follows
+      finish(new ExecError(`${command} could not be started: ${e.message}`, command, null, null, false, "", ""), { stdout: "", stderr: "" });
+    });
+    child.on("close", (code, signal) => {
+      const out = { stdout: stdout.Flush(), stderr: stderr.Flush() };
+      if (code === 0) return finish(null, out);
+      const lastLines = out.stderr.trim().split(/\r?\n/).slice(-5).join("\n");
+      if (options.signal?.aborted) {
+        finish(new ExecError(`${command} was cancelled`, command, code, signal, true, out.stdout, out.stderr), out);
+      } else if (code === null) {
+        finish(new ExecError(`${command} was terminated by ${signal}`, command, code, signal, false, out.stdout, out.stderr), out);
+      } else {
+        finish(new ExecError(`${command} failed with exit code ${code}${lastLines ? `:\n${lastLines}` : ""}`, command, code, signal, false, out.stdout, out.stderr), out);
+      }
+    });
+  });
+}
+
+//Windows: "set" prints one variable per line; others: "env -0" separates the variables by \0, so that values may contain line breaks
+function parseEnvironment(output: string, separator: string | RegExp): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const line of output.split(separator)) {
+    const i = line.indexOf("=", 1);//variables like "=C:" are hidden variables of cmd.exe
+    if (i > 0) env[line.substring(0, i)] = line.substring(i + 1);
+  }
+  return env;
+}
+
+async function detectIdfEnvironment(): Promise<IIdfEnvironment> {
+  const idfPath = process.env.IDF_PATH;
+  if (!idfPath) {
+    throw new Error(`Environment variable IDF_PATH is not set. Install ESP-IDF and set IDF_PATH to its directory`);
+  }
+  const isWindows = process.platform == "win32";
+  let env: NodeJS.ProcessEnv = process.env;
+  if (!process.env.IDF_PYTHON_ENV_PATH) {
+    //not started from an ESP-IDF terminal (or CI step, that has sourced export.sh): the export script sets PATH and IDF_PYTHON_ENV_PATH via idf_tools.py
+    const script = path.join(idfPath, isWindows ? "export.bat" : "export.sh");
+    if (!fs.existsSync(script)) {
+      throw new Error(`${script} does not exist. Check IDF_PATH`);
+    }
+    const r = isWindows ?
+      await exec(`"${script}" >nul && set`, [], { shell: true, filterStdOut: () => false }) :
+      await exec("bash", ["-c", `. "${script}" >/dev/null && env -0`], { filterStdOut: () => false });
+    env = parseEnvironment(r.stdout, isWindows ? /\r?\n/ : "\0");
+    if (!env.IDF_PYTHON_ENV_PATH) {
+      throw new Error(`${script} did not set IDF_PYTHON_ENV_PATH. Run the ESP-IDF install script first`);
+    }
+  }
+  const python = path.join(env.IDF_PYTHON_ENV_PATH!, isWindows ? path.join("Scripts", "python.exe") : path.join("bin", "python"));
+  if (!fs.existsSync(python)) {
+    throw new Error(`Python of the ESP-IDF environment ${python} does not exist. Run the ESP-IDF install script first`);
+  }
+  console.info(`ESP-IDF ${env.ESP_IDF_VERSION ?? ""} in ${idfPath} with ${python}`);
+  return { idfPath, python, env };
+}
+
+let idfEnvironment: Promise<IIdfEnvironment> | null = null;
+
+//the export script is slow, so the environment is determined only once per process
+export function GetIdfEnvironment(): Promise<IIdfEnvironment> {
+  idfEnvironment ??= detectIdfEnvironment().catch(e => {
+    idfEnvironment = null;
+    throw e;
+  });
+  return idfEnvironment;
+}
@@ -30,7 +30,7 @@ export async function flatbuffers_generate_ts(sourceDirs: Array<string>, destDir
       sb.AppendLine(`export * as ${EscapeToVariableName2(parsed.name)} from "./${parsed.name}"`)
     }
   }
-  npm.CreateAndInstallNpmProjectLazily(
+  await npm.CreateAndInstallNpmProjectLazily(
     destDir,
     {
       "name": `@generated/flatbuffers_ts`,
@@ -23,7 +23,7 @@ export function createCMakeJsonConfigFile(c: Context, defines: Record<string, st
     writeFileCreateDirLazy(path.join(c.p.GENERATED_CMAKE, "config.json"), JSON.stringify(defines));
 }
 
-export function createTypeScriptRuntimeConfigProject(c:Context, defines: Record<string, string | Array<string> | number>){
+export async function createTypeScriptRuntimeConfigProject(c:Context, defines: Record<string, string | Array<string> | number>){
     var sb = new StringBuilderImpl();
    
     for (const [k, v] of Object.entries(defines)) {
@@ -31,7 +31,7 @@ export function createTypeScriptRuntimeConfigProject(c:Context, defines: Record<
     }
     writeFileCreateDirLazy(path.join(c.p.GENERATED_RUNTIMECONFIG_TS, "index.ts"),sb.Code);
   
-    npm.CreateAndInstallNpmProjectLazily(
+    await npm.CreateAndInstallNpmProjectLazily(
       c.p.GENERATED_RUNTIMECONFIG_TS,
       {
         name: `@generated/runtimeconfig_ts`,
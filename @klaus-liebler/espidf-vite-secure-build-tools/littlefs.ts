@@ -0,0 +1,414 @@
+import fs from "node:fs";
+import path from "node:path";
+
+//Writes and reads images of the LittleFS file system (disk version 2.0) without mklittlefs or littlefs_create_partition_image
+//see https://github.com/littlefs-project/littlefs/blob/master/SPEC.md
+
+export interface ILittlefsFile {
+  path: string;//absolute path in the file system, e.g. "/web/index.html"
+  data: Buffer | null;//null for directories
+}
+
+export interface ILittlefsOptions {
+  blockSize: number;
+  progSize: number;//commits are aligned to the program size, so that the device can append further commits
+  nameMax: number;//the device refuses to mount, if the superblock allows longer names than itself
+  inlineMax: number;//smaller files are stored in the metadata instead of own blocks; must not be larger than the cache size of the device
+}
+
+//corresponds to the defaults of the esp_littlefs component (CONFIG_LITTLEFS_BLOCK_SIZE, CONFIG_LITTLEFS_WRITE_SIZE, CONFIG_LITTLEFS_OBJ_NAME_LEN)
+export const DEFAULT_LITTLEFS_OPTIONS: ILittlefsOptions = { blockSize: 4096, progSize: 128, nameMax: 64, inlineMax: 128 };
+
+const DISK_VERSION = 0x00020000;
+const FILE_MAX = 2147483647;
+const ATTR_MAX = 1022;
+const MAGIC = "littlefs";
+const SUPERBLOCK_STRUCT_SIZE = 24;
+const POINTER_SIZE = 4;
+const TAG_SIZE = 4;
+const ID_NONE = 0x3FF;
+const SIZE_DELETED = 0x3FF;
+const MAX_IDS_PER_MDIR = 0xFE;//the library splits metadata pairs with more entries
+const BLOCK_NULL = 0xFFFFFFFF;
+
+enum TagType {
+  REG = 0x001,
+  DIR = 0x002,
+  SUPERBLOCK = 0x0FF,
+  DIRSTRUCT = 0x200,
+  INLINESTRUCT = 0x201,
+  CTZSTRUCT = 0x202,
+  CREATE = 0x401,
+  DELETE = 0x4FF,
+  CRC = 0x500,
+  SOFTTAIL = 0x600,
+  HARDTAIL = 0x601,
+}
+
+const CRC32_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    t[i] = c >>> 0;
+  }
+  return t;
+})();
+
+//same polynomial as zlib, but without the final inversion (lfs_crc)
+function lfsCrc(crc: number, data: Uint8Array) {
+  for (let i = 0; i < data.length; i++) crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return crc >>> 0;
+}
+
+function mkTag(type: number, id: number, size: number) {
+  return ((type << 20) | (id << 10) | size) >>> 0;
+}
+
+function ctz(n: number) {
+  return 31 - Math.clz32(n & -n);
+}
+
+//block n of a file starts with ctz(n)+1 pointers to the blocks n-2^i (CTZ skip-list), block 0 has none
+function pointersInBlock(n: number) {
+  return n == 0 ? 0 : ctz(n) + 1;
+}
+
+function alignUp(n: number, alignment: number) {
+  return Math.ceil(n / alignment) * alignment;
+}
+
+function pair(a: number, b: number) {
+  const d = Buffer.alloc(8);
+  d.writeUint32LE(a, 0);
+  d.writeUint32LE(b, 4);
+  return d;
+}
+
+//one commit per metadata block: revision count, xored big endian tags with their data and a final crc tag
+class CommitWriter {
+  private readonly block: Buffer;
+  private off = 4;
+  private ptag = 0xFFFFFFFF;
+  private crc: number;
+
+  constructor(private readonly o: ILittlefsOptions, revision: number) {
+    this.block = Buffer.alloc(o.blockSize, 0xFF);
+    this.block.writeUint32LE(revision, 0);
+    this.crc = lfsCrc(0xFFFFFFFF, this.block.subarray(0, 4));
+  }
+
+  public Tag(type: TagType, id: number, data: Buffer) {
+    const tag = mkTag(type, id, data.length);
+    this.block.writeUint32BE((tag ^ this.ptag) >>> 0, this.off);
+    data.copy(this.block, this.off + TAG_SIZE);
+    this.crc = lfsCrc(this.crc, this.block.subarray(this.off, this.off + TAG_SIZE + data.length));
+    this.ptag = tag;
+    this.off += TAG_SIZE + data.length;
+  }
+
+  //the crc tag pads the commit to the program size; the padding is not part of the crc
+  public Finish() {
+    const end = alignUp(this.off + TAG_SIZE + 4, this.o.progSize);
+    if (end > this.o.blockSize) throw new Error(`LittleFS metadata does not fit into one block`);
+    const tag = mkTag(TagType.CRC, ID_NONE, end - this.off - TAG_SIZE);
+    this.block.writeUint32BE((tag ^ this.ptag) >>> 0, this.off);
+    this.crc = lfsCrc(this.crc, this.block.subarray(this.off, this.off + TAG_SIZE));
+    this.block.writeUint32LE(this.crc, this.off + TAG_SIZE);
+    return this.block;
+  }
+}
+
+class Node {
+  public readonly children = new Map<string, Node>();
+  public readonly mdirs: Array<{ nodes: Array<Node>, pair: Array<number> }> = [];//directories only; more than one, if the entries do not fit into one metadata pair
+  public blocks: Array<number> = [];//files stored outside of the metadata only
+
+  constructor(public readonly name: string, public readonly data: Buffer | null) { }
+
+  public get SortedChildren() {
+    //the library keeps the ids in the order of the names
+    return [...this.children.values()].sort((a, b) => Buffer.compare(Buffer.from(a.name), Buffer.from(b.name)));
+  }
+
+  public IsInline(o: ILittlefsOptions) {
+    return this.data != null && this.data.length <= o.inlineMax;
+  }
+
+  public MetadataSize(o: ILittlefsOptions) {
+    const structSize = this.data != null && this.IsInline(o) ? this.data.length : 8;
+    return TAG_SIZE + Buffer.byteLength(this.name) + TAG_SIZE + structSize;
+  }
+}
+
+function createTree(files: Array<ILittlefsFile>, o: ILittlefsOptions) {
+  const root = new Node("", null);
+  for (const f of files) {
+    const names = f.path.split("/").filter(n => n);
+    if (names.length == 0) {
+      if (f.data != null) throw new Error(`Invalid path ${f.path}`);
+      continue;
+    }
+    let dir = root;
+    names.forEach((name, i) => {
+      if (name == "." || name == "..") throw new Error(`Invalid path ${f.path}`);
+      if (Buffer.byteLength(name) > o.nameMax) throw new Error(`Name ${name} in ${f.path} is longer than ${o.nameMax} bytes`);
+      const isLast = i == names.length - 1;
+      const existing = dir.children.get(name);
+      if (existing) {
+        if (existing.data != null || (isLast && f.data != null)) throw new Error(`${f.path} is defined twice`);
+        dir = existing;
+        return;
+      }
+      const n = new Node(name, isLast ? f.data : null);
+      dir.children.set(name, n);
+      dir = n;
+    });
+  }
+  return root;
+}
+
+//pre-order, so that the parent comes before its subdirectories in the list of metadata pairs
+function directoriesOf(n: Node): Array<Node> {
+  return [n, ...n.SortedChildren.filter(c => c.data == null).flatMap(c => directoriesOf(c))];
+}
+
+export function createLittlefsImage(files: Array<ILittlefsFile>, partitionSize: number, options: Partial<ILittlefsOptions> = {}): Buffer {
+  const o: ILittlefsOptions = { ...DEFAULT_LITTLEFS_OPTIONS, ...options };
+  if (o.blockSize % o.progSize != 0 || o.progSize > 512) {
+    throw new Error(`LittleFS program size ${o.progSize} must divide the block size ${o.blockSize} and must not be larger than 512`);
+  }
+  if (o.inlineMax > o.blockSize / 8) {
+    throw new Error(`LittleFS inlineMax must not be larger than ${o.blockSize / 8}`);
+  }
+  if (partitionSize % o.blockSize != 0 || partitionSize < 2 * o.blockSize) {
+    throw new Error(`LittleFS partition size must be a multiple of ${o.blockSize} and at least ${2 * o.blockSize} bytes`);
+  }
+  const blockCount = partitionSize / o.blockSize;
+  const root = createTree(files, o);
+  const dirs = directoriesOf(root);
+
+  //split the directories into metadata pairs, that are at most half full like after a compaction of the library
+  const superblockSize = TAG_SIZE + MAGIC.length + TAG_SIZE + SUPERBLOCK_STRUCT_SIZE;
+  const mdirOverhead = 4 + TAG_SIZE + 8 + TAG_SIZE + 4;//revision, tail, crc
+  for (const d of dirs) {
+    let current = { nodes: [] as Array<Node>, pair: [] as Array<number> };
+    let size = mdirOverhead + (d == root ? superblockSize : 0);
+    d.mdirs.push(current);
+    for (const c of d.SortedChildren) {
+      const s = c.MetadataSize(o);
+      if (current.nodes.length > 0 && (size + s > o.blockSize / 2 || current.nodes.length + (d == root && d.mdirs.length == 1 ? 1 : 0) >= MAX_IDS_PER_MDIR)) {
+        current = { nodes: [], pair: [] };
+        size = mdirOverhead;
+        d.mdirs.push(current);
+      }
+      current.nodes.push(c);
+      size += s;
+    }
+  }
+
+  //the superblock is the first metadata pair {0, 1}, all other blocks are allocated in ascending order
+  let nextBlock = 0;
+  const allocate = () => {
+    if (nextBlock >= blockCount) throw new Error(`Files do not fit into the LittleFS partition of ${partitionSize} bytes (${blockCount} blocks)`);
+    return nextBlock++;
+  };
+  const mdirs = dirs.flatMap(d => d.mdirs);
+  mdirs.forEach(m => m.pair = [allocate(), allocate()]);
+
+  const image = Buffer.alloc(partitionSize, 0xFF);
+  const writeFile = (n: Node) => {
+    const data = n.data!;
+    for (let i = 0, offset = 0; offset < data.length; i++) {
+      const b = allocate();
+      const pointers = pointersInBlock(i);
+      for (let p = 0; p < pointers; p++) {
+        image.writeUint32LE(n.blocks[i - (1 << p)], b * o.blockSize + p * POINTER_SIZE);
+      }
+      const chunk = data.subarray(offset, offset + o.blockSize - pointers * POINTER_SIZE);
+      chunk.copy(image, b * o.blockSize + pointers * POINTER_SIZE);
+      offset += chunk.length;
+      n.blocks.push(b);
+    }
+  };
+  dirs.forEach(d => d.SortedChildren.filter(c => c.data != null && !c.IsInline(o)).forEach(writeFile));
+
+  mdirs.forEach((m, i) => {
+    const w = new CommitWriter(o, 1);
+    let id = 0;
+    if (m == root.mdirs[0]) {
+      const superblock = Buffer.alloc(SUPERBLOCK_STRUCT_SIZE);
+      [DISK_VERSION, o.blockSize, blockCount, o.nameMax, FILE_MAX, ATTR_MAX].forEach((v, j) => superblock.writeUint32LE(v, j * 4));
+      w.Tag(TagType.SUPERBLOCK, id, Buffer.from(MAGIC));
+      w.Tag(TagType.INLINESTRUCT, id, superblock);
+      id++;
+    }
+    for (const n of m.nodes) {
+      if (n.data == null) {
+        w.Tag(TagType.DIR, id, Buffer.from(n.name));
+        w.Tag(TagType.DIRSTRUCT, id, pair(n.mdirs[0].pair[0], n.mdirs[0].pair[1]));
+      } else {
+        w.Tag(TagType.REG, id, Buffer.from(n.name));
+        if (n.IsInline(o)) {
+          w.Tag(TagType.INLINESTRUCT, id, n.data);
+        } else {
+          w.Tag(TagType.CTZSTRUCT, id, pair(n.blocks[n.blocks.length - 1], n.data.length));
+        }
+      }
+      id++;
+    }
+    //all metadata pairs form one list; a hard tail continues the same directory
+    const next = mdirs[i + 1];
+    if (next) {
+      const sameDirectory = dirs.some(d => d.mdirs.includes(m) && d.mdirs.includes(next));
+      w.Tag(sameDirectory ? TagType.HARDTAIL : TagType.SOFTTAIL, ID_NONE, pair(next.pair[0], next.pair[1]));
+    }
+    w.Finish().copy(image, m.pair[0] * o.blockSize);//the second block of the pair stays erased
+  });
+  return image;
+}
+
+interface IMdirEntry {
+  type?: number;
+  name?: Buffer;
+  struct?: { type: number, data: Buffer };
+}
+
+interface IMdir {
+  revision: number;
+  entries: Array<IMdirEntry>;
+  tail: { hard: boolean, pair: Array<number> } | null;
+}
+
+//returns the tags of all valid commits of a metadata block or null, if there is no valid commit
+function readCommits(block: Buffer) {
+  const tags: Array<{ type: number, id: number, data: Buffer }> = [];
+  let pending: typeof tags = [];
+  let crc = lfsCrc(0xFFFFFFFF, block.subarray(0, 4));
+  let ptag = 0xFFFFFFFF;
+  let commits = 0;
+  for (let off = 4; off + TAG_SIZE <= block.length;) {
+    const tag = (block.readUint32BE(off) ^ ptag) >>> 0;
+    if (tag & 0x80000000) break;//erased or invalid
+    const size = tag & 0x3FF;
+    const dsize = TAG_SIZE + (size == SIZE_DELETED ? 0 : size);
+    if (off + dsize > block.length) break;
+    const type = (tag >>> 20) & 0x7FF;
+    if ((type & 0x780) == TagType.CRC) {
+      crc = lfsCrc(crc, block.subarray(off, off + TAG_SIZE));
+      if (crc != block.readUint32LE(off + TAG_SIZE)) break;
+      tags.push(...pending);
+      pending = [];
+      commits++;
+      ptag = (tag ^ ((type & 1) << 31)) >>> 0;
+      crc = 0xFFFFFFFF;
+    } else {
+      crc = lfsCrc(crc, block.subarray(off, off + dsize));
+      pending.push({ type, id: (tag >>> 10) & 0x3FF, data: block.subarray(off + TAG_SIZE, off + dsize) });
+      ptag = tag;
+    }
+    off += dsize;
+  }
+  return commits > 0 ? tags : null;
+}
+
+function readMdir(image: Buffer, blockSize: number, mdirPair: Array<number>): IMdir {
+  let best: IMdir | null = null;
+  for (const b of mdirPair) {
+    if ((b + 1) * blockSize > image.length) throw new Error(`LittleFS metadata block ${b} is outside of the image`);
+    const block = image.subarray(b * blockSize, (b + 1) * blockSize);
+    const revision = block.readUint32LE(0);
+    if (best && ((revision - best.revision) | 0) <= 0) continue;
+    const tags = readCommits(block);
+    if (!tags) continue;
+    const m: IMdir = { revision, entries: [], tail: null };
+    for (const t of tags) {
+      const entry = () => m.entries[t.id] ??= {};
+      if (t.type == TagType.CREATE) {
+        m.entries.splice(t.id, 0, {});
+      } else if (t.type == TagType.DELETE) {
+        m.entries.splice(t.id, 1);
+      } else if ((t.type & 0x700) == 0x000) {
+        entry().type = t.type;
+        entry().name = t.data;
+      } else if ((t.type & 0x700) == 0x200) {
+        entry().struct = { type: t.type, data: t.data };
+      } else if ((t.type & 0x700) == 0x600) {
+        m.tail = { hard: t.type == TagType.HARDTAIL, pair: [t.data.readUint32LE(0), t.data.readUint32LE(4)] };
+      }
+    }
+    best = m;
+  }
+  if (!best) throw new Error(`LittleFS metadata pair {${mdirPair.join(", ")}} has no valid commit`);
+  return best;
+}
+
+function readCtz(image: Buffer, blockSize: number, head: number, size: number) {
+  const capacity = (i: number) => blockSize - pointersInBlock(i) * POINTER_SIZE;
+  let last = 0;
+  for (let remaining = size; remaining > capacity(last); last++) remaining -= capacity(last);
+  const blocks: Array<number> = [];
+  blocks[last] = head;
+  for (let i = last; i > 0; i--) {
+    if ((blocks[i] + 1) * blockSize > image.length) throw new Error(`LittleFS block ${blocks[i]} is outside of the image`);
+    blocks[i - 1] = image.readUint32LE(blocks[i] * blockSize);//pointer to the previous block
+  }
+  let remaining = size;
+  return Buffer.concat(blocks.map((b, i) => {
+    const start = b * blockSize + pointersInBlock(i) * POINTER_SIZE;
+    const length = Math.min(capacity(i), remaining);
+    remaining -= length;
+    return image.subarray(start, start + length);
+  }));
+}
+
+//Reads all files and directories of an image, e.g. for verifying the result of createLittlefsImage
+export function readLittlefsImage(image: Buffer, blockSize: number = DEFAULT_LITTLEFS_OPTIONS.blockSize): Array<ILittlefsFile> {
+  const root = readMdir(image, blockSize, [0, 1]);
+  const sb = root.entries[0];
+  if (sb?.type != TagType.SUPERBLOCK || sb.name?.toString() != MAGIC || sb.struct?.type != TagType.INLINESTRUCT) {
+    throw new Error(`Image does not contain a LittleFS superblock`);
+  }
+  const version = sb.struct.data.readUint32LE(0);
+  if (version >>> 16 != DISK_VERSION >>> 16) throw new Error(`LittleFS disk version 0x${version.toString(16)} is not supported`);
+  if (sb.struct.data.readUint32LE(4) != blockSize) throw new Error(`LittleFS block size of the image is ${sb.struct.data.readUint32LE(4)}, not ${blockSize}`);
+
+  const ret: Array<ILittlefsFile> = [];
+  const visited = new Set<number>();
+  const readDir = (mdirPair: Array<number>, dirPath: string) => {
+    for (let p: Array<number> | null = mdirPair; p;) {
+      if (visited.has(p[0])) throw new Error(`LittleFS metadata pair {${p.join(", ")}} is referenced twice`);
+      visited.add(p[0]);
+      const m: IMdir = readMdir(image, blockSize, p);
+      for (const e of m.entries) {
+        if (!e?.name || e.type == TagType.SUPERBLOCK) continue;
+        const entryPath = dirPath + e.name.toString();
+        if (!e.struct) throw new Error(`LittleFS entry ${entryPath} has no struct`);
+        const d = e.struct.data;
+        if (e.type == TagType.DIR) {
+          ret.push({ path: entryPath, data: null });
+          readDir([d.readUint32LE(0), d.readUint32LE(4)], entryPath + "/");
+        } else if (e.struct.type == TagType.INLINESTRUCT) {
+          ret.push({ path: entryPath, data: Buffer.from(d) });
+        } else if (e.struct.type == TagType.CTZSTRUCT) {
+          ret.push({ path: entryPath, data: readCtz(image, blockSize, d.readUint32LE(0), d.readUint32LE(4)) });
+        } else {
+          throw new Error(`LittleFS entry ${entryPath} has unknown struct type 0x${e.struct.type.toString(16)}`);
+        }
+      }
+      p = m.tail?.hard && m.tail.pair[0] != BLOCK_NULL ? m.tail.pair : null;
+    }
+  };
+  readDir([0, 1], "/");
+  return ret;
+}
+
+//Collects the files below directory, e.g. as input for createLittlefsImage
+export function littlefsFilesFromDirectory(directory: string, prefix: string = "/"): Array<ILittlefsFile> {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(e => {
+    const p = path.join(directory, e.name);
+    const fsPath = prefix + e.name;
+    if (e.isDirectory()) return [{ path: fsPath, data: null }, ...littlefsFilesFromDirectory(p, fsPath + "/")];
+    return [{ path: fsPath, data: fs.readFileSync(p) }];
+  });
+}
@@ -2,10 +2,9 @@ import {IPackageJson} from "./package_json"
 import {writeFileCreateDirLazy } from "./utils";
 import path from "node:path";
 import * as fs from "node:fs";
-import * as os from "node:os"
-import { execSync } from 'node:child_process';
+import { exec } from "./exec";
 
-export function CreateAndInstallNpmProjectLazily(projectRoot:string, pj:IPackageJson){
+export async function CreateAndInstallNpmProjectLazily(projectRoot:string, pj:IPackageJson){
   const pjContent=JSON.stringify(pj);
   const pjPath=path.join(projectRoot, "package.json")
   var needToCallNpmInstall=false;
@@ -14,21 +13,13 @@ export function CreateAndInstallNpmProjectLazily(projectRoot:string, pj:IPackage
     console.log(`Written new package.json file to ${projectRoot} because package.json ${fs.existsSync(pjPath)?"does not exist":"changed"} -->call npm i`);
     needToCallNpmInstall=true;
   }
-  const nmp = path.join(projectRoot, "node_modules\\")
+  const nmp = path.join(projectRoot, "node_modules")
   if(pj.dependencies && !fs.existsSync(nmp)){
       console.log(`${nmp} does not exist -->call npm i`);
       needToCallNpmInstall=true;
   }
   if(needToCallNpmInstall){
-    
-    const filterStdOut = (l: string) => true;
-    const cmd = `npm install`
-    console.info(`Executing ${cmd} in path ${projectRoot}`)
-    const stdout = execSync(cmd, {
-      cwd: projectRoot,
-      env: process.env
-    });
-    if (stdout)
-      stdout.toString().split(os.EOL).filter((v) => filterStdOut(v)).forEach(v => console.log(v.toString()))
+    //npm is a .cmd file on Windows, that can only be started by the shell
+    await exec("npm", ["install"], { cwd: projectRoot, shell: process.platform == "win32" });
   }
 }
\ No newline at end of file
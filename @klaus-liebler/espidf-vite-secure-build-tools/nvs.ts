@@ -0,0 +1,297 @@
+import { KeyOf, SettingsSchema } from "@klaus-liebler/commons";
+import { INvsValue, NvsEncoding, NvsValue } from "../usersettings_codegeneration";
+
+//Writes and reads the binary format of the esp-idf NVS library (version 2, multi page blobs) without nvs_partition_gen.py
+//see https://docs.espressif.com/projects/esp-idf/en/v5.4/esp32s3/api-reference/storage/nvs_flash.html#internals
+
+export interface INvsEntry extends INvsValue {
+  key: string;
+}
+
+export interface INvsNamespace {
+  name: string;//group key
+  entries: Array<INvsEntry>;
+}
+
+const PAGE_SIZE = 4096;
+const PAGE_HEADER_SIZE = 32;
+const ENTRY_STATE_BITMAP_SIZE = 32;
+const ENTRY_SIZE = 32;
+const ENTRIES_PER_PAGE = 126;
+const FIRST_ENTRY_OFFSET = PAGE_HEADER_SIZE + ENTRY_STATE_BITMAP_SIZE;
+const MAX_KEY_LENGTH = 15;
+const MAX_STRING_SIZE = 4000;//including the terminating zero
+const MAX_BLOB_CHUNK_SIZE = (ENTRIES_PER_PAGE - 1) * ENTRY_SIZE;
+
+const PAGE_STATE_ACTIVE = 0xFFFFFFFE;
+const PAGE_STATE_FULL = 0xFFFFFFFC;
+const PAGE_STATE_EMPTY = 0xFFFFFFFF;
+const PAGE_VERSION_2 = 0xFE;
+
+const ENTRY_STATE_WRITTEN = 0b10;
+const CHUNK_INDEX_ANY = 0xFF;
+
+enum ItemType {
+  U8 = 0x01,
+  I8 = 0x11,
+  U16 = 0x02,
+  I16 = 0x12,
+  U32 = 0x04,
+  I32 = 0x14,
+  U64 = 0x08,
+  I64 = 0x18,
+  SZ = 0x21,
+  BLOB = 0x41,//version 1 only, readable for compatibility
+  BLOB_DATA = 0x42,
+  BLOB_IDX = 0x48,
+}
+
+const PRIMITIVES: Array<{ encoding: NvsEncoding, type: ItemType, size: number, signed: boolean }> = [
+  { encoding: "u8", type: ItemType.U8, size: 1, signed: false },
+  { encoding: "i8", type: ItemType.I8, size: 1, signed: true },
+  { encoding: "u16", type: ItemType.U16, size: 2, signed: false },
+  { encoding: "i16", type: ItemType.I16, size: 2, signed: true },
+  { encoding: "u32", type: ItemType.U32, size: 4, signed: false },
+  { encoding: "i32", type: ItemType.I32, size: 4, signed: true },
+  { encoding: "u64", type: ItemType.U64, size: 8, signed: false },
+  { encoding: "i64", type: ItemType.I64, size: 8, signed: true },
+];
+
+const CRC32_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    t[i] = c >>> 0;
+  }
+  return t;
+})();
+
+//same as python zlib.crc32(data, 0xFFFFFFFF), which is used by the NVS library
+function crc32(data: Uint8Array, init = 0xFFFFFFFF) {
+  let c = ~init >>> 0;
+  for (let i = 0; i < data.length; i++) c = CRC32_TABLE[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+function entryCrc(entry: Buffer) {
+  return crc32(Buffer.concat([entry.subarray(0, 4), entry.subarray(8, ENTRY_SIZE)]));
+}
+
+export function configGroupsToNvsNamespaces(schema: SettingsSchema): Array<INvsNamespace> {
+  return schema.map(g => ({ name: KeyOf(g), entries: g.settings.map(s => ({ key: KeyOf(s), ...NvsValue(s) })) }));
+}
+
+class PageWriter {
+  private pages: Array<Buffer> = [];
+  private page!: Buffer;
+  private nextEntry = ENTRIES_PER_PAGE;
+
+  constructor(private readonly maxPages: number) { }
+
+  public NewPage() {
+    if (this.page) this.page.writeUint32LE(PAGE_STATE_FULL, 0);
+    if (this.pages.length >= this.maxPages) {
+      throw new Error(`NVS data does not fit into ${this.maxPages} pages (one page of the partition is reserved for the garbage collection)`);
+    }
+    this.page = Buffer.alloc(PAGE_SIZE, 0xFF);
+    this.page.writeUint32LE(PAGE_STATE_ACTIVE, 0);
+    this.page.writeUint32LE(this.pages.length, 4);//sequence number
+    this.page.writeUint8(PAGE_VERSION_2, 8);
+    this.page.writeUint32LE(crc32(this.page.subarray(4, 28)), 28);
+    this.pages.push(this.page);
+    this.nextEntry = 0;
+  }
+
+  public get FreeEntriesInPage() {
+    return ENTRIES_PER_PAGE - this.nextEntry;
+  }
+
+  //header is the first entry with an empty crc field, data fills the following span-1 entries
+  public Write(header: Buffer, data: Buffer | null) {
+    const span = header.readUint8(2);
+    if (span > this.FreeEntriesInPage) this.NewPage();
+    header.writeUint32LE(entryCrc(header), 4);
+    const offset = FIRST_ENTRY_OFFSET + this.nextEntry * ENTRY_SIZE;
+    header.copy(this.page, offset);
+    data?.copy(this.page, offset + ENTRY_SIZE);
+    for (let i = this.nextEntry; i < this.nextEntry + span; i++) {
+      const bitmapOffset = PAGE_HEADER_SIZE + Math.floor(i / 4);
+      this.page[bitmapOffset] &= ~((~ENTRY_STATE_WRITTEN & 0b11) << ((i % 4) * 2));
+    }
+    this.nextEntry += span;
+  }
+
+  public Finish(totalPages: number) {
+    const image = Buffer.alloc(totalPages * PAGE_SIZE, 0xFF);
+    this.pages.forEach((p, i) => p.copy(image, i * PAGE_SIZE));
+    return image;
+  }
+}
+
+function createEntryHeader(ns: number, type: ItemType, span: number, chunkIndex: number, key: string) {
+  if (Buffer.byteLength(key) > MAX_KEY_LENGTH) {
+    throw new Error(`NVS key '${key}' is longer than ${MAX_KEY_LENGTH} characters`);
+  }
+  const e = Buffer.alloc(ENTRY_SIZE, 0xFF);
+  e.writeUint8(ns, 0);
+  e.writeUint8(type, 1);
+  e.writeUint8(span, 2);
+  e.writeUint8(chunkIndex, 3);
+  e.fill(0, 8, 24);
+  e.write(key, 8);
+  return e;
+}
+
+function writePrimitive(w: PageWriter, ns: number, entry: INvsEntry) {
+  const p = PRIMITIVES.find(p => p.encoding == entry.encoding)!;
+  const e = createEntryHeader(ns, p.type, 1, CHUNK_INDEX_ANY, entry.key);
+  if (p.size == 8) {
+    p.signed ? e.writeBigInt64LE(BigInt(entry.value), 24) : e.writeBigUint64LE(BigInt(entry.value), 24);
+  } else {
+    p.signed ? e.writeIntLE(Number(entry.value), 24, p.size) : e.writeUIntLE(Number(entry.value), 24, p.size);
+  }
+  w.Write(e, null);
+}
+
+function writeVariableLength(w: PageWriter, ns: number, type: ItemType, chunkIndex: number, key: string, data: Buffer) {
+  const e = createEntryHeader(ns, type, 1 + Math.ceil(data.length / ENTRY_SIZE), chunkIndex, key);
+  e.writeUint16LE(data.length, 24);
+  e.writeUint32LE(crc32(data), 28);
+  w.Write(e, data);
+}
+
+//blobs are split into chunks, that fill the remaining space of the pages, followed by an index entry
+function writeBlob(w: PageWriter, ns: number, key: string, data: Buffer) {
+  let chunkCount = 0;
+  let offset = 0;
+  do {
+    if (w.FreeEntriesInPage < 2) w.NewPage();
+    const chunk = data.subarray(offset, offset + Math.min(MAX_BLOB_CHUNK_SIZE, (w.FreeEntriesInPage - 1) * ENTRY_SIZE));
+    writeVariableLength(w, ns, ItemType.BLOB_DATA, chunkCount, key, chunk);
+    offset += chunk.length;
+    chunkCount++;
+  } while (offset < data.length);
+  const idx = createEntryHeader(ns, ItemType.BLOB_IDX, 1, CHUNK_INDEX_ANY, key);
+  idx.writeUint32LE(data.length, 24);
+  idx.writeUint8(chunkCount, 28);
+  idx.writeUint8(0, 29);//chunk start
+  w.Write(idx, null);
+}
+
+export function createNvsImage(namespaces: Array<INvsNamespace>, partitionSize: number): Buffer {
+  if (partitionSize % PAGE_SIZE != 0 || partitionSize < 3 * PAGE_SIZE) {
+    throw new Error(`NVS partition size must be a multiple of ${PAGE_SIZE} and at least ${3 * PAGE_SIZE} bytes`);
+  }
+  const totalPages = partitionSize / PAGE_SIZE;
+  const w = new PageWriter(totalPages - 1);
+  namespaces.forEach((n, i) => {
+    const ns = createEntryHeader(0, ItemType.U8, 1, CHUNK_INDEX_ANY, n.name);
+    ns.writeUint8(i + 1, 24);
+    w.Write(ns, null);
+  });
+  namespaces.forEach((n, i) => {
+    for (const entry of n.entries) {
+      if (entry.encoding == "string") {
+        const data = Buffer.from(entry.value + "\0");
+        if (data.length > MAX_STRING_SIZE) throw new Error(`String ${n.name}/${entry.key} is longer than ${MAX_STRING_SIZE - 1} bytes`);
+        writeVariableLength(w, i + 1, ItemType.SZ, CHUNK_INDEX_ANY, entry.key, data);
+      } else if (entry.encoding == "base64") {
+        writeBlob(w, i + 1, entry.key, Buffer.from(entry.value as string, "base64"));
+      } else {
+        writePrimitive(w, i + 1, entry);
+      }
+    }
+  });
+  return w.Finish(totalPages);
+}
+
+export function readNvsImage(image: Buffer): Array<INvsNamespace> {
+  const index2namespace = new Map<number, INvsNamespace>();
+  //blobs are completed, when all chunks are known
+  const items: Array<{ ns: number, entry: INvsEntry, blob?: { size: number, chunkCount: number, chunkStart: number } }> = [];
+  const blobChunks = new Map<string, Array<Buffer>>();
+
+  const pages: Array<Buffer> = [];
+  for (let o = 0; o + PAGE_SIZE <= image.length; o += PAGE_SIZE) {
+    const page = image.subarray(o, o + PAGE_SIZE);
+    const state = page.readUint32LE(0);
+    if (state == PAGE_STATE_EMPTY) continue;
+    if (state != PAGE_STATE_ACTIVE && state != PAGE_STATE_FULL) {
+      console.warn(`NVS page at 0x${o.toString(16)} has state 0x${state.toString(16)} and is ignored`);
+      continue;
+    }
+    if (crc32(page.subarray(4, 28)) != page.readUint32LE(28)) {
+      throw new Error(`CRC of the NVS page header at 0x${o.toString(16)} is invalid`);
+    }
+    pages.push(page);
+  }
+  pages.sort((a, b) => a.readUint32LE(4) - b.readUint32LE(4));
+
+  for (const page of pages) {
+    for (let i = 0; i < ENTRIES_PER_PAGE;) {
+      const state = (page[PAGE_HEADER_SIZE + Math.floor(i / 4)] >> ((i % 4) * 2)) & 0b11;
+      const offset = FIRST_ENTRY_OFFSET + i * ENTRY_SIZE;
+      const e = page.subarray(offset, offset + ENTRY_SIZE);
+      if (state != ENTRY_STATE_WRITTEN) {
+        i++;
+        continue;
+      }
+      const span = Math.max(1, e.readUint8(2));
+      i += span;
+      if (entryCrc(e) != e.readUint32LE(4)) {
+        console.warn(`NVS entry with invalid CRC at offset 0x${offset.toString(16)} is ignored`);
+        continue;
+      }
+      const ns = e.readUint8(0);
+      const type = e.readUint8(1) as ItemType;
+      const key = e.toString("latin1", 8, 24).replace(/\0.*$/s, "");
+      const data = () => {
+        const size = e.readUint16LE(24);
+        const d = page.subarray(offset + ENTRY_SIZE, offset + ENTRY_SIZE + size);
+        if (crc32(d) != e.readUint32LE(28)) throw new Error(`CRC of the data of NVS item ${key} is invalid`);
+        return d;
+      };
+      if (ns == 0) {
+        index2namespace.set(e.readUint8(24), { name: key, entries: [] });
+      } else if (type == ItemType.SZ) {
+        const d = data();
+        items.push({ ns, entry: { key, encoding: "string", value: d.subarray(0, d.length - 1).toString() } });
+      } else if (type == ItemType.BLOB) {
+        items.push({ ns, entry: { key, encoding: "base64", value: data().toString("base64") } });
+      } else if (type == ItemType.BLOB_DATA) {
+        const chunks = blobChunks.get(`${ns}/${key}`) ?? [];
+        chunks[e.readUint8(3)] = Buffer.from(data());
+        blobChunks.set(`${ns}/${key}`, chunks);
+      } else if (type == ItemType.BLOB_IDX) {
+        items.push({ ns, entry: { key, encoding: "base64", value: "" }, blob: { size: e.readUint32LE(24), chunkCount: e.readUint8(28), chunkStart: e.readUint8(29) } });
+      } else {
+        const p = PRIMITIVES.find(p => p.type == type);
+        if (!p) {
+          console.warn(`NVS item ${key} has unknown type 0x${type.toString(16)} and is ignored`);
+          continue;
+        }
+        const value = p.size == 8 ? (p.signed ? e.readBigInt64LE(24) : e.readBigUint64LE(24)) : (p.signed ? e.readIntLE(24, p.size) : e.readUIntLE(24, p.size));
+        items.push({ ns, entry: { key, encoding: p.encoding, value } });
+      }
+    }
+  }
+
+  const namespaceOf = (ns: number) => {
+    const n = index2namespace.get(ns);
+    if (!n) throw new Error(`NVS namespace with index ${ns} is not defined`);
+    return n;
+  };
+  items.forEach(x => {
+    if (x.blob) {
+      const b = x.blob;
+      const chunks = (blobChunks.get(`${x.ns}/${x.entry.key}`) ?? []).slice(b.chunkStart, b.chunkStart + b.chunkCount);
+      if (chunks.length != b.chunkCount || chunks.some(c => !c)) throw new Error(`Chunks of NVS blob ${x.entry.key} are missing`);
+      const blob = Buffer.concat(chunks);
+      if (blob.length != b.size) throw new Error(`Size of NVS blob ${x.entry.key} does not match its index`);
+      x.entry.value = blob.toString("base64");
+    }
+    namespaceOf(x.ns).entries.push(x.entry);
+  });
+  return [...index2namespace.entries()].sort((a, b) => a[0] - b[0]).map(x => x[1]);
+}
@@ -9,11 +9,19 @@ export const SOUNDS_DE_SUBDIR = path.join("sounds","de")
 export const CURRENT_BOARD_SUBDIR = "current_board"
 export const FLASH_KEY_SUBDIR ="flash_encryption"
 export const FLASH_KEY_FILENAME= "key.bin"
+export const SECURE_BOOT_KEY_SUBDIR ="secure_boot"
+export const SECURE_BOOT_SIGNING_KEY_FILENAME= "signing_key.pem"
+export const SECURE_BOOT_KEY_DIGEST_FILENAME= "signing_key_digest.bin"
 export const BOARD_INFO_JSON_FILENAME = "board_info.json"
 export const NVS_PARTITION_BIN_FILENAME ="nvs_partition.bin"
 export const NVS_PARTITION_ENC_BIN_FILENAME ="nvs_partition-enc.bin"
+export const NVS_KEY_SUBDIR ="nvs_encryption"
+export const NVS_KEYS_FILENAME ="nvs_keys.bin"//content of the nvs_keys partition
+export const NVS_KEYS_ENC_FILENAME ="nvs_keys-enc.bin"//same, encrypted with the flash encryption key
 export const NVS_CSV_FILENAME ="nvs.csv"
 export const NVS_CPP_HEADER_FILENAME ="nvs_accessor.hh.inc"
+export const STORAGE_PARTITION_BIN_FILENAME ="storage_littlefs.bin"//LittleFS image of the storage partition in P_BUILD; not "storage.bin", which may be built by ESP-IDF itself
+export const STORAGE_WEB_SUBDIR ="web"//content of GENERATED_WEB in the storage partition
 
 export const CERTIFICATES_SUBDIR =  "certificates"
 export const ESP32_CERT_PEM_CRT_FILE = "esp32.pem.crt"
@@ -21,12 +29,25 @@ export const ESP32_CERT_PEM_PRVTKEY_FILE = "esp32.pem.key"
 export const ESP32_CERT_PEM_PUBKEY_FILE = "esp32.pem.pubkey"
 export const ROOT_CA_PEM_CRT_FILE = "rootCA.pem.crt";
 export const ROOT_CA_PEM_PRVTKEY_FILE = "rootCA.pem.key";
+export const ROOT_CA_CRL_PEM_FILE = "rootCA.crl.pem";
+export const CA_DATABASE_FILENAME = "ca_database.json";//inventory of all certificates issued by a CA, next to the files of the CA
+export const INTERMEDIATE_CA_SUBDIR = "intermediateCA";//below CERTIFICATES_SUBDIR; own directory because of the own CA database
+export const INTERMEDIATE_CA_PEM_CRT_FILE = "intermediateCA.pem.crt";
+export const INTERMEDIATE_CA_PEM_PRVTKEY_FILE = "intermediateCA.pem.key";
+export const INTERMEDIATE_CA_CHAIN_PEM_FILE = "intermediateCA.chain.pem.crt";
+export const INTERMEDIATE_CA_CRL_PEM_FILE = "intermediateCA.crl.pem";
 export const TESTSERVER_CERT_PEM_CRT_FILE = "testserver.pem.crt";
 export const TESTSERVER_CERT_PEM_PRVTKEY_FILE = "testserver.pem.key";
 export const PUBLICSERVER_CERT_PEM_CRT_FILE = "publicserver.pem.crt";
 export const PUBLICSERVER_CERT_PEM_PRVTKEY_FILE = "publicserver.pem.key";
 export const CLIENT_CERT_PEM_CRT_FILE = "client.pem.crt";
 export const CLIENT_CERT_PEM_PRVTKEY_FILE = "client.pem.key";
+export const RELEASE_SIGNING_PEM_PRVTKEY_FILE = "release_signing.pem.key";
+export const RELEASE_SIGNING_PEM_PUBKEY_FILE = "release_signing.pem.pubkey";
+
+export const RELEASES_SUBDIR = "releases"
+export const RELEASE_MANIFEST_FILENAME = "manifest.json"
+export const RELEASE_MANIFEST_SIGNATURE_FILENAME = "manifest.json.sig"
 
 export class Paths{
     constructor(private readonly c:Context){}
@@ -38,6 +59,10 @@ export class Paths{
     get P_WEB() {return path.join(this.c.c.idfProjectDirectory, "web");}
     get P_SOUNDS_DE() {return path.join(this.P_SOUNDS, "de");}//Common german voice sounds
     get P_USERSETTINGS_PATH(){return path.join(this.c.c.idfProjectDirectory, "usersettings", "usersettings.ts");}
+    get P_RELEASES() {return path.join(this.c.c.idfProjectDirectory, RELEASES_SUBDIR);}
+
+    //Der Schlüssel zum Signieren der Releases gilt für alle Boards und liegt deshalb nicht in einem board-spezifischen Verzeichnis
+    get RELEASE_SIGNING_KEYS() {return path.join(this.c.c.boardsDirectory, CERTIFICATES_SUBDIR);}
 
     //im generated-Verzeichnis liegen alle Dateien, die bei jedem build neu generiert werden
     get GENERATED_CURRENT_BOARD(){return path.join(this.c.c.generatedDirectory, CURRENT_BOARD_SUBDIR);}//Board Specific files copied from BOARDS for current board  
@@ -55,6 +80,7 @@ export class Paths{
     get GENERATED_RUNTIMECONFIG_CPP() {return path.join(this.c.c.generatedDirectory, "runtimeconfig_cpp");}
     get GENERATED_CMAKE() {return path.join(this.c.c.generatedDirectory, "cmake");}
     get GENERATED_WEB() {return path.join(this.c.c.generatedDirectory, "web");}
+    get GENERATED_STORAGE() {return path.join(this.c.c.generatedDirectory, "storage");}//content of the storage partition, collected by littlefs_partition_gen
     get GENERATED_FLATBUFFERS_FBS() {return path.join(this.c.c.generatedDirectory, "flatbuffers_fbs");}
 
     public boardSpecificPath(subdir?:string, filename?:string){
@@ -70,6 +96,11 @@ export class Paths{
         return path.join(BOARDS, mac_6char(mac)+"_"+mac+"_"+mac_12char(mac), subdir, filename);
     }
 
+    //FLEET: one key for all boards in the BOARDS directory; BOARD: individual key next to the flash encryption key
+    public secureBootKeyPath(perBoard:boolean, filename:string){
+      return perBoard ? this.boardSpecificPath(SECURE_BOOT_KEY_SUBDIR, filename) : path.join(this.c.c.boardsDirectory, SECURE_BOOT_KEY_SUBDIR, filename);
+    }
+
     public existsBoardSpecificPath(subdir:string, filename?:string){
       return fs.existsSync(this.boardSpecificPath(subdir, filename));
     }
@@ -0,0 +1,138 @@
+import path from "node:path";
+import fs from "node:fs";
+import * as crypto from "node:crypto";
+import { Context } from "./context";
+import * as P from "./paths";
+import { getLastCommit } from "./git";
+import { CreateReleaseSigningKey } from "./certificates";
+import { writeFileCreateDirLazy } from "./utils";
+
+const RELEASE_MANIFEST_FORMAT_VERSION = 1;
+const WEB_BUNDLE_FILENAME = "index.compressed.br";
+
+export interface IReleaseFile {
+  name: string;//relative to the bundle directory
+  offset: string | null;//flash offset; null for files, that are not flashed directly (web bundle)
+  size: number;
+  sha256: string;
+}
+
+export interface IReleaseManifest {
+  formatVersion: number;
+  createdOn: string;
+  project: {
+    name: string;
+    version: string;
+    idfVersion: string;
+    target: string;
+    gitRevision: string;
+  };
+  commit: {
+    hash: string;
+    shortHash: string;
+    subject: string;
+    branch: string;
+    tags: Array<string>;
+    committedOn: string;
+  };
+  flashSettings: { flash_mode: string; flash_size: string; flash_freq: string; } | null;
+  files: Array<IReleaseFile>;
+}
+
+function sha256OfFile(file: string) {
+  return crypto.createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+}
+
+//creates the signing key once; it must never be changed afterwards, as all devices/tools verify against its public key
+export function createReleaseSigningKeyLazily(c: Context) {
+  const privateKeyPath = path.join(c.p.RELEASE_SIGNING_KEYS, P.RELEASE_SIGNING_PEM_PRVTKEY_FILE);
+  if (fs.existsSync(privateKeyPath)) {
+    return;
+  }
+  const k = CreateReleaseSigningKey();
+  writeFileCreateDirLazy(privateKeyPath, k.privateKey);
+  writeFileCreateDirLazy(path.join(c.p.RELEASE_SIGNING_KEYS, P.RELEASE_SIGNING_PEM_PUBKEY_FILE), k.publicKey);
+  console.log(`Release signing key successfully generated in ${c.p.RELEASE_SIGNING_KEYS}`);
+}
+
+//Packages the build results and the web bundle into P_RELEASES/<project>_<version>_<commit>. Precondition: buildFirmware and buildAndCompressWebProject(..., c.p.GENERATED_WEB) have been executed
+export async function createReleaseBundle(c: Context) {
+  if (!c.i || !c.f) {
+    throw new Error(`There is no build in ${c.p.P_BUILD}. Build the firmware first`);
+  }
+  const commit = await getLastCommit(true);
+  const bundleDir = path.join(c.p.P_RELEASES, `${c.i.project_name}_${c.i.project_version}_${commit.shortHash}`);
+  fs.rmSync(bundleDir, { recursive: true, force: true });
+  fs.mkdirSync(bundleDir, { recursive: true });
+
+  const sources: Array<{ file: string, offset: string | null }> = [c.f.bootloader, c.f.app, c.f["partition-table"], c.f.otadata, c.f.storage]
+    .filter(s => s)//storage partition is optional
+    .map(s => ({ file: path.join(c.p.P_BUILD, s.file), offset: s.offset }));
+  sources.push({ file: path.join(c.p.GENERATED_WEB, WEB_BUNDLE_FILENAME), offset: null });
+
+  const files = sources.map(s => {
+    if (!fs.existsSync(s.file)) {
+      throw new Error(`Release file ${s.file} does not exist`);
+    }
+    const name = path.basename(s.file);
+    fs.copyFileSync(s.file, path.join(bundleDir, name));
+    return { name, offset: s.offset, size: fs.statSync(s.file).size, sha256: sha256OfFile(s.file) } as IReleaseFile;
+  });
+
+  const manifest: IReleaseManifest = {
+    formatVersion: RELEASE_MANIFEST_FORMAT_VERSION,
+    createdOn: new Date().toISOString(),
+    project: {
+      name: c.i.project_name,
+      version: c.i.project_version,
+      idfVersion: c.i.version,
+      target: c.i.target,
+      gitRevision: c.i.git_revision,
+    },
+    commit: {
+      hash: commit.hash,
+      shortHash: commit.shortHash,
+      subject: commit.subject,
+      branch: commit.branch,
+      tags: commit.tags,
+      committedOn: new Date(parseInt(commit.committedOn) * 1000).toISOString(),
+    },
+    flashSettings: c.f.flash_settings ?? null,
+    files,
+  };
+
+  createReleaseSigningKeyLazily(c);
+  const manifestBuffer = Buffer.from(JSON.stringify(manifest, null, 2));
+  const privateKey = fs.readFileSync(path.join(c.p.RELEASE_SIGNING_KEYS, P.RELEASE_SIGNING_PEM_PRVTKEY_FILE)).toString();
+  fs.writeFileSync(path.join(bundleDir, P.RELEASE_MANIFEST_FILENAME), manifestBuffer);
+  fs.writeFileSync(path.join(bundleDir, P.RELEASE_MANIFEST_SIGNATURE_FILENAME), crypto.sign("sha256", manifestBuffer, privateKey));
+  fs.copyFileSync(path.join(c.p.RELEASE_SIGNING_KEYS, P.RELEASE_SIGNING_PEM_PUBKEY_FILE), path.join(bundleDir, P.RELEASE_SIGNING_PEM_PUBKEY_FILE));
+  console.log(`Release bundle ${manifest.project.name} ${manifest.project.version} (${commit.shortHash}) written to ${bundleDir}`);
+  return bundleDir;
+}
+
+//Checks the signature of the manifest and all files of the bundle. The public key must come from a trusted source, NOT from the bundle itself
+export function verifyReleaseBundle(bundleDir: string, publicKeyPemPath: fs.PathOrFileDescriptor): IReleaseManifest {
+  const manifestBuffer = fs.readFileSync(path.join(bundleDir, P.RELEASE_MANIFEST_FILENAME));
+  const signature = fs.readFileSync(path.join(bundleDir, P.RELEASE_MANIFEST_SIGNATURE_FILENAME));
+  if (!crypto.verify("sha256", manifestBuffer, fs.readFileSync(publicKeyPemPath).toString(), signature)) {
+    throw new Error(`Signature of the manifest in ${bundleDir} is invalid`);
+  }
+  const manifest = JSON.parse(manifestBuffer.toString()) as IReleaseManifest;
+  if (manifest.formatVersion != RELEASE_MANIFEST_FORMAT_VERSION) {
+    throw new Error(`Manifest format version ${manifest.formatVersion} is not supported`);
+  }
+  for (const f of manifest.files) {
+    const file = path.join(bundleDir, f.name);
+    if (path.dirname(path.resolve(file)) != path.resolve(bundleDir)) {
+      throw new Error(`Invalid file name ${f.name} in manifest`);
+    }
+    if (!fs.existsSync(file)) {
+      throw new Error(`File ${f.name} of the manifest is missing`);
+    }
+    if (fs.statSync(file).size != f.size || sha256OfFile(file) != f.sha256) {
+      throw new Error(`File ${f.name} has been modified`);
+    }
+  }
+  return manifest;
+}
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { SerialPortMock, SlipDecoder, SlipEncoder } from "serialport";
+import * as zlib from "node:zlib";
+import * as crypto from "node:crypto";
+import { IFlashProgress, WriteFlash } from "../esp32";
+
+const ESP32S3_MAGIC = 0x09;
+const CHIP_DETECT_MAGIC_REG_ADDR = 0x40001000;
+
+//Emulates the ROM loader behind a SerialPortMock: answers the commands of EspLoader and keeps the written flash content
+class FakeRomLoader {
+  public readonly flash = Buffer.alloc(0x40000, 0xff);
+  public readonly commands: Array<number> = [];
+  public corruptMd5 = false;
+  private decoder = new SlipDecoder();
+  private encoder = new SlipEncoder();
+  private begin = { offset: 0, numBlocks: 0 };
+  private compressed: Array<Buffer> = [];
+
+  constructor(public readonly port: SerialPortMock, private readonly magic = ESP32S3_MAGIC) {
+    this.decoder.on("data", (packet: Buffer) => this.handle(packet));
+    this.encoder.on("data", (data: Buffer) => this.port.port!.emitData(data));
+    //'open' is emitted before the open callback of EspLoader, so the first command is already intercepted
+    port.on("open", () => {
+      const binding = port.port!;
+      const write = binding.write.bind(binding);
+      binding.write = async (buffer: Buffer) => {
+        await write(buffer);
+        this.decoder.write(buffer);
+      };
+    });
+  }
+
+  private respond(command: number, value: number, payload: Buffer) {
+    const b = Buffer.alloc(8 + payload.length);
+    b.writeUInt8(0x01, 0);
+    b.writeUInt8(command, 1);
+    b.writeUInt16LE(payload.length, 2);
+    b.writeUInt32LE(value, 4);
+    payload.copy(b, 8);
+    this.encoder.write(b);
+  }
+
+  private ok(command: number, payload = Buffer.alloc(0)) {
+    this.respond(command, 0, Buffer.concat([payload, Buffer.from([0, 0, 0, 0])]));
+  }
+
+  private handle(packet: Buffer) {
+    const command = packet.readUInt8(1);
+    const checksum = packet.readUInt32LE(4);
+    const data = packet.subarray(8);
+    this.commands.push(command);
+    switch (command) {
+      case 0x08://SYNC
+        this.respond(command, 0, Buffer.from([0, 0, 0, 0]));
+        break;
+      case 0x0a://READ_REG
+        this.respond(command, data.readUInt32LE(0) == CHIP_DETECT_MAGIC_REG_ADDR ? this.magic : 0, Buffer.from([0, 0, 0, 0]));
+        break;
+      case 0x02://FLASH_BEGIN
+      case 0x10://FLASH_DEFL_BEGIN
+        this.begin = { offset: data.readUInt32LE(12), numBlocks: data.readUInt32LE(4) };
+        this.compressed = [];
+        this.ok(command);
+        break;
+      case 0x03://FLASH_DATA
+      case 0x11: {//FLASH_DEFL_DATA
+        const block = data.subarray(16, 16 + data.readUInt32LE(0));
+        if (checksum != block.reduce((c, b) => c ^ b, 0xef)) {
+          this.respond(command, 0, Buffer.from([1, 0x07, 0, 0]));//checksum error
+          break;
+        }
+        if (command == 0x03) {
+          block.copy(this.flash, this.begin.offset + data.readUInt32LE(4) * 0x400);
+        } else {
+          this.compressed.push(block);
+          if (this.compressed.length == this.begin.numBlocks) {
+            zlib.inflateSync(Buffer.concat(this.compressed)).copy(this.flash, this.begin.offset);
+          }
+        }
+        this.ok(command);
+        break;
+      }
+      case 0x13: {//SPI_FLASH_MD5
+        const offset = data.readUInt32LE(0);
+        const md5 = crypto.createHash("md5").update(this.flash.subarray(offset, offset + data.readUInt32LE(4))).digest("hex");
+        this.ok(command, Buffer.from(this.corruptMd5 ? "0".repeat(32) : md5, "ascii"));
+        break;
+      }
+      default://SPI_ATTACH, SPI_SET_PARAMS, FLASH_END, ...
+        this.ok(command);
+        break;
+    }
+  }
+}
+
+function createPort(path: string) {
+  SerialPortMock.binding.createPort(path);
+  return new SerialPortMock({ path, baudRate: 115200, autoOpen: false });
+}
+
+function randomData(length: number) {
+  return crypto.randomBytes(length);
+}
+
+describe("WriteFlash", () => {
+  afterEach(() => {
+    SerialPortMock.binding.reset();
+  });
+
+  it("writes compressed regions and verifies them", async () => {
+    const rom = new FakeRomLoader(createPort("/dev/ROM1"));
+    const bootloader = randomData(3000);
+    const app = Buffer.concat([randomData(5000), Buffer.alloc(20000, 0x55)]);
+    const progress: Array<IFlashProgress> = [];
+    await WriteFlash(rom.port, [{ offset: 0x0, data: bootloader, name: "bootloader" }, { offset: 0x10000, data: app, name: "app" }], { reboot: false, onProgress: (p) => progress.push(p) });
+    expect(rom.flash.subarray(0, bootloader.length)).toEqual(bootloader);
+    expect(rom.flash.subarray(0x10000, 0x10000 + app.length)).toEqual(app);
+    expect(rom.commands).toContain(0x11);
+    expect(rom.commands).not.toContain(0x03);
+    expect(progress.at(-1)).toEqual({ name: "app", offset: 0x10000, writtenBytes: bootloader.length + app.length, totalBytes: bootloader.length + app.length });
+  });
+
+  it("writes uncompressed regions block by block", async () => {
+    const rom = new FakeRomLoader(createPort("/dev/ROM2"));
+    const data = randomData(0x400 * 2 + 100);
+    await WriteFlash(rom.port, [{ offset: 0x8000, data }], { compress: false, reboot: false });
+    expect(rom.flash.subarray(0x8000, 0x8000 + data.length)).toEqual(data);
+    expect(rom.commands.filter(c => c == 0x03).length).toBe(3);
+    expect(rom.commands).not.toContain(0x11);
+  });
+
+  it("throws, if the MD5 in flash does not match", async () => {
+    const rom = new FakeRomLoader(createPort("/dev/ROM3"));
+    rom.corruptMd5 = true;
+    await expect(WriteFlash(rom.port, [{ offset: 0x0, data: randomData(100), name: "bootloader" }], { reboot: false })).rejects.toThrow(/Verification of bootloader failed/);
+  });
+
+  it("throws, if no supported chip answers", async () => {
+    const rom = new FakeRomLoader(createPort("/dev/ROM4"), 0xfff0c101);//ESP8266
+    await expect(WriteFlash(rom.port, [{ offset: 0x0, data: randomData(100) }], { reboot: false })).rejects.toThrow(/No supported ESP32 found on \/dev\/ROM4/);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createLittlefsImage, ILittlefsFile, littlefsFilesFromDirectory, readLittlefsImage } from "../littlefs";
+
+function bytes(length: number, seed: number) {
+  return Buffer.from(Array.from({ length }, (_, i) => (i * 31 + seed) & 0xFF));
+}
+
+//readLittlefsImage returns the entries in the order of the metadata, i.e. sorted by name per directory
+function sorted(files: Array<ILittlefsFile>) {
+  return [...files].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+describe("LittleFS image", () => {
+  let tmp: string | null = null;
+
+  afterEach(() => {
+    if (tmp) fs.rmSync(tmp, { recursive: true, force: true });
+    tmp = null;
+  });
+
+  it("reads inline files, ctz files and directories back", () => {
+    const files: Array<ILittlefsFile> = [
+      { path: "/index.html", data: Buffer.from("<html></html>") },
+      { path: "/empty.txt", data: Buffer.alloc(0) },
+      { path: "/web", data: null },
+      { path: "/web/app.js", data: bytes(10000, 1) },//several blocks with skip list pointers
+      { path: "/web/sub", data: null },
+      { path: "/web/sub/exactly_one_block.bin", data: bytes(4096, 2) },
+    ];
+    const image = createLittlefsImage(files, 0x20000);
+    expect(image.length).toBe(0x20000);
+    expect(sorted(readLittlefsImage(image))).toEqual(sorted(files));
+  });
+
+  it("splits large directories into several metadata pairs", () => {
+    const files: Array<ILittlefsFile> = Array.from({ length: 300 }, (_, i) => ({ path: `/file_${i.toString().padStart(3, "0")}.txt`, data: bytes(40 + i % 50, i) }));
+    expect(sorted(readLittlefsImage(createLittlefsImage(files, 0x40000)))).toEqual(sorted(files));
+  });
+
+  it("reads the files of a directory tree back", () => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), "littlefs-"));
+    fs.mkdirSync(path.join(tmp, "sounds", "de"), { recursive: true });
+    fs.writeFileSync(path.join(tmp, "sounds", "de", "ready.mp3"), bytes(5000, 3));
+    fs.writeFileSync(path.join(tmp, "config.json"), "{}");
+    const files = littlefsFilesFromDirectory(tmp);
+    expect(sorted(readLittlefsImage(createLittlefsImage(files, 0x10000)))).toEqual(sorted(files));
+  });
+
+  it("rejects images without superblock and files, that do not fit", () => {
+    expect(() => readLittlefsImage(Buffer.alloc(0x4000, 0xFF))).toThrow(/has no valid commit/);
+    expect(() => createLittlefsImage([{ path: "/big.bin", data: bytes(0x10000, 4) }], 0x8000)).toThrow();
+    expect(() => createLittlefsImage([], 0x1800)).toThrow(/multiple of 4096/);
+  });
+});
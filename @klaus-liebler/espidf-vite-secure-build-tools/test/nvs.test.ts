@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import * as zlib from "node:zlib";
+import { SettingsSchema } from "@klaus-liebler/commons";
+import { configGroupsToNvsNamespaces, createNvsImage, INvsNamespace, readNvsImage } from "../nvs";
+
+//Golden images of nvs_partition_gen.py are not part of the repo; the layout checks follow the documented format instead
+//see https://docs.espressif.com/projects/esp-idf/en/v5.4/esp32s3/api-reference/storage/nvs_flash.html#internals
+
+const schema: SettingsSchema = [
+  {
+    displayName: "Network", key: "net", settings: [
+      { type: "string", displayName: "SSID", key: "ssid", default: "my-wifi" },
+      { type: "string", displayName: "Password", key: "pw", secret: true },
+      { type: "ipv4", displayName: "Gateway", key: "gw", default: "192.168.1.1" },
+      { type: "boolean", displayName: "DHCP", key: "dhcp", default: true },
+    ]
+  },
+  {
+    displayName: "Display", key: "disp", settings: [
+      { type: "integer", displayName: "Brightness", key: "bright", default: -42 },
+      { type: "enum", displayName: "Mode", key: "mode", values: ["a", "b", "c"], default: 2 },
+      { type: "float", displayName: "Gamma", key: "gamma", default: 2.2 },
+      { type: "color", displayName: "Color", key: "color", default: "#12ab34" },
+      { type: "blob", displayName: "Logo", key: "logo", default: Buffer.from(Array.from({ length: 6000 }, (_, i) => i * 7)).toString("base64") },
+    ]
+  },
+];
+
+const PAGE_SIZE = 4096;
+
+describe("NVS image", () => {
+  it("reads the entries of the schema back", () => {
+    const namespaces = configGroupsToNvsNamespaces(schema);
+    const image = createNvsImage(namespaces, 0x6000);
+    expect(image.length).toBe(0x6000);
+    expect(readNvsImage(image)).toEqual(namespaces);
+  });
+
+  it("reads all primitive encodings back", () => {
+    const namespaces: Array<INvsNamespace> = [{
+      name: "prim", entries: [
+        { key: "u8", encoding: "u8", value: 255 },
+        { key: "i8", encoding: "i8", value: -128 },
+        { key: "u16", encoding: "u16", value: 65535 },
+        { key: "i16", encoding: "i16", value: -32768 },
+        { key: "u32", encoding: "u32", value: 0xFFFFFFFF },
+        { key: "i32", encoding: "i32", value: -2147483648 },
+        { key: "u64", encoding: "u64", value: 0xFFFFFFFFFFFFFFFFn },
+        { key: "i64", encoding: "i64", value: -0x8000000000000000n },
+        { key: "empty", encoding: "string", value: "" },
+      ]
+    }];
+    expect(readNvsImage(createNvsImage(namespaces, 0x3000))).toEqual(namespaces);
+  });
+
+  it("writes page headers and entries in the documented layout", () => {
+    const image = createNvsImage(configGroupsToNvsNamespaces(schema), 0x6000);
+    const page = image.subarray(0, PAGE_SIZE);
+    expect(page.readUint32LE(0)).toBe(0xFFFFFFFC);//full, the blob continues on the next page
+    expect(page.readUint32LE(4)).toBe(0);//sequence number
+    expect(page.readUint8(8)).toBe(0xFE);//version 2
+    expect(page.readUint32LE(28)).toBe(zlib.crc32(page.subarray(4, 28), 0xFFFFFFFF));
+    //first entry: namespace "net" with index 1
+    const e = page.subarray(64, 96);
+    expect([e.readUint8(0), e.readUint8(1), e.readUint8(2), e.readUint8(3)]).toEqual([0, 0x01, 1, 0xFF]);
+    expect(e.toString("latin1", 8, 24)).toBe("net" + "\0".repeat(13));
+    expect(e.readUint8(24)).toBe(1);
+    expect(e.readUint32LE(4)).toBe(zlib.crc32(Buffer.concat([e.subarray(0, 4), e.subarray(8, 32)]), 0xFFFFFFFF));
+    //entry states: 2 bits per entry, 0b10 is written
+    expect(page.readUint8(32) & 0b11).toBe(0b10);
+    //the last page stays empty for the garbage collection
+    expect(image.subarray(0x5000).every(b => b == 0xFF)).toBe(true);
+    expect(image.subarray(PAGE_SIZE, 2 * PAGE_SIZE).readUint32LE(0)).toBe(0xFFFFFFFE);//active
+  });
+
+  it("rejects images with a corrupt page header", () => {
+    const image = createNvsImage(configGroupsToNvsNamespaces(schema), 0x6000);
+    image[8] = 0xFD;
+    expect(() => readNvsImage(image)).toThrow(/CRC of the NVS page header/);
+  });
+
+  it("rejects data, that does not fit into the partition", () => {
+    const big: Array<INvsNamespace> = [{ name: "big", entries: [{ key: "blob", encoding: "base64", value: Buffer.alloc(9000).toString("base64") }] }];
+    expect(() => createNvsImage(big, 0x3000)).toThrow(/does not fit into 2 pages/);
+    expect(() => createNvsImage([], 0x2000)).toThrow(/multiple of 4096 and at least/);
+  });
+});
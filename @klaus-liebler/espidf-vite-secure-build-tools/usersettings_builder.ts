@@ -1,66 +1,86 @@
 import path from "path";
-import {EscapeToVariableName, StringBuilderImpl } from "@klaus-liebler/commons";
+import {AssertValidSettingsSchema, EscapeToVariableName, KeyOf, SettingsSchema, StringBuilderImpl } from "@klaus-liebler/commons";
 import {writeFileCreateDirLazy } from "./utils";
 import fs from "node:fs";
 import * as idf from "./espidf";
 import { Context } from "./context";
 import * as P from "./paths";
-import { ConfigGroup } from "../usersettings_codegeneration";
+import { RenderCPPAccessor, RenderCPPConfig, RenderCPPGroupConfig, RenderCPPMetadata, RenderCPPMetadataDefinitions, RenderNvsPartitionGenerator } from "../usersettings_codegeneration";
 import {IPackageJson} from "./package_json"
 import * as npm from "./npm"
 import { execSync } from "node:child_process";
 import * as os from "node:os"
+import { configGroupsToNvsNamespaces, createNvsImage } from "./nvs";
 
-function generate_partition_csv(pa:P.Paths, theusersettings:ConfigGroup[]) {
+function generate_partition_csv(pa:P.Paths, theusersettings:SettingsSchema) {
   
   console.log(`User settings has ${theusersettings.length} groups`);
   var codeBuilder = new StringBuilderImpl("key,type,encoding,value");
 
   theusersettings.forEach((cg, i, a) => {
-    codeBuilder.AppendLine(`${cg.Key},namespace,,`);
-    cg.items.forEach((ci, j, cia) => {
-      ci.RenderNvsPartitionGenerator(codeBuilder);
+    codeBuilder.AppendLine(`${KeyOf(cg)},namespace,,`);
+    cg.settings.forEach((ci, j, cia) => {
+      RenderNvsPartitionGenerator(codeBuilder, ci);
     });
   });
   writeFileCreateDirLazy(path.join(pa.GENERATED_USERSETTINGS, P.NVS_CSV_FILENAME), codeBuilder.Code);
 }
 
-function generate_cpp_accessor(p:P.Paths, theusersettings:ConfigGroup[]) {
+//same content as the csv, but without nvs_partition_gen.py
+function generate_partition_bin(c:Context, theusersettings:SettingsSchema) {
+  const nvsPartitionInfo = idf.findPartition(c, (e) => e.Name == "nvs", "nvs");
+  const image = createNvsImage(configGroupsToNvsNamespaces(theusersettings), nvsPartitionInfo.Size);
+  writeFileCreateDirLazy(path.join(c.p.GENERATED_USERSETTINGS, P.NVS_PARTITION_BIN_FILENAME), image);
+  console.log(`Created NVS binary with ${image.byteLength} byte`);
+}
+
+function generate_cpp_accessor(p:P.Paths, theusersettings:SettingsSchema) {
 
   var codeBuilder = new StringBuilderImpl();
   theusersettings.forEach((cg, i, a) => {
-    cg.items.forEach((ci, j, cia) => {
-      codeBuilder.AppendLine(`constexpr const char ${EscapeToVariableName(cg.Key)}_${EscapeToVariableName(ci.Key)}_KEY[]="${ci.Key}";`)
+    cg.settings.forEach((ci, j, cia) => {
+      codeBuilder.AppendLine(`constexpr const char ${EscapeToVariableName(KeyOf(cg))}_${EscapeToVariableName(KeyOf(ci))}_KEY[]="${KeyOf(ci)}";`)
     });
-    cg.RenderCPPConfig(codeBuilder);
-    cg.items.forEach((ci, j, cia) => {
-      ci.RenderCPPConfig(codeBuilder, cg);
+    RenderCPPGroupConfig(codeBuilder, cg);
+    cg.settings.forEach((ci, j, cia) => {
+      RenderCPPConfig(codeBuilder, ci, cg);
     });
     codeBuilder.AppendLine("}};");
   });
   codeBuilder.AppendLine(`constexpr std::array<const GroupCfg*, ${theusersettings.length}> groups = {`);
   theusersettings.forEach((cg, i, a) => {
-    codeBuilder.AppendLine(`\t&${EscapeToVariableName(cg.Key)},`);
+    codeBuilder.AppendLine(`\t&${EscapeToVariableName(KeyOf(cg))},`);
   });
   codeBuilder.AppendLine(`};`)
   codeBuilder.AppendLine(``);
   codeBuilder.AppendLine(`namespace settings{`);
   theusersettings.forEach((cg, i, a) => {
-    cg.items.forEach((ci, j, cia) => {
-      ci.RenderCPPAccessor(codeBuilder, cg);
+    cg.settings.forEach((ci, j, cia) => {
+      RenderCPPAccessor(codeBuilder, ci, cg);
     });
 
   });
   codeBuilder.AppendLine(`}`)
+  codeBuilder.AppendLine(``);
+  codeBuilder.AppendLine(`namespace metadata{`);
+  RenderCPPMetadataDefinitions(codeBuilder);
+  codeBuilder.AppendLine(`	constexpr std::array<SettingMetadata, ${theusersettings.reduce((n, cg) => n + cg.settings.length, 0)}> settings = {{`);
+  theusersettings.forEach((cg, i, a) => {
+    cg.settings.forEach((ci, j, cia) => {
+      RenderCPPMetadata(codeBuilder, ci, cg);
+    });
+  });
+  codeBuilder.AppendLine(`	}};`);
+  codeBuilder.AppendLine(`}`)
   writeFileCreateDirLazy(path.join(p.GENERATED_USERSETTINGS, P.NVS_CPP_HEADER_FILENAME), codeBuilder.Code);
 }
 
 
-export async function generate_usersettings(c:Context, cfg:ConfigGroup[]) {
+export async function generate_usersettings(c:Context, cfg:SettingsSchema) {
   const pa = new P.Paths(c);
+  AssertValidSettingsSchema(cfg);//before anything is generated, as the web UI uses the same schema
   generate_partition_csv(pa, cfg);
-  //compile partition csv to binary partition file
-  idf.nvs_partition_gen(c, false, (l)=>l.startsWith("Created NVS binary")); 
+  generate_partition_bin(c, cfg);
   generate_cpp_accessor(pa, cfg);
 
   //this is necessary to copy the usersettings (the project specific file, that contains all settings) in the context of the browser client project. 
@@ -68,7 +88,7 @@ export async function generate_usersettings(c:Context, cfg:ConfigGroup[]) {
   const USERSETTINGS_TS_FILE="usersettings.ts"
   fs.cpSync(pa.P_USERSETTINGS_PATH, path.join(pa.GENERATED_USERSETTINGS_TS, USERSETTINGS_TS_FILE), { recursive: true });
   writeFileCreateDirLazy(path.join(pa.GENERATED_USERSETTINGS_TS, "usersettings_import_adapter.ts"), `export * from "@klaus-liebler/usersettings_runtime"`);
-  npm.CreateAndInstallNpmProjectLazily(
+  await npm.CreateAndInstallNpmProjectLazily(
     pa.GENERATED_USERSETTINGS_TS,
     {
       name:"@generated/usersettings",
@@ -16,6 +16,7 @@ export interface IBoardInfo{
   last_connected_dt:number,
   board_settings:any,
   flash_encryption_key_burned_and_activated:boolean,
+  secure_boot_enabled?:boolean,//optional, as older board_info.json files do not contain it
 }
 
 export function writeFileCreateDirLazy(file: fs.PathOrFileDescriptor, data: string | NodeJS.ArrayBufferView) {
@@ -1,114 +1,77 @@
+import { BlobDefault, BooleanDefault, ColorDefault, EnumDefault, EscapeToVariableName, FloatDefault, IntegerDefault, Ipv4Default, ISetting, ISettingsGroup, IStringBuilder, KeyOf, ParseColor, ParseIpv4, StringDefault } from "@klaus-liebler/commons"
 
-import {EscapeToVariableName, IStringBuilder} from "@klaus-liebler/commons"
+//Renders the C++ accessors and the NVS partition content of the settings schema (see usersettings_schema.ts in commons)
 
-export abstract class ConfigItem {
-    constructor(public readonly displayName: string, protected key: string | null = null) { }
-    abstract RenderCPPAccessor(codeBuilder: IStringBuilder, group: ConfigGroup): void;
-    abstract RenderCPPConfig(codeBuilder: IStringBuilder, group: ConfigGroup): void;
-    abstract RenderNvsPartitionGenerator(codeBuilder: IStringBuilder): void;
-    public get Key() {
-        return this.key ?? this.displayName;
-    }
-}
-
-export class StringItem extends ConfigItem {
-    constructor(displayName: string, public readonly def: string = "", public readonly regex: RegExp = /.*/, key: string | null = null) { super(displayName, key) }
-
-    RenderCPPConfig(codeBuilder: IStringBuilder, group: ConfigGroup): void {
-        let k = EscapeToVariableName(this.Key);
-        let gk = EscapeToVariableName(group.Key);
-        codeBuilder.AppendLine(`{${gk}_${k}_KEY, usersettings::Setting::Setting_StringSetting},`);
-    }
+//encodings of the esp-idf nvs_partition_gen csv format; blobs are base64 encoded
+export type NvsEncoding = "u8" | "i8" | "u16" | "i16" | "u32" | "i32" | "u64" | "i64" | "string" | "base64";
 
-    RenderNvsPartitionGenerator(codeBuilder: IStringBuilder) {
-        codeBuilder.AppendLine(`${this.Key},data,string,${this.def},`);
-
-    }
-
-    RenderCPPAccessor(codeBuilder: IStringBuilder, group: ConfigGroup) {
-        let k = EscapeToVariableName(this.Key);
-        let gk = EscapeToVariableName(group.Key);
-        codeBuilder.AppendLine(`\tconstexpr GroupAndStringSetting ${gk}_${k}{${gk}.groupKey, ${gk}_${k}_KEY};`);
-    }
+export interface INvsValue {
+    encoding: NvsEncoding;
+    value: number | bigint | string;
 }
 
-export class IntegerItem extends ConfigItem {
-
-    constructor(displayName: string, public readonly def: number = 0, public readonly min: number = 0, public readonly max: number = Number.MAX_SAFE_INTEGER, public readonly step: number = 1, key: string | null = null) {
-        super(displayName, key)
-    }
-
-    RenderCPPConfig(codeBuilder: IStringBuilder, group: ConfigGroup): void {
-        let k = EscapeToVariableName(this.Key);
-        let gk = EscapeToVariableName(group.Key);
-        codeBuilder.AppendLine(`{${gk}_${k}_KEY, usersettings::Setting::Setting_IntegerSetting},`);
-    }
-
-    RenderNvsPartitionGenerator(codeBuilder: IStringBuilder) {
-        codeBuilder.AppendLine(`${this.Key},data,i32,${this.def},`);
-    }
-
-    RenderCPPAccessor(codeBuilder: IStringBuilder, group: ConfigGroup) {
-        let k = EscapeToVariableName(this.Key);
-        let gk = EscapeToVariableName(group.Key);
-        codeBuilder.AppendLine(`\tconstexpr GroupAndIntegerSetting ${gk}_${k}{${gk}.groupKey, ${gk}_${k}_KEY};`);
-    }
+const CPP_NAMES: { [type in ISetting["type"]]: string } = {
+    string: "String",
+    integer: "Integer",
+    boolean: "Boolean",
+    enum: "Enum",
+    float: "Float",
+    blob: "Blob",
+    ipv4: "Ipv4",
+    color: "Color",
+};
+
+//nvs has no float type, so the bits of the IEEE 754 single are stored as u32
+function floatBits(value: number) {
+    const dv = new DataView(new ArrayBuffer(4));
+    dv.setFloat32(0, value, true);
+    return dv.getUint32(0, true);
 }
 
-export class BooleanItem extends ConfigItem {
-
-    constructor(displayName: string, public readonly def: boolean = false, key: string | null = null) {
-        super(displayName, key);
-    }
-
-    RenderCPPConfig(codeBuilder: IStringBuilder, group: ConfigGroup): void {
-        let k = EscapeToVariableName(this.Key);
-        let gk = EscapeToVariableName(group.Key);
-        codeBuilder.AppendLine(`{${gk}_${k}_KEY, usersettings::Setting::Setting_BooleanSetting},`);
-    }
-
-    RenderNvsPartitionGenerator(codeBuilder: IStringBuilder) {
-        codeBuilder.AppendLine(`${this.Key},data,u8,${this.def ? "1" : "0"},`);
-    }
-
-    RenderCPPAccessor(codeBuilder: IStringBuilder, group: ConfigGroup) {
-        let k = EscapeToVariableName(this.Key);
-        let gk = EscapeToVariableName(group.Key);
-        codeBuilder.AppendLine(`\tconstexpr GroupAndBooleanSetting ${gk}_${k}{${gk}.groupKey, ${gk}_${k}_KEY};`);
+//default value as it is written to the nvs partition
+export function NvsValue(s: ISetting): INvsValue {
+    switch (s.type) {
+        case "string": return { encoding: "string", value: StringDefault(s) };
+        case "integer": return { encoding: "i32", value: IntegerDefault(s) };
+        case "boolean": return { encoding: "u8", value: BooleanDefault(s) ? 1 : 0 };
+        case "enum": return { encoding: "i32", value: EnumDefault(s) };
+        case "float": return { encoding: "u32", value: floatBits(FloatDefault(s)) };
+        case "blob": return { encoding: "base64", value: BlobDefault(s) };
+        case "ipv4": return { encoding: "u32", value: ParseIpv4(Ipv4Default(s))! };
+        case "color": return { encoding: "u32", value: ParseColor(ColorDefault(s))! };
     }
 }
 
-export class EnumItem extends ConfigItem {
-
-    constructor(displayName: string, public readonly values: string[], key: string | null = null) {
-        super(displayName, key);
-    }
-
-    RenderCPPConfig(codeBuilder: IStringBuilder, group: ConfigGroup): void {
-        let k = EscapeToVariableName(this.Key);
-        let gk = EscapeToVariableName(group.Key);
-        codeBuilder.AppendLine(`{${gk}_${k}_KEY, usersettings::Setting::Setting_EnumSetting},`);
-    }
+export function RenderNvsPartitionGenerator(codeBuilder: IStringBuilder, s: ISetting) {
+    const v = NvsValue(s);
+    codeBuilder.AppendLine(`${KeyOf(s)},data,${v.encoding},${v.value},`);
+}
 
-    RenderNvsPartitionGenerator(codeBuilder: IStringBuilder) {
-        codeBuilder.AppendLine(`${this.Key},data,i32,0,`);
-    }
+export function RenderCPPGroupConfig(codeBuilder: IStringBuilder, group: ISettingsGroup) {
+    codeBuilder.AppendLine(`constexpr GroupCfg ${EscapeToVariableName(KeyOf(group))} = {"${KeyOf(group)}", ${group.settings.length}, { `);
+}
 
-    RenderCPPAccessor(codeBuilder: IStringBuilder, group: ConfigGroup) {
-        let k = EscapeToVariableName(this.Key);
-        let gk = EscapeToVariableName(group.Key);
-        codeBuilder.AppendLine(`\tconstexpr GroupAndEnumSetting ${gk}_${k}{${gk}.groupKey, ${gk}_${k}_KEY};`);
-    }
+export function RenderCPPConfig(codeBuilder: IStringBuilder, s: ISetting, group: ISettingsGroup) {
+    let k = EscapeToVariableName(KeyOf(s));
+    let gk = EscapeToVariableName(KeyOf(group));
+    codeBuilder.AppendLine(`{${gk}_${k}_KEY, usersettings::Setting::Setting_${CPP_NAMES[s.type]}Setting},`);
 }
 
-export class ConfigGroup {
-    constructor(public readonly displayName: string, public items: ConfigItem[], private key: string | null = null) { }
+export function RenderCPPAccessor(codeBuilder: IStringBuilder, s: ISetting, group: ISettingsGroup) {
+    let k = EscapeToVariableName(KeyOf(s));
+    let gk = EscapeToVariableName(KeyOf(group));
+    codeBuilder.AppendLine(`\tconstexpr GroupAnd${CPP_NAMES[s.type]}Setting ${gk}_${k}{${gk}.groupKey, ${gk}_${k}_KEY};`);
+}
 
-    public get Key() {
-        return this.key ?? this.displayName;
-    }
+//the firmware enforces the flags, e.g. it never sends secret values to the web UI and rejects changes of read only settings
+export function RenderCPPMetadataDefinitions(codeBuilder: IStringBuilder) {
+    codeBuilder.AppendLine(`\tenum Flags : uint32_t { NONE = 0, SECRET = 1, REQUIRES_RESTART = 2, READ_ONLY = 4 };`);
+    codeBuilder.AppendLine(`\tstruct SettingMetadata { const char* groupKey; const char* settingKey; uint32_t flags; const char* unit; };`);
+}
 
-    RenderCPPConfig(codeBuilder: IStringBuilder) {
-        codeBuilder.AppendLine(`constexpr GroupCfg ${EscapeToVariableName(this.Key)} = {"${this.Key}", ${this.items.length}, { `);
-    }
-}
\ No newline at end of file
+export function RenderCPPMetadata(codeBuilder: IStringBuilder, s: ISetting, group: ISettingsGroup) {
+    let k = EscapeToVariableName(KeyOf(s));
+    let gk = EscapeToVariableName(KeyOf(group));
+    const flags = [s.secret && "SECRET", s.requiresRestart && "REQUIRES_RESTART", s.readOnly && "READ_ONLY"].filter(f => f).join(" | ") || "NONE";
+    codeBuilder.AppendLine(`\t\t{${gk}.groupKey, ${gk}_${k}_KEY, ${flags}, ${JSON.stringify(s.unit ?? "")}},`);
+}
@@ -1,12 +1,29 @@
 import { TemplateResult, html} from 'lit-html';
-import { BooleanSetting, EnumSetting, IntegerSetting, Setting, SettingWrapper, StringSetting } from '@generated/flatbuffers_ts/usersettings';
+import { BlobSetting, BooleanSetting, ColorSetting, EnumSetting, FloatSetting, IntegerSetting, Ipv4Setting, Setting, SettingWrapper, StringSetting } from '@generated/flatbuffers_ts/usersettings';
 import * as flatbuffers from 'flatbuffers';
+import { BlobDefault, BlobMaxLength, BooleanDefault, ColorDefault, EnumDefault, FloatDefault, FloatMax, FloatMin, FormatColor, FormatIpv4, IBlobSetting, IBooleanSetting, IColorSetting, IEnumSetting, IFloatSetting, IIntegerSetting, IIpv4Setting, IntegerDefault, IntegerMax, IntegerMin, IntegerStep, Ipv4Default, IPV4_PATTERN, ISetting, IStringSetting, KeyOf, MatchesStringRegex, NormalizeSettingValue, ParseColor, ParseIpv4, SettingDefault, SettingValue, StringDefault, StringRegex } from '@klaus-liebler/commons';
 import { Ref, createRef, ref } from 'lit-html/directives/ref.js';
 
 export enum ItemState {
     NODATA,
     SYNCHRONIZED,
     NONSYNCHRONIZED,
+    INVALID,
+}
+
+//css class of the input elements (and of the rows of the import preview)
+export function ItemStateClass(state: ItemState) {
+    return ["nodata", "synchronized", "nonsynchronized", "invalid"][state];
+}
+
+function base64ToBytes(base64: string) {
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+    let binary = "";
+    for (const b of bytes) binary += String.fromCharCode(b);
+    return btoa(binary);
 }
 
 export interface ValueUpdater {
@@ -14,37 +31,100 @@ export interface ValueUpdater {
     UpdateInteger(groupName: string, i: IntegerItemRT, v: number): void;
     UpdateBoolean(groupName: string, i: BooleanItemRT, v: boolean): void;
     UpdateEnum(groupName: string, i: EnumItemRT, v: number): void;
+    UpdateFloat(groupName: string, i: FloatItemRT, v: number): void;
+    UpdateBlob(groupName: string, i: BlobItemRT, v: Uint8Array): void;
+    UpdateIpv4(groupName: string, i: Ipv4ItemRT, v: string): void;
+    UpdateColor(groupName: string, i: ColorItemRT, v: string): void;
 }
 
-export class ConfigGroup{
-    constructor(public readonly displayName:string, public items:ConfigItem[], private key:string|null=null){}
-
-    public get Key(){
-        return this.key??this.displayName;
-    }
-}
-
-export abstract class ConfigItem{
-    constructor(public readonly displayName:string, protected key:string|null=null){}
-
-    public get Key(){
-        return this.key??this.displayName;
+//the schema is defined in commons, so that the build and the web UI use the same definition
+export type { IBlobSetting, IBooleanSetting, IColorSetting, IEnumSetting, IFloatSetting, IGroupValidationError, IGroupValidator, IIntegerSetting, IIpv4Setting, ISetting, ISettingCondition, ISettingsExport, ISettingsGroup, IStringSetting, SettingsSchema, SettingValue } from "@klaus-liebler/commons";
+export { AssertValidSettingsSchema, Base64Length, BlobDefault, BlobMaxLength, BooleanDefault, ColorDefault, EnumDefault, EvaluateCondition, FLOAT32_MAX, FloatDefault, FloatMax, FloatMin, FormatColor, FormatIpv4, FormatSettingValue, INT32_MAX, INT32_MIN, IntegerDefault, IntegerMax, IntegerMin, IntegerStep, Ipv4Default, IPV4_PATTERN, IsSettingEnabled, IsSettingVisible, KeyOf, MatchesStringRegex, NormalizeSettingValue, NVS_MAX_BLOB_LENGTH, NVS_MAX_KEY_LENGTH, NVS_MAX_NAMESPACES, NVS_MAX_STRING_LENGTH, ParseColor, ParseIpv4, SettingDefault, StringDefault, StringRegex, ValidateGroupValues, ValidateSettingsSchema, ValidateSettingValue } from "@klaus-liebler/commons";
+
+export function BuildConfigItemRt(groupName: string, setting: ISetting, callback: ValueUpdater): ConfigItemRT {
+    switch (setting.type) {
+        case "string": return new StringItemRT(groupName, setting, callback);
+        case "integer": return new IntegerItemRT(groupName, setting, callback);
+        case "boolean": return new BooleanItemRT(groupName, setting, callback);
+        case "enum": return new EnumItemRT(groupName, setting, callback);
+        case "float": return new FloatItemRT(groupName, setting, callback);
+        case "blob": return new BlobItemRT(groupName, setting, callback);
+        case "ipv4": return new Ipv4ItemRT(groupName, setting, callback);
+        case "color": return new ColorItemRT(groupName, setting, callback);
     }
-    public abstract BuildConfigItemRt(groupName:string, callback: ValueUpdater):ConfigItemRT;
 }
 
 export abstract class ConfigItemRT {
     protected inputElement:Ref<HTMLInputElement|HTMLSelectElement>=createRef()
     protected btnReset:Ref<HTMLInputElement>=createRef()
     protected itemState:ItemState=ItemState.NODATA;
+    private row:Ref<HTMLTableRowElement>=createRef()
+    private divMessage:Ref<HTMLDivElement>=createRef()
+    private enabled: boolean;
     public Flag: boolean = false; //for various use; eg. to check whether all Items got an update
 
-    constructor(protected readonly groupName:string, public readonly displayName: string, protected Key:string|null=null, protected readonly callback: ValueUpdater) { }
+    public readonly displayName: string;
+    public readonly Key: string;
+
+    constructor(protected readonly groupName:string, public readonly definition: ISetting, protected readonly callback: ValueUpdater) {
+        this.displayName = definition.displayName;
+        this.Key = KeyOf(definition);
+        this.enabled = !definition.readOnly;//read only inputs are disabled from the first render on
+    }
 
     public NoDataFromServerAvailable(){
+        this.itemState=ItemState.NODATA;
         this.SetVisualState(ItemState.NODATA);
     }
 
+    //secrets are never sent by the firmware, but they can be overwritten
+    public NoDataFromServerExpected(){
+        this.inputElement.value!.value="";//empty means unchanged
+        this.itemState=ItemState.SYNCHRONIZED;
+        this.SetVisualState(ItemState.SYNCHRONIZED);
+    }
+
+    //last value received from the device; null, if the device did not send one
+    public DeviceValue(): SettingValue | null {
+        return this.itemState==ItemState.NODATA ? null : NormalizeSettingValue(this.definition, this.deviceValue());
+    }
+
+    //sets the value as if the user had entered it, i.e. it gets saved with the next request
+    public abstract SetValue(v: SettingValue): void;
+
+    public ResetToDefault(){
+        if(this.definition.readOnly) return;
+        this.SetValue(SettingDefault(this.definition));
+    }
+
+    //current value of the input element, e.g. for the conditions and validators of the group
+    public Value(): SettingValue {
+        return NormalizeSettingValue(this.definition, this.currentValue());
+    }
+
+    public SetVisible(visible: boolean){
+        this.row.value!.style.display = visible ? "" : "none";
+    }
+
+    public SetEnabled(enabled: boolean){
+        this.enabled=enabled && !this.definition.readOnly;
+        if(this.itemState!=ItemState.NODATA) this.inputElement.value!.disabled=!this.enabled;
+    }
+
+    public SetMessages(messages: Array<string>){
+        this.divMessage.value!.textContent=messages.join(" ");
+        this.divMessage.value!.style.display = messages.length>0 ? "" : "none";
+    }
+
+    public ValidationMessage(): string {
+        return this.inputElement.value?.validationMessage ?? "";
+    }
+
+    //invalid values must not be sent to the device
+    public IsValid(): boolean {
+        return this.inputElement.value?.checkValidity() ?? true;
+    }
+
     public ConfirmSuccessfulWrite(){
         this.SetVisualState(ItemState.SYNCHRONIZED);
     }
@@ -60,13 +140,14 @@ export abstract class ConfigItemRT {
                 break;
             case ItemState.SYNCHRONIZED:
                 this.inputElement.value!.classList.add("synchronized");
-                this.inputElement.value!.disabled=false;
+                this.inputElement.value!.disabled=!this.enabled;
                 this.btnReset.value!.disabled=true;
                 break;
             case ItemState.NONSYNCHRONIZED:
-                this.inputElement.value!.classList.add("nonsynchronized");
-                this.inputElement.value!.disabled=false;
-                this.btnReset.value!.disabled=false;
+            case ItemState.INVALID:
+                this.inputElement.value!.classList.add(ItemStateClass(value));
+                this.inputElement.value!.disabled=!this.enabled;
+                this.btnReset.value!.disabled=!!this.definition.readOnly;
                 break;
             default:
                 break;
@@ -74,54 +155,32 @@ export abstract class ConfigItemRT {
     }
     
     public OverallTemplate=()=>html`
-    <tr>
-        <td style='width:1%; white-space:nowrap'><label>${this.displayName}</label></td>
+    <tr ${ref(this.row)}>
+        <td style='width:1%; white-space:nowrap'>
+            <label title=${this.definition.description ?? ""}>${this.displayName}</label>
+            ${this.definition.description ? html`<span class="config-item-help" title=${this.definition.description}>ⓘ</span>` : ""}
+            ${this.definition.requiresRestart ? html`<span class="config-item-restart" title="Takes effect after a restart">⟳</span>` : ""}
+        </td>
         <td style='width:1%; white-space:nowrap'><input ${ref(this.btnReset)} @click=${()=>this.btnResetClicked()} type="button" value="🗑" /></td>
-        <td>${this.CoreInputTemplate()}</td>
+        <td>${this.CoreInputTemplate()}${this.definition.unit ? html`<span class="config-item-unit">${this.definition.unit}</span>` : ""}<div ${ref(this.divMessage)} class="config-item-message" style="display:none"></div></td>
     </tr>
     `
     abstract WriteToFlatbufferBufferAndReturnSettingWrapperOffset(b: flatbuffers.Builder): number;
     abstract ReadFlatbuffersObjectAndSetValueInDom(sw: SettingWrapper): boolean;
     abstract HasAChangedValue(): boolean;
+    protected abstract deviceValue:()=>SettingValue;
+    protected abstract currentValue:()=>SettingValue;
     protected abstract CoreInputTemplate:()=>TemplateResult<1>;
     protected abstract btnResetClicked():void;
 }
 
 
 
-export class StringItem extends ConfigItem{
-    constructor(displayName:string, public readonly defaultValue:string="", public readonly regex:RegExp=/.*/,key:string|null=null){super(displayName, key)}
-    public BuildConfigItemRt=(groupName:string, callback: ValueUpdater)=> new StringItemRT(groupName, this.displayName, this.defaultValue, this.regex, this.Key, callback);
-}
-
-export class IntegerItem extends ConfigItem{
-
-    constructor(displayName:string, public readonly defaultValue:number=0, public readonly min:number=0, public readonly max:number=Number.MAX_SAFE_INTEGER, public readonly step:number=1, key:string|null=null){
-        super(displayName, key)
-    }
-    public BuildConfigItemRt=(groupName:string, callback: ValueUpdater)=> new IntegerItemRT(groupName, this.displayName, this.defaultValue, this.min, this.max, this.step, this.Key, callback);
-}
-
-export class BooleanItem extends ConfigItem{
-    
-    constructor(displayName:string, public readonly defaultValue:boolean=false, key:string|null=null){
-        super(displayName, key);
-    }
-    public BuildConfigItemRt=(groupName:string, callback: ValueUpdater)=> new BooleanItemRT(groupName, this.displayName, this.defaultValue, this.Key, callback);
-    
-
-}
-
-export class EnumItem extends ConfigItem{
-    constructor(displayName:string, public readonly values:string[], key:string|null=null){
-        super(displayName, key);
-    }
-    public BuildConfigItemRt=(groupName:string, callback: ValueUpdater)=> new EnumItemRT(groupName, this.displayName, this.values, this.Key, callback);
-}
-
 export class StringItemRT extends ConfigItemRT {
     private previousValue:string;
-    protected CoreInputTemplate=()=>html`<input ${ref(this.inputElement)} @input=${()=>this.oninput()} style='width:100%; max-width: 200px;' type="text" value=${this.defaultValue} pattern=${this.regex.source}/>`
+    protected CoreInputTemplate=()=>this.setting.secret ?
+        html`<input ${ref(this.inputElement)} @input=${()=>this.oninput()} style='width:100%; max-width: 200px;' type="password" autocomplete="new-password" placeholder="unchanged" pattern=${StringRegex(this.setting)}/>` :
+        html`<input ${ref(this.inputElement)} @input=${()=>this.oninput()} style='width:100%; max-width: 200px;' type="text" value=${this.defaultValue} pattern=${StringRegex(this.setting)}/>`
     
     HasAChangedValue(): boolean {
         return this.inputElement.value!.value != this.previousValue
@@ -134,17 +193,21 @@ export class StringItemRT extends ConfigItemRT {
     ReadFlatbuffersObjectAndSetValueInDom(sw: SettingWrapper): boolean {
         if (sw.settingType() != Setting.StringSetting) return false;
         let s = <StringSetting>sw.setting(new StringSetting());
+        if (this.setting.secret){console.warn(`The firmware sent the secret ${this.Key}`); this.itemState=ItemState.SYNCHRONIZED; return true;}
         if (!s.value()){console.warn("Returned a null value for string "+this.Key); true;}
-        if (!this.regex.test(s.value()!)){console.warn(`Regex ${this.regex} does not accept ${s.value()}`);  return false;}
+        if (!MatchesStringRegex(this.setting, s.value()!)){console.warn(`Regex ${StringRegex(this.setting)} does not accept ${s.value()}`);  return false;}
         this.inputElement.value!.value = s.value()!;
         this.previousValue = s.value()!;
         this.itemState=ItemState.SYNCHRONIZED;
         return true;
     }
 
-    constructor(protected readonly groupName:string, displayName: string, public readonly defaultValue: string = "", public readonly regex: RegExp = /.*/, key:string|null=null, protected readonly callback: ValueUpdater) {
-        super(groupName, displayName, key, callback) 
-        this.previousValue=defaultValue;
+    public readonly defaultValue: string;
+
+    constructor(groupName:string, private readonly setting: IStringSetting, callback: ValueUpdater) {
+        super(groupName, setting, callback) 
+        this.defaultValue=StringDefault(setting);
+        this.previousValue=setting.secret ? "" : this.defaultValue;//empty means unchanged
     }
 
     private oninput(){
@@ -152,6 +215,15 @@ export class StringItemRT extends ConfigItemRT {
         this.callback.UpdateString(this.groupName, this, this.inputElement.value!.value);
     }
 
+    protected deviceValue=()=>this.previousValue;
+    protected currentValue=()=>this.inputElement.value!.value;
+
+    public SetValue(v: SettingValue){
+        this.inputElement.value!.value = v as string;
+        this.oninput();
+        this.SetVisualState(this.itemState);
+    }
+
     protected btnResetClicked(){
         let fireChangeEvent= this.HasAChangedValue();
         this.inputElement.value!.value = this.previousValue
@@ -163,7 +235,7 @@ export class StringItemRT extends ConfigItemRT {
 export class IntegerItemRT extends ConfigItemRT {
     private previousValue:number;
     protected CoreInputTemplate=()=>html`
-       <input ${ref(this.inputElement)} @input=${()=>this.oninput()} type="number" value=${this.defaultValue} min=${this.min.toString()} max=${this.max.toString()} ></input>`
+       <input ${ref(this.inputElement)} @input=${()=>this.oninput()} type="number" value=${this.defaultValue} min=${IntegerMin(this.setting).toString()} max=${IntegerMax(this.setting).toString()} step=${IntegerStep(this.setting).toString()} ></input>`
 
     HasAChangedValue(): boolean {
         return this.inputElement.value!.value != this.previousValue.toString()
@@ -183,9 +255,12 @@ export class IntegerItemRT extends ConfigItemRT {
         this.itemState=ItemState.SYNCHRONIZED;
         return true;
     }
-    constructor(protected readonly groupName:string, displayName: string, public readonly defaultValue: number = 0, public readonly min: number = 0, public readonly max: number = Number.MAX_SAFE_INTEGER, public readonly step: number = 1, key:string|null=null, protected readonly callback: ValueUpdater) {
-        super(groupName, displayName, key, callback)
-        this.previousValue=defaultValue;
+    public readonly defaultValue: number;
+
+    constructor(groupName:string, private readonly setting: IIntegerSetting, callback: ValueUpdater) {
+        super(groupName, setting, callback)
+        this.defaultValue=IntegerDefault(setting);
+        this.previousValue=this.defaultValue;
     }
 
     private oninput(){
@@ -193,6 +268,15 @@ export class IntegerItemRT extends ConfigItemRT {
         this.callback.UpdateInteger(this.groupName, this, parseInt(this.inputElement.value!.value));
     }
 
+    protected deviceValue=()=>this.previousValue;
+    protected currentValue=()=>parseInt(this.inputElement.value!.value);
+
+    public SetValue(v: SettingValue){
+        this.inputElement.value!.value = v.toString();
+        this.oninput();
+        this.SetVisualState(this.itemState);
+    }
+
     protected btnResetClicked(){
         let fireChangeEvent= this.HasAChangedValue();
         this.inputElement.value!.value = this.previousValue.toString()
@@ -210,6 +294,15 @@ export class BooleanItemRT extends ConfigItemRT {
         this.callback.UpdateBoolean(this.groupName, this, (<HTMLInputElement>this.inputElement.value!).checked);
     }
 
+    protected deviceValue=()=>this.previousValue;
+    protected currentValue=()=>(<HTMLInputElement>this.inputElement.value!).checked;
+
+    public SetValue(v: SettingValue){
+        (<HTMLInputElement>this.inputElement.value!).checked = v as boolean;
+        this.oninput();
+        this.SetVisualState(this.itemState);
+    }
+
     protected btnResetClicked(){
         let fireChangeEvent= this.HasAChangedValue();
         (<HTMLInputElement>this.inputElement.value!).checked = this.previousValue;
@@ -235,9 +328,12 @@ export class BooleanItemRT extends ConfigItemRT {
         return true;
     }
 
-    constructor(protected readonly groupName:string, displayName: string, public readonly defaultValue: boolean = false, key:string|null=null, callback:ValueUpdater) {
-        super(groupName, displayName, key, callback);
-        this.previousValue=defaultValue
+    public readonly defaultValue: boolean;
+
+    constructor(groupName:string, setting: IBooleanSetting, callback:ValueUpdater) {
+        super(groupName, setting, callback);
+        this.defaultValue=BooleanDefault(setting);
+        this.previousValue=this.defaultValue
     }
 }
 
@@ -245,7 +341,7 @@ export class EnumItemRT extends ConfigItemRT {
     private previousValue:number;
     protected CoreInputTemplate=()=>html`
     <select ${ref(this.inputElement)} @change=${()=>this.onchange()}>
-        ${this.values.map((value, index) =>html`<option value="${index}">${value}</option>`)}
+        ${this.setting.values.map((value, index) =>html`<option value="${index}">${value}</option>`)}
     </select>`
 
     HasAChangedValue(): boolean {
@@ -271,6 +367,15 @@ export class EnumItemRT extends ConfigItemRT {
         this.callback.UpdateEnum(this.groupName, this, (<HTMLSelectElement>this.inputElement.value!).selectedIndex);
     }
 
+    protected deviceValue=()=>this.previousValue;
+    protected currentValue=()=>(<HTMLSelectElement>this.inputElement.value!).selectedIndex;
+
+    public SetValue(v: SettingValue){
+        (<HTMLSelectElement>this.inputElement.value).selectedIndex = v as number;
+        this.onchange();
+        this.SetVisualState(this.itemState);
+    }
+
     protected btnResetClicked(){
         let fireChangeEvent= this.HasAChangedValue();
         (<HTMLSelectElement>this.inputElement.value).selectedIndex = this.previousValue
@@ -278,8 +383,230 @@ export class EnumItemRT extends ConfigItemRT {
         if(fireChangeEvent)this.callback.UpdateEnum(this.groupName, this, parseInt(this.inputElement.value!.value));
     }
 
-    constructor(protected readonly groupName:string, displayName: string, public readonly values: string[], key:string|null=null, protected readonly callback: ValueUpdater) {
-        super(groupName, displayName, key, callback);
-        this.previousValue=0
+    constructor(groupName:string, private readonly setting: IEnumSetting, callback: ValueUpdater) {
+        super(groupName, setting, callback);
+        this.previousValue=EnumDefault(setting)
+    }
+}
+
+export class FloatItemRT extends ConfigItemRT {
+    private previousValue:number;
+    protected CoreInputTemplate=()=>html`
+       <input ${ref(this.inputElement)} @input=${()=>this.oninput()} type="number" value=${this.defaultValue} min=${FloatMin(this.setting).toString()} max=${FloatMax(this.setting).toString()} step=${this.setting.step?.toString() ?? "any"} ></input>`
+
+    HasAChangedValue(): boolean {
+        return parseFloat(this.inputElement.value!.value) != this.previousValue
+    }
+
+    WriteToFlatbufferBufferAndReturnSettingWrapperOffset(b: flatbuffers.Builder): number {
+        let settingOffset = FloatSetting.createFloatSetting(b, parseFloat(this.inputElement.value!.value));
+        return SettingWrapper.createSettingWrapper(b, b.createString(this.Key), Setting.FloatSetting, settingOffset);
+    }
+    ReadFlatbuffersObjectAndSetValueInDom(sw: SettingWrapper): boolean {
+        if (sw.settingType() != Setting.FloatSetting) return false;
+        let s = <FloatSetting>sw.setting(new FloatSetting());
+        if (!s) return true;
+        //a float has about 7 significant digits; otherwise 0.1 would be shown as 0.10000000149011612
+        this.previousValue = parseFloat(s.value().toPrecision(7));
+        this.inputElement.value!.value = this.previousValue.toString();
+        this.itemState=ItemState.SYNCHRONIZED;
+        return true;
+    }
+    public readonly defaultValue: number;
+
+    constructor(groupName:string, private readonly setting: IFloatSetting, callback: ValueUpdater) {
+        super(groupName, setting, callback)
+        this.defaultValue=FloatDefault(setting);
+        this.previousValue=this.defaultValue;
     }
-}
\ No newline at end of file
+
+    private oninput(){
+        this.itemState=this.HasAChangedValue()?ItemState.NONSYNCHRONIZED:ItemState.SYNCHRONIZED;
+        this.callback.UpdateFloat(this.groupName, this, parseFloat(this.inputElement.value!.value));
+    }
+
+    protected deviceValue=()=>this.previousValue;
+    protected currentValue=()=>parseFloat(this.inputElement.value!.value);
+
+    public SetValue(v: SettingValue){
+        this.inputElement.value!.value = v.toString();
+        this.oninput();
+        this.SetVisualState(this.itemState);
+    }
+
+    protected btnResetClicked(){
+        let fireChangeEvent= this.HasAChangedValue();
+        this.inputElement.value!.value = this.previousValue.toString()
+        this.itemState=ItemState.SYNCHRONIZED;
+        if(fireChangeEvent)this.callback.UpdateFloat(this.groupName, this, parseFloat(this.inputElement.value!.value));
+    }
+}
+
+//the value is loaded from a file (e.g. a certificate); the input element only shows, whether the size is ok
+export class BlobItemRT extends ConfigItemRT {
+    private previousValue:Uint8Array;
+    private value:Uint8Array;
+    private spanSize:Ref<HTMLSpanElement>=createRef()
+    protected CoreInputTemplate=()=>html`
+       <input ${ref(this.inputElement)} @change=${()=>this.onchange()} type="file" />
+       <span ${ref(this.spanSize)}>${this.value.length} bytes</span>`
+
+    HasAChangedValue(): boolean {
+        return this.value.length != this.previousValue.length || this.value.some((v, i) => v != this.previousValue[i]);
+    }
+
+    WriteToFlatbufferBufferAndReturnSettingWrapperOffset(b: flatbuffers.Builder): number {
+        let settingOffset = BlobSetting.createBlobSetting(b, BlobSetting.createValueVector(b, this.value));
+        return SettingWrapper.createSettingWrapper(b, b.createString(this.Key), Setting.BlobSetting, settingOffset);
+    }
+    ReadFlatbuffersObjectAndSetValueInDom(sw: SettingWrapper): boolean {
+        if (sw.settingType() != Setting.BlobSetting) return false;
+        let s = <BlobSetting>sw.setting(new BlobSetting());
+        if (!s) return true;
+        this.previousValue = s.valueArray()?.slice() ?? new Uint8Array(0);
+        this.setValue(this.previousValue);
+        this.itemState=ItemState.SYNCHRONIZED;
+        return true;
+    }
+
+    constructor(groupName:string, private readonly setting: IBlobSetting, callback: ValueUpdater) {
+        super(groupName, setting, callback)
+        this.previousValue=base64ToBytes(BlobDefault(setting));
+        this.value=this.previousValue;
+    }
+
+    private setValue(v:Uint8Array){
+        this.value=v;
+        const input=<HTMLInputElement>this.inputElement.value!;
+        input.setCustomValidity(v.length>BlobMaxLength(this.setting)?`Maximum size is ${BlobMaxLength(this.setting)} bytes`:"");
+        if(v==this.previousValue) input.value="";
+        this.spanSize.value!.textContent=`${v.length} bytes`;
+    }
+
+    private async onchange(){
+        const file=(<HTMLInputElement>this.inputElement.value!).files?.[0];
+        if(!file) return;
+        this.setValue(new Uint8Array(await file.arrayBuffer()));
+        this.itemState=this.HasAChangedValue()?ItemState.NONSYNCHRONIZED:ItemState.SYNCHRONIZED;
+        this.callback.UpdateBlob(this.groupName, this, this.value);
+    }
+
+    protected deviceValue=()=>bytesToBase64(this.previousValue);
+    protected currentValue=()=>bytesToBase64(this.value);
+
+    public SetValue(v: SettingValue){
+        this.setValue(base64ToBytes(v as string));
+        this.itemState=this.HasAChangedValue()?ItemState.NONSYNCHRONIZED:ItemState.SYNCHRONIZED;
+        this.callback.UpdateBlob(this.groupName, this, this.value);
+        this.SetVisualState(this.itemState);
+    }
+
+    protected btnResetClicked(){
+        let fireChangeEvent= this.HasAChangedValue();
+        this.setValue(this.previousValue);
+        this.itemState=ItemState.SYNCHRONIZED;
+        if(fireChangeEvent)this.callback.UpdateBlob(this.groupName, this, this.value);
+    }
+}
+
+export class Ipv4ItemRT extends ConfigItemRT {
+    private previousValue:string;
+    protected CoreInputTemplate=()=>html`<input ${ref(this.inputElement)} @input=${()=>this.oninput()} style='width:100%; max-width: 200px;' type="text" value=${this.defaultValue} pattern=${IPV4_PATTERN}/>`
+
+    HasAChangedValue(): boolean {
+        return ParseIpv4(this.inputElement.value!.value) != ParseIpv4(this.previousValue)
+    }
+
+    WriteToFlatbufferBufferAndReturnSettingWrapperOffset(b: flatbuffers.Builder): number {
+        let settingOffset = Ipv4Setting.createIpv4Setting(b, ParseIpv4(this.inputElement.value!.value) ?? 0);
+        return SettingWrapper.createSettingWrapper(b, b.createString(this.Key), Setting.Ipv4Setting, settingOffset);
+    }
+    ReadFlatbuffersObjectAndSetValueInDom(sw: SettingWrapper): boolean {
+        if (sw.settingType() != Setting.Ipv4Setting) return false;
+        let s = <Ipv4Setting>sw.setting(new Ipv4Setting());
+        if (!s) return true;
+        this.previousValue = FormatIpv4(s.value());
+        this.inputElement.value!.value = this.previousValue;
+        this.itemState=ItemState.SYNCHRONIZED;
+        return true;
+    }
+    public readonly defaultValue: string;
+
+    constructor(groupName:string, setting: IIpv4Setting, callback: ValueUpdater) {
+        super(groupName, setting, callback)
+        this.defaultValue=Ipv4Default(setting);
+        this.previousValue=this.defaultValue;
+    }
+
+    private oninput(){
+        this.itemState=this.HasAChangedValue()?ItemState.NONSYNCHRONIZED:ItemState.SYNCHRONIZED;
+        this.callback.UpdateIpv4(this.groupName, this, this.inputElement.value!.value);
+    }
+
+    protected deviceValue=()=>this.previousValue;
+    protected currentValue=()=>this.inputElement.value!.value;
+
+    public SetValue(v: SettingValue){
+        this.inputElement.value!.value = v as string;
+        this.oninput();
+        this.SetVisualState(this.itemState);
+    }
+
+    protected btnResetClicked(){
+        let fireChangeEvent= this.HasAChangedValue();
+        this.inputElement.value!.value = this.previousValue
+        this.itemState=ItemState.SYNCHRONIZED;
+        if(fireChangeEvent)this.callback.UpdateIpv4(this.groupName, this, this.inputElement.value!.value);
+    }
+}
+
+export class ColorItemRT extends ConfigItemRT {
+    private previousValue:string;
+    protected CoreInputTemplate=()=>html`<input ${ref(this.inputElement)} @input=${()=>this.oninput()} type="color" value=${this.defaultValue} />`
+
+    HasAChangedValue(): boolean {
+        return this.inputElement.value!.value.toLowerCase() != this.previousValue
+    }
+
+    WriteToFlatbufferBufferAndReturnSettingWrapperOffset(b: flatbuffers.Builder): number {
+        let settingOffset = ColorSetting.createColorSetting(b, ParseColor(this.inputElement.value!.value) ?? 0);
+        return SettingWrapper.createSettingWrapper(b, b.createString(this.Key), Setting.ColorSetting, settingOffset);
+    }
+    ReadFlatbuffersObjectAndSetValueInDom(sw: SettingWrapper): boolean {
+        if (sw.settingType() != Setting.ColorSetting) return false;
+        let s = <ColorSetting>sw.setting(new ColorSetting());
+        if (!s) return true;
+        this.previousValue = FormatColor(s.value());
+        this.inputElement.value!.value = this.previousValue;
+        this.itemState=ItemState.SYNCHRONIZED;
+        return true;
+    }
+    public readonly defaultValue: string;
+
+    constructor(groupName:string, setting: IColorSetting, callback: ValueUpdater) {
+        super(groupName, setting, callback)
+        this.defaultValue=ColorDefault(setting).toLowerCase();
+        this.previousValue=this.defaultValue;
+    }
+
+    private oninput(){
+        this.itemState=this.HasAChangedValue()?ItemState.NONSYNCHRONIZED:ItemState.SYNCHRONIZED;
+        this.callback.UpdateColor(this.groupName, this, this.inputElement.value!.value);
+    }
+
+    protected deviceValue=()=>this.previousValue;
+    protected currentValue=()=>this.inputElement.value!.value;
+
+    public SetValue(v: SettingValue){
+        this.inputElement.value!.value = v as string;
+        this.oninput();
+        this.SetVisualState(this.itemState);
+    }
+
+    protected btnResetClicked(){
+        let fireChangeEvent= this.HasAChangedValue();
+        this.inputElement.value!.value = this.previousValue
+        this.itemState=ItemState.SYNCHRONIZED;
+        if(fireChangeEvent)this.callback.UpdateColor(this.groupName, this, this.inputElement.value!.value);
+    }
+}
@@ -36,7 +36,14 @@ export class SensactController extends ScreenController implements ISensactConte
                 offset
             )
         )
-        this.appManagement.SendFinishedBuilder(Namespace.Value, b, 0);
+        this.appManagement.Request(Namespace.Value, b)
+            .then((bb) => {
+                const rw = ResponseWrapper.getRootAsResponseWrapper(bb);
+                if (rw.responseType() == Responses.ResponseCommand) {
+                    this.onResponseCommand(<ResponseCommand>rw.response(new ResponseCommand()));
+                }
+            })
+            .catch((e) => console.warn(`Command ${cmd} for application ${id} was not confirmed: ${e}`));
     }
 
     private groups: Array<ApplicationGroup>;
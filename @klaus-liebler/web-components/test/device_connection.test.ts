@@ -0,0 +1,92 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import * as flatbuffers from "flatbuffers";
+import { AddressInfo } from "node:net";
+import { WebSocket, WebSocketServer } from "ws";
+import { SubprotocolFallback } from "../typescript/utils/subprotocol_fallback";
+
+const SUBPROTOCOL = "webmanager.correlation.v1";
+const NAMESPACE = 7;
+
+//constants.ts and DeviceConnection expect a browser
+vi.stubGlobal("window", { location: { host: "localhost" } });
+vi.stubGlobal("WebSocket", WebSocket);
+let dc: typeof import("../typescript/utils/device_connection");
+
+//echoes every message; selectsSubprotocol=false behaves like firmware without correlation ids
+function startServer(selectsSubprotocol: boolean) {
+  const offeredProtocols = new Array<string>();
+  const headers = new Array<number>();
+  const server = new WebSocketServer({ port: 0, handleProtocols: (protocols) => selectsSubprotocol && protocols.has(SUBPROTOCOL) ? SUBPROTOCOL : false });
+  server.on("connection", (ws, req) => {
+    offeredProtocols.push(req.headers["sec-websocket-protocol"] ?? "");
+    ws.on("message", (data: Buffer) => {
+      headers.push(data.readUInt32LE(0));
+      ws.send(data);
+    });
+  });
+  return new Promise<{ server: WebSocketServer, url: string, offeredProtocols: Array<string>, headers: Array<number> }>(resolve => server.on("listening", () => {
+    resolve({ server, url: `ws://localhost:${(server.address() as AddressInfo).port}`, offeredProtocols, headers });
+  }));
+}
+
+function connect(url: string) {
+  return new Promise<InstanceType<typeof dc.DeviceConnection>>((resolve, reject) => {
+    const c = new dc.DeviceConnection("test", url, (d) => {
+      if (d.State == dc.DeviceState.REACHABLE) resolve(d);
+      if (d.State == dc.DeviceState.UNREACHABLE) reject(new Error("unreachable"));
+    });
+    c.Connect();
+  });
+}
+
+function emptyTable() {
+  const b = new flatbuffers.Builder(64);
+  b.startObject(0);
+  b.finish(b.endObject());
+  return b;
+}
+
+describe("DeviceConnection", () => {
+  let server: WebSocketServer | null = null;
+  let connection: InstanceType<typeof dc.DeviceConnection> | null = null;
+
+  beforeAll(async () => {
+    dc = await import("../typescript/utils/device_connection");
+  });
+
+  afterEach(async () => {
+    connection?.Close();
+    connection = null;
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+    server = null;
+  });
+
+  it("retries without subprotocol, if the server does not select it", async () => {
+    const s = await startServer(false);
+    server = s.server;
+    connection = await connect(s.url);
+    expect(s.offeredProtocols).toEqual([SUBPROTOCOL, ""]);
+    await expect(connection.Request(NAMESPACE, emptyTable(), 1000)).resolves.toBeDefined();
+    //the header is the plain namespace
+    expect(s.headers).toEqual([NAMESPACE]);
+  });
+
+  it("sends correlation ids, if the server selects the subprotocol", async () => {
+    const s = await startServer(true);
+    server = s.server;
+    connection = await connect(s.url);
+    expect(s.offeredProtocols).toEqual([SUBPROTOCOL]);
+    await expect(connection.Request(NAMESPACE, emptyTable(), 1000)).resolves.toBeDefined();
+    expect(s.headers).toEqual([(1 << 16) | NAMESPACE]);
+  });
+});
+
+describe("SubprotocolFallback", () => {
+  it("asks for the subprotocol again after the server was unreachable", () => {
+    const f = new SubprotocolFallback(SUBPROTOCOL);
+    expect(f.HandshakeFailed(f.Protocols)).toBe(true);
+    expect(f.Protocols).toEqual([]);
+    expect(f.HandshakeFailed(f.Protocols)).toBe(false);
+    expect(f.Protocols).toEqual([SUBPROTOCOL]);
+  });
+});
@@ -13,9 +13,11 @@ import { AnalyticsController } from "./controllers/AnalyticsController";
 import { CombinedSettingsController } from "./controllers/CombinedSettingsController";
 import { Html} from "./utils/common.ts";
 import { IsNotNullOrEmpty, MyFavouriteDateTimeFormat, Severity, severity2class, severity2symbol} from "@klaus-liebler/commons";
-import { IAppManagement, IScreenControllerHost, IWebsocketMessageListener } from "./utils/interfaces.ts";
+import { IAppManagement, IScreenControllerHost, IWebsocketMessageListener, IWebsocketMessageTap, RequestOptions } from "./utils/interfaces.ts";
 import RouterMenu, { IRouteHandler, Route } from "./utils/routermenu";
 import {ArrayBufferToHexString} from "@klaus-liebler/commons"
+import { CORRELATION_ID_SHIFT, CORRELATION_SUBPROTOCOL, MAX_CORRELATION_ID, NAMESPACE_MASK } from "./utils/constants";
+import { SubprotocolFallback } from "./utils/subprotocol_fallback";
 import * as cfg from "@generated/runtimeconfig_ts"
 import { setupRecipeManagement, receiveMessage, type CommandDto } from "./recipe_management";
 import { ResponseWrapper } from "@generated/flatbuffers_ts/recipemanagement/response-wrapper";
@@ -26,6 +28,7 @@ import { RequestWrapper } from "@generated/flatbuffers_ts/recipemanagement/reque
 import { Requests } from "@generated/flatbuffers_ts/recipemanagement/requests";
 
 import barsIcon from "../svgs/solid/bars.svg?raw";
+import "../style/connection-status.css";
 
 
 class Router2ContentAdapter implements IRouteHandler {
@@ -38,16 +41,39 @@ class Router2ContentAdapter implements IRouteHandler {
 }
 
 class BufferedMessage {
-  constructor(public data: Uint8Array, public namespace: number, public maxLockingTimeMs: number) { }
+  constructor(public data: Uint8Array, public namespace: number, public maxLockingTimeMs: number, public correlationId: number = 0) { }
+}
+
+class PendingRequest {
+  constructor(public readonly namespace: number, public readonly resolve: (bb: flatbuffers.ByteBuffer) => void, public readonly reject: (reason: Error) => void, public readonly timeoutHandle: number, public readonly modal: boolean) { }
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+const INITIAL_RECONNECT_DELAY_MS = 500;
+const MAX_RECONNECT_DELAY_MS = 30000;
+//the server closed the websocket intentionally, e.g. because the device shuts down; no automatic reconnect
+const NORMAL_CLOSURE_CODE = 1000;
+
+export enum ConnectionState {
+  CONNECTING,
+  CONNECTED,
+  RECONNECTING,
+  CLOSED,//closed intentionally by the server, reconnected only on user request
 }
 
 export class AppController implements IAppManagement, IScreenControllerHost {
   private routes: Array<Route> = []
   
   private namespace2listener = new Map<number, Array<IWebsocketMessageListener>>();
+  private messageTaps = new Array<IWebsocketMessageTap>();
   private lockingNamespace:number|null=null;
   private socket: WebSocket | null = null;
   private messageBuffer = new Array<BufferedMessage>();
+  private correlationId2pendingRequest = new Map<number, PendingRequest>();
+  private lastCorrelationId = 0;
+  private correlationIdsSupported = false;
+  private subprotocol = new SubprotocolFallback(CORRELATION_SUBPROTOCOL);
   private modalSpinner: Ref<HTMLDivElement> = createRef();
   private modalSpinnerTimeoutHandle: number = -1;
 
@@ -59,6 +85,44 @@ export class AppController implements IAppManagement, IScreenControllerHost {
   private dialog: Ref<HTMLDivElement> = createRef();
   private snackbarTimeout: number = -1;
 
+  private connectionStatus: Ref<HTMLDivElement> = createRef();
+  private connectionState = ConnectionState.CONNECTING;
+  private hasEverBeenConnected = false;
+  private reconnectAttempt = 0;
+  private reconnectDelayMs = 0;
+  private reconnectTimeoutHandle: number = -1;
+
+  public get ConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  public get WebsocketUrl(): string {
+    return this.websocketUrl;
+  }
+
+  //connects the app to another device; the active screen is notified like after a reconnect
+  public SwitchDevice(websocketUrl: string) {
+    if (websocketUrl == this.websocketUrl) return;
+    console.info(`Switching device from ${this.websocketUrl} to ${websocketUrl}`);
+    this.websocketUrl = websocketUrl;
+    clearTimeout(this.reconnectTimeoutHandle);
+    this.reconnectAttempt = 0;
+    //the new device may run other firmware
+    this.subprotocol.Reset();
+    const old = this.socket;
+    if (old) {
+      //the old socket must not trigger a reconnect to the old device
+      old.onclose = null;
+      old.onmessage = null;
+      old.onerror = null;
+      old.close();
+    }
+    //also while reconnecting: requests and messages for the old device must not be sent to the new one
+    this.rejectPendingRequests(`Switched to device ${websocketUrl}`);
+    this.messageBuffer = new Array<BufferedMessage>();
+    this.connect();
+  }
+
 
   public ShowDialog(d: DialogController) {
     //this.dialog.value!.innerText="";
@@ -87,11 +151,57 @@ export class AppController implements IAppManagement, IScreenControllerHost {
       })
     })
   }
+  public RegisterWebsocketMessageTap(tap: IWebsocketMessageTap): (() => void) {
+    this.messageTaps.push(tap);
+    return () => {
+      this.messageTaps = this.messageTaps.filter(t => t !== tap);
+    };
+  }
+
   public SendFinishedBuilder(namespace:number, b:flatbuffers.Builder, maxLockingTimeMs: number=0):void{
     var arr= b.asUint8Array()
     
     
     var m=new BufferedMessage(arr, namespace, maxLockingTimeMs)
+    this.sendOrBufferMessage(m);
+  }
+
+  public Request(namespace: number, b: flatbuffers.Builder, options: RequestOptions = {}): Promise<flatbuffers.ByteBuffer> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    const modal = options.modal ?? false;
+    const correlationId = this.nextCorrelationId();
+    return new Promise<flatbuffers.ByteBuffer>((resolve, reject) => {
+      const timeoutHandle = <number>(<unknown>setTimeout(() => {
+        this.settleRequest(correlationId);
+        reject(new Error(`Request ${correlationId} for namespace ${namespace} timed out after ${timeoutMs}ms`));
+      }, timeoutMs));
+      this.correlationId2pendingRequest.set(correlationId, new PendingRequest(namespace, resolve, reject, timeoutHandle, modal));
+      if (modal) this.setModal(true);
+      this.sendOrBufferMessage(new BufferedMessage(b.asUint8Array(), namespace, 0, correlationId));
+    });
+  }
+
+  private nextCorrelationId(): number {
+    do {
+      this.lastCorrelationId = this.lastCorrelationId >= MAX_CORRELATION_ID ? 1 : this.lastCorrelationId + 1;
+    } while (this.correlationId2pendingRequest.has(this.lastCorrelationId));
+    return this.lastCorrelationId;
+  }
+
+  private settleRequest(correlationId: number): PendingRequest | undefined {
+    const p = this.correlationId2pendingRequest.get(correlationId);
+    if (!p) return undefined;
+    clearTimeout(p.timeoutHandle);
+    this.correlationId2pendingRequest.delete(correlationId);
+    //a request, that timed out while disconnected, must not be sent after the reconnect
+    this.messageBuffer = this.messageBuffer.filter(m => m.correlationId != correlationId);
+    if (p.modal && ![...this.correlationId2pendingRequest.values()].some(v => v.modal)) {
+      this.setModal(false);
+    }
+    return p;
+  }
+
+  private sendOrBufferMessage(m: BufferedMessage) {
     if (!this.socket || this.socket.readyState != this.socket.OPEN) {
       console.info('sendWebsocketMessage --> not OPEN --> buffering')
       this.messageBuffer.push(m);
@@ -105,7 +215,8 @@ export class AppController implements IAppManagement, IScreenControllerHost {
     const bufferLength = 4 + m.data.byteLength;
     const arrayBuffer = new ArrayBuffer(bufferLength);
     const dataView = new DataView(arrayBuffer);
-    dataView.setUint32(0, m.namespace, true);
+    const correlationId = this.correlationIdsSupported ? m.correlationId : 0;
+    dataView.setUint32(0, ((correlationId << CORRELATION_ID_SHIFT) | (m.namespace & NAMESPACE_MASK)) >>> 0, true);
     const newData = new Uint8Array(arrayBuffer);
     newData.set(m.data, 4);
     
@@ -120,7 +231,12 @@ export class AppController implements IAppManagement, IScreenControllerHost {
     console.debug(`sendWebsocketMessage for namespace ${m.namespace} --> OPEN --> send to server`)
     try {
       this.socket!.send(newData)
+      this.messageTaps.forEach(t => t.OnTap("out", m.namespace, m.correlationId, m.data));
     } catch (error: any) {
+      if (m.correlationId != 0) {
+        this.settleRequest(m.correlationId)?.reject(new Error(`Error while sending a request to server:${error}`));
+        return;
+      }
       this.setModal(false)
       if (this.modalSpinnerTimeoutHandle) {
         clearTimeout(this.modalSpinnerTimeoutHandle)
@@ -156,14 +272,35 @@ export class AppController implements IAppManagement, IScreenControllerHost {
 
   private onWebsocketData(arrayBuffer: ArrayBuffer) {
     const dataView = new DataView(arrayBuffer);
-    const namespace = dataView.getUint32(0, true);
-    console.debug(`A message of namespace ${namespace} with length ${arrayBuffer.byteLength} has arrived: ${ArrayBufferToHexString(arrayBuffer)} .`)
+    const header = dataView.getUint32(0, true);
+    const namespace = header & NAMESPACE_MASK;
+    const correlationId = header >>> CORRELATION_ID_SHIFT;
+    console.debug(`A message of namespace ${namespace} (correlation id ${correlationId}) with length ${arrayBuffer.byteLength} has arrived: ${ArrayBufferToHexString(arrayBuffer)} .`)
     if (this.lockingNamespace==namespace) {
       clearTimeout(this.modalSpinnerTimeoutHandle)
       this.lockingNamespace = null
       this.setModal(false)
     }
+    this.messageTaps.forEach(t => t.OnTap("in", namespace, correlationId, new Uint8Array(arrayBuffer, 4)));
     let bb = new flatbuffers.ByteBuffer(new Uint8Array(arrayBuffer, 4))
+    if (correlationId != 0) {
+      const p = this.correlationId2pendingRequest.get(correlationId);
+      if (p && p.namespace == namespace) {
+        this.settleRequest(correlationId);
+        p.resolve(bb);
+        return;
+      }
+      //further responses to an already settled request carry its id as well
+      console.debug(`No pending request with correlation id ${correlationId} for namespace ${namespace} --> treating message as unsolicited`)
+    } else if (!this.correlationIdsSupported) {
+      //older firmware: the oldest pending request of the namespace gets the response
+      const oldest = [...this.correlationId2pendingRequest.entries()].find(([_id, p]) => p.namespace == namespace);
+      if (oldest) {
+        this.settleRequest(oldest[0]);
+        oldest[1].resolve(bb);
+        return;
+      }
+    }
     const listeners = this.namespace2listener.get(namespace);
     if(!listeners ||listeners.length==0){
       console.warn(`No Listeners registered for messages with namespace ${namespace}`)
@@ -218,13 +355,106 @@ export class AppController implements IAppManagement, IScreenControllerHost {
     this.ShowDialog(new OkDialog(Severity.ERROR, "Server did not respond"));
   }
 
+  private setConnectionState(state: ConnectionState) {
+    this.connectionState = state;
+    if (!this.connectionStatus.value) return;
+    const text = state == ConnectionState.RECONNECTING
+      ? `Reconnecting in ${(this.reconnectDelayMs / 1000).toFixed(1)}s (attempt ${this.reconnectAttempt})`
+      : state == ConnectionState.CLOSED
+        ? "closed, click to reconnect"
+        : ConnectionState[state].toLowerCase();
+    this.connectionStatus.value.className = `connection-status ${ConnectionState[state].toLowerCase()}`;
+    this.connectionStatus.value.title = text;
+    render(html`<span class="dot"></span><span class="text">${text}</span>`, this.connectionStatus.value);
+  }
+
+  private connect() {
+    console.log(`Connecting to ${this.websocketUrl}`)
+    this.setConnectionState(ConnectionState.CONNECTING);
+    const protocols = this.subprotocol.Protocols;
+    let opened = false;
+    this.socket = new WebSocket(this.websocketUrl, protocols)
+    this.socket.binaryType = 'arraybuffer'
+    this.socket.onopen = (_event) => {
+      opened = true;
+      this.correlationIdsSupported = this.subprotocol.Opened(this.socket!.protocol);
+      console.log(`Websocket is connected${this.correlationIdsSupported ? "" : " (without correlation ids)"}.`)
+      const isReconnect = this.hasEverBeenConnected;
+      this.hasEverBeenConnected = true;
+      this.reconnectAttempt = 0;
+      this.setConnectionState(ConnectionState.CONNECTED);
+      this.setModal(false);
+      if (this.messageBuffer.length > 0) {
+        console.log(`There are ${this.messageBuffer.length} messages in buffer.`)
+        const buffered = this.messageBuffer;
+        this.messageBuffer = new Array<BufferedMessage>()
+        for (const m of buffered) {
+          this.sendMessage(m);
+        }
+      }
+      if (isReconnect) {
+        this.ShowSnackbar(Severity.SUCCESS, `Connection reestablished`);
+        this.mainContent.OnReconnectPublic();
+      }
+    }
+    this.socket.onerror = (event: Event) => {
+      //an error is always followed by a close event, reconnection is handled there
+      console.error(`Websocket error ${JSON.stringify(event)}`)
+    }
+    this.socket.onmessage = (event: MessageEvent<any>) => {
+      this.onWebsocketData(event.data)
+    }
+    this.socket.onclose = (event) => {
+      console.error(`Websocket has been closed with code ${event.code}: ${event.reason}`)
+      this.socket = null;
+      if (!opened && this.subprotocol.HandshakeFailed(protocols)) {
+        //pending requests and buffered messages are kept for the next attempt
+        console.info(`Retrying without subprotocol ${CORRELATION_SUBPROTOCOL}`)
+        this.connect();
+        return;
+      }
+      this.rejectPendingRequests(`Websocket has been closed while waiting for response`);
+      if (event.code == NORMAL_CLOSURE_CODE) {
+        this.setConnectionState(ConnectionState.CLOSED);
+        this.ShowSnackbar(Severity.WARN, `Websocket has been closed by the server`);
+        return;
+      }
+      if (this.hasEverBeenConnected && this.reconnectAttempt == 0) {
+        this.ShowSnackbar(Severity.ERROR, `Websocket has been closed; trying to reconnect`)
+      }
+      this.scheduleReconnect();
+    }
+  }
+
+  private onConnectionStatusClicked() {
+    if (this.connectionState != ConnectionState.CLOSED) return;
+    this.reconnectAttempt = 0;
+    this.connect();
+  }
+
+  private rejectPendingRequests(reason: string) {
+    this.correlationId2pendingRequest.forEach((_p, correlationId) => {
+      this.settleRequest(correlationId)?.reject(new Error(`${reason} (correlation id ${correlationId})`));
+    });
+  }
+
+  private scheduleReconnect() {
+    //exponential backoff with "equal jitter": half of the delay is fixed, the other half is random
+    const exponentialDelayMs = Math.min(MAX_RECONNECT_DELAY_MS, INITIAL_RECONNECT_DELAY_MS * Math.pow(2, this.reconnectAttempt));
+    this.reconnectDelayMs = exponentialDelayMs / 2 + Math.random() * exponentialDelayMs / 2;
+    this.reconnectAttempt++;
+    this.setConnectionState(ConnectionState.RECONNECTING);
+    clearTimeout(this.reconnectTimeoutHandle);
+    this.reconnectTimeoutHandle = <number>(<unknown>setTimeout(() => this.connect(), this.reconnectDelayMs));
+  }
+
   public log(text: string) {
     console.log(text)
   }
 
   constructor(
     private readonly appTitle:string, 
-    private readonly websocketUrl:string, 
+    private websocketUrl:string, 
     private readonly google_api_key_for_chatbot_or_null_to_deactivate:string|null=null, 
     private readonly activateEastereggs=false, 
     private readonly additionalFooter:string=""){}
@@ -328,6 +558,7 @@ export class AppController implements IAppManagement, IScreenControllerHost {
           ${unsafeSVG(barsIcon)}
         </div>
         ${this.menu.Template()}
+        <div ${ref(this.connectionStatus)} @click=${() => this.onConnectionStatusClicked()} class="connection-status"></div>
       </nav>
       <main ${ref(this.mainRef)}></main>
       <div ${ref(this.modalSpinner)} class="modal"><span class="loader"></span></div>
@@ -338,38 +569,8 @@ export class AppController implements IAppManagement, IScreenControllerHost {
     window.onresize = () => {
       this.menu.ShowHamburgerMenuIfLargeScreen();
     };
-    console.log(`Connecting to ${this.websocketUrl}`)
     this.setModal(true);
-    this.socket = new WebSocket(this.websocketUrl)
-    this.socket.binaryType = 'arraybuffer'
-    this.socket.onopen = (_event) => {
-      console.log(`Websocket is connected.`)
-      this.setModal(false);
-      if (this.messageBuffer.length > 0) {
-        console.log(`There are ${this.messageBuffer.length} messages in buffer.`)
-        for (const m of this.messageBuffer) {
-          this.sendMessage(m);
-        }
-      }
-      this.messageBuffer = new Array<BufferedMessage>()
-    }
-    this.socket.onerror = (event: Event) => {
-      console.error(`Websocket error ${JSON.stringify(event)}`)
-      this.ShowSnackbar(Severity.ERROR, "Websocket Error")
-      this.setModal(true);
-    }
-    this.socket.onmessage = (event: MessageEvent<any>) => {
-      this.onWebsocketData(event.data)
-    }
-    this.socket.onclose = (event) => {
-      if (event.code == 1000) {
-        console.info('The Websocket connection has been closed normally. But why????')
-        return
-      }
-      console.error(`Websocket has been closed: ${JSON.stringify(event)}`)
-      this.ShowSnackbar(Severity.ERROR, `Websocket has been closed`)
-      this.setModal(true);
-    }
+    this.connect();
     this.menu.check();
   }
 
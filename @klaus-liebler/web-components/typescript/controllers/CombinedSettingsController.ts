@@ -90,6 +90,13 @@ export class CombinedSettingsController extends ScreenController {
         // Nichts tun beim Neustart
     }
 
+    protected OnReconnect(): void {
+        // Nur die bereits aufgeklappten Sub-Controller fragen ihre Daten neu an
+        this.wifiController.OnReconnectPublic();
+        this.systemController.OnReconnectPublic();
+        this.usersettingsController.OnReconnectPublic();
+    }
+
     public OnPause(): void {
         // Sub-Controller pausieren nur wenn sie gestartet wurden
         if (this.wifiStarted && this.wifiController.State === ControllerState.STARTED) {
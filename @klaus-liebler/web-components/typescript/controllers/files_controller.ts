@@ -0,0 +1,176 @@
+import * as flatbuffers from 'flatbuffers';
+import { html, render } from "lit-html";
+import { Ref, createRef, ref } from "lit-html/directives/ref.js";
+import { unsafeSVG } from "lit-html/directives/unsafe-svg.js";
+import { MyFavouriteDateTimeFormat, Severity } from "@klaus-liebler/commons";
+import { ScreenController } from "./screen_controller";
+import { FilelistDialog, FilenameDialog, OkCancelDialog, OkDialog, TextDialog } from "../dialog_controller.ts";
+import { FilesClient, IDirectoryListing, IFileEntry, joinPath } from "../utils/files";
+import folder from '../../svgs/solid/folder.svg?raw'
+import file from '../../svgs/solid/file.svg?raw'
+import download from '../../svgs/solid/download.svg?raw'
+import pen from '../../svgs/solid/pen.svg?raw'
+import trash from '../../svgs/solid/trash.svg?raw'
+import "../../style/files.css";
+
+const PREVIEW_MAX_BYTES = 16 * 1024;
+
+function isText(contentType: string) {
+    return contentType.startsWith("text/") || contentType == "application/json" || contentType == "image/svg+xml";
+}
+
+function sizeToString(size: number) {
+    return size < 1024 ? `${size} byte` : `${(size / 1024).toFixed(1)} kB`;
+}
+
+//Browser for the file system of the device (storage partition)
+export class FilesController extends ScreenController {
+    private client = new FilesClient();
+    private currentDir = "/";
+    private listing: IDirectoryListing | null = null;
+    private divContent: Ref<HTMLDivElement> = createRef();
+    private inpUpload: Ref<HTMLInputElement> = createRef();
+
+    //true, if the action succeeded; errors are shown in a dialog
+    private async execute(actionName: string, action: () => Promise<unknown>) {
+        try {
+            await action();
+            return true;
+        } catch (e: unknown) {
+            this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `${actionName} failed: ${e instanceof Error ? e.message : String(e)}`));
+            return false;
+        }
+    }
+
+    private async changeDir(dir: string) {
+        if (await this.execute(`Reading ${dir}`, async () => this.listing = await this.client.List(dir))) {
+            this.currentDir = dir;
+        }
+        this.renderContent();
+    }
+
+    private refresh() {
+        return this.changeDir(this.currentDir);
+    }
+
+    private parentDir() {
+        const parts = this.currentDir.split("/").filter(p => p);
+        parts.pop();
+        return "/" + parts.map(p => p + "/").join("");
+    }
+
+    private async onBtnUploadClicked() {
+        const files = this.inpUpload.value!.files!;
+        if (files.length == 0) {
+            return this.appManagement.ShowSnackbar(Severity.WARN, "No file selected");
+        }
+        for (const f of Array.from(files)) {
+            if (!await this.execute(`Upload of ${f.name}`, () => this.client.Write(joinPath(this.currentDir, f.name), f))) break;
+        }
+        this.inpUpload.value!.value = "";
+        this.refresh();
+    }
+
+    private onBtnMkdirClicked() {
+        this.appManagement.ShowDialog(new FilenameDialog("Name of the new directory", async (ok, name) => {
+            if (!ok || !name) return;
+            await this.execute(`Creating directory ${name}`, () => this.client.Mkdir(joinPath(this.currentDir, name)));
+            this.refresh();
+        }));
+    }
+
+    private rename(e: IFileEntry) {
+        this.appManagement.ShowDialog(new FilenameDialog(`New name of ${e.name}`, async (ok, name) => {
+            if (!ok || !name || name == e.name) return;
+            await this.execute(`Renaming ${e.name}`, () => this.client.Rename(joinPath(this.currentDir, e.name), joinPath(this.currentDir, name)));
+            this.refresh();
+        }, e.name));
+    }
+
+    private delete(path: string) {
+        this.appManagement.ShowDialog(new OkCancelDialog(Severity.WARN, `Do you really want to delete ${path}?`, async (ok) => {
+            if (!ok) return;
+            if (await this.execute(`Deleting ${path}`, () => this.client.Delete(path))) {
+                this.appManagement.ShowSnackbar(Severity.SUCCESS, `${path} deleted`);
+            }
+            this.refresh();
+        }));
+    }
+
+    private async preview(path: string) {
+        await this.execute(`Reading ${path}`, async () => {
+            const f = await this.client.Read(path, PREVIEW_MAX_BYTES);
+            const text = isText(f.contentType) ?
+                new TextDecoder().decode(f.data) + (f.totalSize > f.data.byteLength ? `\n... (${sizeToString(f.totalSize)} in total)` : "") :
+                `Binary file of type ${f.contentType}, ${sizeToString(f.totalSize)}`;
+            this.appManagement.ShowDialog(new TextDialog(path, text));
+        });
+    }
+
+    //searches all subdirectories
+    private async onBtnAllFilesClicked() {
+        let files: Array<string> = [];
+        if (!await this.execute("Reading all files", async () => files = await this.client.ListRecursive("/"))) return;
+        this.appManagement.ShowDialog(new FilelistDialog(files, (ok, path) => { if (ok) this.preview(path); }, (_ok, path) => this.delete(path), () => true));
+    }
+
+    private entryTemplate(e: IFileEntry) {
+        const path = joinPath(this.currentDir, e.name);
+        return html`
+        <tr>
+            <td>${e.dir ?
+                html`<a href="#" @click=${(ev: Event) => { ev.preventDefault(); this.changeDir(path + "/"); }}>${unsafeSVG(folder)} ${e.name}</a>` :
+                html`<a href="#" @click=${(ev: Event) => { ev.preventDefault(); this.preview(path); }}>${unsafeSVG(file)} ${e.name}</a>`}</td>
+            <td>${e.dir ? "" : sizeToString(e.size)}</td>
+            <td>${e.modified ? new Date(e.modified).toLocaleString("de-DE", MyFavouriteDateTimeFormat) : ""}</td>
+            <td>
+                ${e.dir ? "" : html`<a class="button" href=${this.client.DownloadUrl(path)} download=${e.name}>${unsafeSVG(download)}</a>`}
+                <button @click=${() => this.rename(e)} type="button">${unsafeSVG(pen)}</button>
+                <button @click=${() => this.delete(path)} type="button">${unsafeSVG(trash)}</button>
+            </td>
+        </tr>`;
+    }
+
+    private renderContent() {
+        if (!this.divContent.value) return;
+        const l = this.listing;
+        const entries = l ? [...l.entries].sort((a, b) => Number(b.dir) - Number(a.dir) || a.name.localeCompare(b.name)) : [];
+        render(html`
+            <div class="path">${this.currentDir}</div>
+            ${l?.quotaBytes ? html`<div class="usage"><progress max=${l.quotaBytes} value=${l.usedBytes}></progress> ${sizeToString(l.usedBytes)} of ${sizeToString(l.quotaBytes)} used</div>` : ""}
+            <table>
+                <thead><tr><th>Name</th><th>Size</th><th>Modified</th><th></th></tr></thead>
+                <tbody>
+                    ${this.currentDir != "/" ? html`<tr><td colspan="4"><a href="#" @click=${(ev: Event) => { ev.preventDefault(); this.changeDir(this.parentDir()); }}>..</a></td></tr>` : ""}
+                    ${entries.map(e => this.entryTemplate(e))}
+                </tbody>
+            </table>`, this.divContent.value);
+    }
+
+    OnMessage(_namespace: number, _bb: flatbuffers.ByteBuffer): void { }
+
+    OnCreate(): void { }
+
+    OnFirstStart(): void {
+        this.refresh();
+    }
+
+    OnRestart(): void {
+        this.refresh();
+    }
+
+    OnPause(): void { }
+
+    public Template = () => html`
+    <div class="files-container">
+        <h1>Files</h1>
+        <div class="toolbar">
+            <button @click=${() => this.refresh()}>⟳ Refresh</button>
+            <button @click=${() => this.onBtnMkdirClicked()}>New directory</button>
+            <button @click=${() => this.onBtnAllFilesClicked()}>All files...</button>
+            <input ${ref(this.inpUpload)} type="file" multiple>
+            <button @click=${() => this.onBtnUploadClicked()}>Upload</button>
+        </div>
+        <div ${ref(this.divContent)}></div>
+    </div>`
+}
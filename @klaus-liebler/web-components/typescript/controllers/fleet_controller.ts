@@ -0,0 +1,226 @@
+import { Namespace, RequestRestart, RequestSystemData, RequestWrapper, Requests, ResponseSystemData, ResponseWrapper, Responses } from "@generated/flatbuffers_ts/systeminfo";
+import { Namespace as UsersettingsNamespace } from "@generated/flatbuffers_ts/usersettings";
+import * as flatbuffers from 'flatbuffers';
+import { html, render } from "lit-html";
+import { Ref, createRef, ref } from "lit-html/directives/ref.js";
+import { Severity } from "@klaus-liebler/commons";
+import { ScreenController } from "./screen_controller";
+import { UsersettingsController } from "./usersettings_controller";
+import { IAppManagement } from "../utils/interfaces";
+import { DeviceConnection, DeviceState } from "../utils/device_connection";
+import { OkCancelDialog, OkDialog } from "../dialog_controller.ts";
+import "../../style/fleet.css";
+
+export interface IFleetDevice {
+    name: string;
+    websocketUrl: string;
+}
+
+class FleetDeviceRT {
+    public selected = false;
+    public firmwareVersion = "";
+    public uptimeSecs = 0;
+    public freeHeap = 0;
+    public lastUpdate = 0;
+    constructor(public readonly connection: DeviceConnection, public readonly removable: boolean) { }
+}
+
+const POLL_INTERVAL_MS = 10000;
+const REQUEST_TIMEOUT_MS = 5000;
+const LOCALSTORAGE_KEY = "fleetDevices";
+
+export class FleetController extends ScreenController {
+    private tblDevices: Ref<HTMLTableSectionElement> = createRef();
+    private inpName: Ref<HTMLInputElement> = createRef();
+    private inpUrl: Ref<HTMLInputElement> = createRef();
+    private devices = new Array<FleetDeviceRT>();
+    private pollIntervalHandle: number = -1;
+
+    //settingsSource: the changed values of this settings screen can be pushed to the selected devices
+    constructor(appManagement: IAppManagement, private readonly configuredDevices: Array<IFleetDevice> = [], private readonly settingsSource: UsersettingsController | null = null) {
+        super(appManagement);
+    }
+
+    private addDevice(d: IFleetDevice, removable: boolean) {
+        if (this.devices.some(x => x.connection.websocketUrl == d.websocketUrl)) return;
+        this.devices.push(new FleetDeviceRT(new DeviceConnection(d.name, d.websocketUrl, (c) => this.onStateChanged(c)), removable));
+    }
+
+    private storeDevices() {
+        const stored: Array<IFleetDevice> = this.devices.filter(d => d.removable).map(d => ({ name: d.connection.name, websocketUrl: d.connection.websocketUrl }));
+        localStorage.setItem(LOCALSTORAGE_KEY, JSON.stringify(stored));
+    }
+
+    private onStateChanged(c: DeviceConnection) {
+        if (c.State == DeviceState.REACHABLE) {
+            this.pollDevice(this.devices.find(d => d.connection === c)!);
+        }
+        this.renderDevices();
+    }
+
+    private async pollDevice(d: FleetDeviceRT) {
+        let b = new flatbuffers.Builder(1024);
+        b.finish(RequestWrapper.createRequestWrapper(b, Requests.RequestSystemData, RequestSystemData.createRequestSystemData(b)));
+        try {
+            const rw = ResponseWrapper.getRootAsResponseWrapper(await d.connection.Request(Namespace.Value, b, REQUEST_TIMEOUT_MS));
+            if (rw.responseType() != Responses.ResponseSystemData) throw new Error(`Unexpected Response Type ${rw.responseType()}`);
+            const sd = <ResponseSystemData>rw.response(new ResponseSystemData());
+            d.uptimeSecs = Number(sd.secondsUptime());
+            d.freeHeap = sd.freeHeap();
+            d.firmwareVersion = "";
+            for (let i = 0; i < sd.partitionsLength(); i++) {
+                const p = sd.partitions(i)!;
+                if (p.type() == 0 && p.running()) d.firmwareVersion = `${p.appName()} ${p.appVersion()}`;
+            }
+            d.lastUpdate = Date.now();
+        } catch (e: any) {
+            console.warn(`Could not poll ${d.connection.name}: ${e.message ?? e}`);
+        }
+        this.renderDevices();
+    }
+
+    private pollAll() {
+        this.devices.filter(d => d.connection.State == DeviceState.REACHABLE).forEach(d => this.pollDevice(d));
+    }
+
+    //expectResponse=false for requests, that the device never answers; they only fail, if the device is not reachable
+    private async broadcast(actionName: string, namespace: number, builders: Array<flatbuffers.Builder>, expectResponse = true) {
+        const selected = this.devices.filter(d => d.selected);
+        const results = await Promise.allSettled(selected.map(async d => {
+            for (const b of builders) {
+                if (expectResponse) await d.connection.Request(namespace, b, REQUEST_TIMEOUT_MS);
+                else d.connection.Send(namespace, b);
+            }
+        }));
+        const failed = selected.filter((_d, i) => results[i].status == "rejected").map(d => d.connection.name);
+        if (failed.length == 0) {
+            this.appManagement.ShowSnackbar(Severity.SUCCESS, `${actionName} sent to ${selected.length} devices`);
+        } else {
+            this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `${actionName} failed for ${failed.join(", ")}`));
+        }
+    }
+
+    private onBtnRestartClicked() {
+        const count = this.devices.filter(d => d.selected).length;
+        if (count == 0) return this.appManagement.ShowSnackbar(Severity.WARN, "No device selected");
+        this.appManagement.ShowDialog(new OkCancelDialog(Severity.WARN, `Do you really want to restart ${count} devices?`, (ok) => {
+            if (!ok) return;
+            let b = new flatbuffers.Builder(1024);
+            b.finish(RequestWrapper.createRequestWrapper(b, Requests.RequestRestart, RequestRestart.createRequestRestart(b)));
+            this.broadcast("Restart", Namespace.Value, [b], false);
+        }));
+    }
+
+    private onBtnPushSettingsClicked() {
+        if (this.devices.filter(d => d.selected).length == 0) return this.appManagement.ShowSnackbar(Severity.WARN, "No device selected");
+        const builders = this.settingsSource!.BuildRequestsSetUserSettings();
+        if (builders.length == 0) {
+            return this.appManagement.ShowDialog(new OkDialog(Severity.WARN, "There are no changed settings. Change the values in the settings screen first"));
+        }
+        this.broadcast("Settings push", UsersettingsNamespace.Value, builders);
+    }
+
+    private onBtnAddClicked() {
+        const name = this.inpName.value!.value.trim();
+        const url = this.inpUrl.value!.value.trim();
+        if (!name || !url.match(/^wss?:\/\//)) {
+            return this.appManagement.ShowDialog(new OkDialog(Severity.WARN, "Please enter a name and a websocket url (ws://... or wss://...)"));
+        }
+        this.addDevice({ name, websocketUrl: url }, true);
+        this.storeDevices();
+        this.devices[this.devices.length - 1].connection.Connect();
+        this.inpName.value!.value = "";
+        this.inpUrl.value!.value = "";
+        this.renderDevices();
+    }
+
+    private removeDevice(d: FleetDeviceRT) {
+        d.connection.Close();
+        this.devices = this.devices.filter(x => x !== d);
+        this.storeDevices();
+        this.renderDevices();
+    }
+
+    private selectAll(selected: boolean) {
+        this.devices.forEach(d => d.selected = selected);
+        this.renderDevices();
+    }
+
+    private renderDevices() {
+        if (!this.tblDevices.value) return;
+        render(html`${this.devices.map(d => {
+            const active = d.connection.websocketUrl == this.appManagement.WebsocketUrl;
+            return html`
+            <tr class=${active ? "active" : ""}>
+                <td><input type="checkbox" .checked=${d.selected} @change=${(e: Event) => { d.selected = (<HTMLInputElement>e.target).checked; }}></td>
+                <td>${d.connection.name}</td>
+                <td class="url">${d.connection.websocketUrl}</td>
+                <td class=${DeviceState[d.connection.State].toLowerCase()}>${DeviceState[d.connection.State].toLowerCase()}</td>
+                <td>${d.firmwareVersion}</td>
+                <td>${d.lastUpdate ? d.uptimeSecs : ""}</td>
+                <td>${d.lastUpdate ? d.freeHeap : ""}</td>
+                <td>
+                    <button ?disabled=${active} @click=${() => { this.appManagement.SwitchDevice(d.connection.websocketUrl); this.renderDevices(); }}>${active ? "Active" : "Activate"}</button>
+                    ${d.removable ? html`<button @click=${() => this.removeDevice(d)}>🗑</button>` : ""}
+                </td>
+            </tr>`})}`, this.tblDevices.value);
+    }
+
+    OnMessage(_namespace: number, _bb: flatbuffers.ByteBuffer): void { }
+
+    OnCreate(): void {
+        this.configuredDevices.forEach(d => this.addDevice(d, false));
+        try {
+            (<Array<IFleetDevice>>JSON.parse(localStorage.getItem(LOCALSTORAGE_KEY) ?? "[]")).forEach(d => this.addDevice(d, true));
+        } catch (e) {
+            console.error(`Could not read stored fleet devices: ${e}`);
+        }
+    }
+
+    OnFirstStart(): void {
+        this.OnRestart();
+    }
+
+    OnRestart(): void {
+        this.devices.forEach(d => d.connection.Connect());
+        this.pollIntervalHandle = <number>(<unknown>setInterval(() => this.pollAll(), POLL_INTERVAL_MS));
+        this.renderDevices();
+    }
+
+    //connections are only held while the fleet view is visible
+    OnPause(): void {
+        clearInterval(this.pollIntervalHandle);
+        this.devices.forEach(d => d.connection.Close());
+    }
+
+    public Template = () => html`
+    <div class="fleet-container">
+        <h1>Fleet</h1>
+        <div class="toolbar">
+            <button @click=${() => this.selectAll(true)}>Select all</button>
+            <button @click=${() => this.selectAll(false)}>Select none</button>
+            <button @click=${() => this.onBtnRestartClicked()}>⟳ Restart selected</button>
+            ${this.settingsSource ? html`<button @click=${() => this.onBtnPushSettingsClicked()}>💾 Push changed settings to selected</button>` : ""}
+        </div>
+        <table>
+            <thead>
+                <tr>
+                    <th></th>
+                    <th>Name</th>
+                    <th>URL</th>
+                    <th>Status</th>
+                    <th>Firmware</th>
+                    <th>Uptime [secs]</th>
+                    <th>Free Heap [byte]</th>
+                    <th></th>
+                </tr>
+            </thead>
+            <tbody ${ref(this.tblDevices)}></tbody>
+        </table>
+        <div class="add-device">
+            <input ${ref(this.inpName)} type="text" placeholder="Name">
+            <input ${ref(this.inpUrl)} type="text" placeholder="wss://labathome_xxxxxx/webmanager_ws">
+            <button @click=${() => this.onBtnAddClicked()}>Add device</button>
+        </div>
+    </div>`
+}
@@ -0,0 +1,271 @@
+import * as flatbuffers from 'flatbuffers';
+import { html, render } from "lit-html";
+import { Ref, createRef, ref } from "lit-html/directives/ref.js";
+import { ControllerState, ScreenController } from "./screen_controller";
+import { IAppManagement, IWebsocketMessageTap, MessageDirection } from "../utils/interfaces";
+import "../../style/message-inspector.css";
+
+//Describes a namespace, so that the inspector can show names instead of numbers.
+//Pass the generated union enums, e.g. { namespace: journal.Namespace.Value, name: "journal", requests: journal.Requests, responses: journal.Responses }
+export interface INamespaceDescription {
+    namespace: number;
+    name: string;
+    requests?: { [type: number]: string };//union type of RequestWrapper
+    responses?: { [type: number]: string };//union type of ResponseWrapper
+    decode?: (direction: MessageDirection, bb: flatbuffers.ByteBuffer) => any;//e.g. (d, bb)=>ResponseWrapper.getRootAsResponseWrapper(bb).unpack(); schemaless decoding otherwise
+}
+
+class LoggedMessage {
+    constructor(public readonly time: number, public readonly direction: MessageDirection, public readonly namespace: number, public readonly correlationId: number, public readonly data: Uint8Array) {}
+}
+
+const MAX_LOGGED_MESSAGES = 1000;
+const RENDER_INTERVAL_MS = 250;//the whole table is rendered at most once per interval, not once per message
+const MAX_DECODE_DEPTH = 4;
+
+//all generated wrapper tables have the union type as first field
+function unionTypeOfWrapper(bb: flatbuffers.ByteBuffer): number | null {
+    try {
+        const tablePos = bb.readInt32(bb.position()) + bb.position();
+        const offset = bb.__offset(tablePos, 4);
+        return offset ? bb.readUint8(tablePos + offset) : 0;
+    } catch (e) {
+        return null;
+    }
+}
+
+function toHex(data: Uint8Array, start: number, length: number) {
+    return Array.from(data.subarray(start, start + length)).map(b => b.toString(16).padStart(2, "0")).join(" ");
+}
+
+function tryReadString(bb: flatbuffers.ByteBuffer, pos: number): string | null {
+    const bytes = bb.bytes();
+    if (pos + 4 > bytes.length) return null;
+    const length = bb.readUint32(pos);
+    if (pos + 4 + length >= bytes.length || bytes[pos + 4 + length] != 0) return null;
+    const s = bytes.subarray(pos + 4, pos + 4 + length);
+    if (s.some(c => c < 0x09)) return null;
+    return new TextDecoder().decode(s);
+}
+
+//Without a schema, only the layout of a table is known. Field sizes are estimated by the distance to the next field; 4-byte fields are tried as offsets to strings and subtables
+function decodeTableSchemaless(bb: flatbuffers.ByteBuffer, tablePos: number, depth: number): any {
+    const bytes = bb.bytes();
+    const vtablePos = tablePos - bb.readInt32(tablePos);
+    if (vtablePos < 0 || vtablePos + 4 > bytes.length) throw new Error("no table");
+    const vtableSize = bb.readUint16(vtablePos);
+    const tableSize = bb.readUint16(vtablePos + 2);
+    if (vtableSize < 4 || vtablePos + vtableSize > bytes.length || tablePos + tableSize > bytes.length) throw new Error("no table");
+    const fields: Array<{ index: number, offset: number }> = [];
+    for (let i = 0; 4 + 2 * i < vtableSize; i++) {
+        const offset = bb.readUint16(vtablePos + 4 + 2 * i);
+        if (offset) fields.push({ index: i, offset });
+    }
+    const sorted = [...fields].sort((a, b) => a.offset - b.offset);
+    const result: any = {};
+    for (const f of fields) {
+        const next = sorted.find(s => s.offset > f.offset);
+        const size = (next ? next.offset : tableSize) - f.offset;
+        const pos = tablePos + f.offset;
+        const key = `#${f.index}`;
+        if (size >= 8 && size < 16) {
+            result[key] = `${bb.readInt64(pos)} (${toHex(bytes, pos, 8)})`;
+        } else if (size >= 4) {
+            const target = pos + bb.readUint32(pos);
+            const s = target < bytes.length ? tryReadString(bb, target) : null;
+            if (s !== null) {
+                result[key] = s;
+            } else if (depth < MAX_DECODE_DEPTH && target < bytes.length) {
+                try {
+                    result[key] = decodeTableSchemaless(bb, target, depth + 1);
+                } catch (e) {
+                    result[key] = bb.readInt32(pos);
+                }
+            } else {
+                result[key] = bb.readInt32(pos);
+            }
+        } else if (size >= 2) {
+            result[key] = bb.readInt16(pos);
+        } else {
+            result[key] = bytes[pos];
+        }
+    }
+    return result;
+}
+
+export class MessageInspectorController extends ScreenController implements IWebsocketMessageTap {
+    private tblMessages: Ref<HTMLTableSectionElement> = createRef();
+    private preDetails: Ref<HTMLPreElement> = createRef();
+    private inpFilter: Ref<HTMLInputElement> = createRef();
+    private selDirection: Ref<HTMLSelectElement> = createRef();
+    private btnPause: Ref<HTMLButtonElement> = createRef();
+    private messages = new Array<LoggedMessage>();
+    private namespace2description = new Map<number, INamespaceDescription>();
+    private selected: LoggedMessage | null = null;
+    private paused = false;
+    private unregisterTap: (() => void) | null = null;
+    private renderTimeoutHandle: number = -1;
+
+    constructor(appManagement: IAppManagement, namespaces: Array<INamespaceDescription> = []) {
+        super(appManagement);
+        namespaces.forEach(n => this.namespace2description.set(n.namespace, n));
+    }
+
+    public OnTap(direction: MessageDirection, namespace: number, correlationId: number, data: Uint8Array): void {
+        if (this.paused) return;
+        //data is only a view into a builder or websocket buffer
+        this.messages.push(new LoggedMessage(Date.now(), direction, namespace, correlationId, data.slice()));
+        if (this.messages.length > MAX_LOGGED_MESSAGES) this.messages.shift();
+        if (this.State == ControllerState.STARTED) this.scheduleRender();
+    }
+
+    private scheduleRender() {
+        if (this.renderTimeoutHandle >= 0) return;
+        this.renderTimeoutHandle = <number>(<unknown>setTimeout(() => {
+            this.renderTimeoutHandle = -1;
+            this.renderMessages();
+        }, RENDER_INTERVAL_MS));
+    }
+
+    private namespaceName(namespace: number) {
+        return this.namespace2description.get(namespace)?.name ?? namespace.toString();
+    }
+
+    private typeName(m: LoggedMessage) {
+        const d = this.namespace2description.get(m.namespace);
+        const names = m.direction == "out" ? d?.requests : d?.responses;
+        if (!names) return "-";
+        const t = unionTypeOfWrapper(new flatbuffers.ByteBuffer(m.data));
+        return t === null ? "?" : (names[t] ?? t.toString());
+    }
+
+    private decode(m: LoggedMessage): string {
+        const bb = new flatbuffers.ByteBuffer(m.data);
+        let decoded: any;
+        try {
+            const d = this.namespace2description.get(m.namespace);
+            decoded = d?.decode ? d.decode(m.direction, bb) : decodeTableSchemaless(bb, bb.readInt32(0), 0);
+        } catch (e: any) {
+            decoded = `Could not decode: ${e.message ?? e}`;
+        }
+        return JSON.stringify(decoded, (_k, v) => typeof v === "bigint" ? v.toString() : v, 2);
+    }
+
+    private filtered() {
+        const filter = this.inpFilter.value?.value.trim().toLowerCase() ?? "";
+        const direction = this.selDirection.value?.value ?? "";
+        return this.messages.filter(m =>
+            (direction == "" || m.direction == direction) &&
+            (filter == "" || `${m.namespace} ${this.namespaceName(m.namespace)} ${this.typeName(m)}`.toLowerCase().includes(filter))
+        );
+    }
+
+    private formatTime(time: number) {
+        return `${new Date(time).toLocaleTimeString("de-DE")}.${(time % 1000).toString().padStart(3, "0")}`;
+    }
+
+    private renderMessages() {
+        if (!this.tblMessages.value) return;
+        const list = this.filtered();
+        render(html`${list.map((m, i) => html`
+            <tr class=${m === this.selected ? "selected" : ""} @click=${() => this.select(m)}>
+                <td>${this.formatTime(m.time)}</td>
+                <td>${i == 0 ? "" : `+${m.time - list[i - 1].time}`}</td>
+                <td class=${m.direction}>${m.direction == "out" ? "⬆" : "⬇"}</td>
+                <td>${this.namespaceName(m.namespace)}</td>
+                <td>${this.typeName(m)}</td>
+                <td>${m.correlationId || ""}</td>
+                <td>${m.data.byteLength}</td>
+            </tr>`)}`, this.tblMessages.value);
+    }
+
+    private select(m: LoggedMessage) {
+        this.selected = m;
+        this.preDetails.value!.textContent = `${this.namespaceName(m.namespace)} ${this.typeName(m)}\n${this.decode(m)}\n\n${toHex(m.data, 0, m.data.byteLength)}`;
+        this.renderMessages();
+    }
+
+    private togglePause() {
+        this.paused = !this.paused;
+        this.btnPause.value!.textContent = this.paused ? "Resume" : "Pause";
+    }
+
+    private clear() {
+        this.messages = [];
+        this.selected = null;
+        this.preDetails.value!.textContent = "";
+        this.renderMessages();
+    }
+
+    private export() {
+        const exported = this.filtered().map(m => ({
+            time: m.time,
+            direction: m.direction,
+            namespace: m.namespace,
+            namespaceName: this.namespaceName(m.namespace),
+            type: this.typeName(m),
+            correlationId: m.correlationId,
+            data: btoa(Array.from(m.data, b => String.fromCharCode(b)).join("")),
+            decoded: JSON.parse(this.decode(m)),
+        }));
+        const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `messages_${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    OnMessage(_namespace: number, _bb: flatbuffers.ByteBuffer): void {}
+
+    OnCreate(): void {
+    }
+    //messages are only logged, while the inspector is visible
+    OnFirstStart(): void {
+        this.unregisterTap = this.appManagement.RegisterWebsocketMessageTap(this);
+        this.renderMessages();
+    }
+    OnRestart(): void {
+        this.unregisterTap = this.appManagement.RegisterWebsocketMessageTap(this);
+        this.renderMessages();
+    }
+    OnPause(): void {
+        this.unregisterTap?.();
+        this.unregisterTap = null;
+        clearTimeout(this.renderTimeoutHandle);
+        this.renderTimeoutHandle = -1;
+    }
+
+    public Template = () => html`
+    <div class="message-inspector">
+        <div class="toolbar">
+            <input ${ref(this.inpFilter)} type="search" placeholder="Filter namespace or type" @input=${() => this.renderMessages()}>
+            <select ${ref(this.selDirection)} @change=${() => this.renderMessages()}>
+                <option value="">both directions</option>
+                <option value="out">outbound</option>
+                <option value="in">inbound</option>
+            </select>
+            <button ${ref(this.btnPause)} @click=${() => this.togglePause()}>Pause</button>
+            <button @click=${() => this.clear()}>Clear</button>
+            <button @click=${() => this.export()}>Export</button>
+        </div>
+        <div class="log">
+            <table>
+                <thead>
+                    <tr>
+                        <th>Time</th>
+                        <th>Δ [ms]</th>
+                        <th>Dir</th>
+                        <th>Namespace</th>
+                        <th>Type</th>
+                        <th>Corr. Id</th>
+                        <th>Size [byte]</th>
+                    </tr>
+                </thead>
+                <tbody ${ref(this.tblMessages)}></tbody>
+            </table>
+        </div>
+        <pre ${ref(this.preDetails)} class="details"></pre>
+    </div>`
+}
@@ -50,10 +50,17 @@ export abstract class ScreenController implements IWebsocketMessageListener {
                 break;
         }
     }
+    public OnReconnectPublic(){
+        if(this.state==ControllerState.STARTED){
+            this.OnReconnect();
+        }
+    }
     public abstract OnCreate(): void;
     protected abstract OnFirstStart(): void;
     protected abstract OnRestart(): void;
     abstract OnPause(): void;
+    //called after the websocket connection has been reestablished while this screen is active; override to request fresh data
+    protected OnReconnect(): void {}
     abstract OnMessage(namespace:number, bb: flatbuffers.ByteBuffer): void;
     abstract Template():TemplateResult<1>
     SetParameter(_params:RegExpMatchArray):void{}
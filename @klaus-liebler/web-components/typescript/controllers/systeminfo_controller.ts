@@ -6,7 +6,7 @@ import * as flatbuffers from 'flatbuffers';
 
 import { UPLOAD_URL } from "../utils/constants";
 
-import { findChipModel, findChipFeatures, subtypeToString, otaStateToString } from "../utils/esp32";
+import { findChipModel, findChipFeatures, subtypeToString, otaStateToString, parseAppImage, IAppImageInfo, OTA_IMG_VALID, OTA_IMG_INVALID, OTA_IMG_ABORTED } from "../utils/esp32";
 import { html } from "lit-html";
 import { Ref, createRef, ref } from "lit-html/directives/ref.js";
 import { OkCancelDialog, OkDialog } from "../dialog_controller.ts";
@@ -15,7 +15,21 @@ import { MyFavouriteDateTimeFormat, Severity } from "@klaus-liebler/commons";
 
 
 
+const OTA_CHUNK_SIZE = 64 * 1024;
+const OTA_MAX_RETRIES = 20;
+const OTA_RETRY_DELAY_MS = 2000;
+const OTA_POLL_INTERVAL_MS = 3000;
+const OTA_VALIDATION_TIMEOUT_MS = 180000;
+
+interface IOtaStatus {
+    received: number;
+    total: number;
+    sha256: string;
+}
+
 export class SystemController extends ScreenController {
+    private chipModel: number | null = null;
+    private runningProjectName: string | null = null;
     private btnUpload:Ref<HTMLInputElement> = createRef();
     private inpOtafile:Ref<HTMLInputElement> = createRef();
     private lblProgress:Ref<HTMLInputElement> = createRef();
@@ -30,10 +44,16 @@ export class SystemController extends ScreenController {
         this.appManagement.SendFinishedBuilder(Namespace.Value, b);
     }
 
-    private sendRequestSystemdata() {
+    private async sendRequestSystemdata() {
         let b = new flatbuffers.Builder(1024);
         b.finish(RequestWrapper.createRequestWrapper(b,Requests.RequestSystemData, RequestSystemData.createRequestSystemData(b)))
-        this.appManagement.SendFinishedBuilder(Namespace.Value, b, 30000);
+        try {
+            const rw = ResponseWrapper.getRootAsResponseWrapper(await this.appManagement.Request(Namespace.Value, b, { timeoutMs: 30000, modal: true }));
+            if(rw.responseType()!=Responses.ResponseSystemData) throw new Error(`Unexpected Response Type ${rw.responseType()}`);
+            this.onResponseSystemData(rw.response(new ResponseSystemData()));
+        } catch (e: any) {
+            this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `Could not get system data: ${e.message ?? e}`));
+        }
     }
 
     public OnMessage(namespace:number, bb: flatbuffers.ByteBuffer): void {
@@ -43,8 +63,18 @@ export class SystemController extends ScreenController {
             return;
         }
         var rw=ResponseWrapper.getRootAsResponseWrapper(bb);
-        if(rw.responseType()!=Responses.ResponseSystemData) throw new Error("Unexpected Response Type");
-        var sd=rw.response(new ResponseSystemData());
+        if(rw.responseType()!=Responses.ResponseSystemData){
+            console.warn(`system controller: unsolicited response type ${rw.responseType()}`);
+            return;
+        }
+        this.onResponseSystemData(rw.response(new ResponseSystemData()));
+    }
+
+    private onResponseSystemData(sd: ResponseSystemData) {
+        this.chipModel = sd.chipModel();
+        for (let i = 0; i < sd.partitionsLength(); i++) {
+            if (sd.partitions(i)!.type() == 0 && sd.partitions(i)!.running()) this.runningProjectName = sd.partitions(i)!.appName();
+        }
         this.tblParameters.value!.textContent = "";
 
         let secondsEpoch = sd.secondsEpoch();
@@ -100,42 +130,150 @@ export class SystemController extends ScreenController {
         return `${mac.v(0)}:${mac.v(1)}:${mac.v(2)}:${mac.v(3)}:${mac.v(4)}:${mac.v(5)}`;
     }
 
-    private startUpload() {
+    private async startUpload() {
         let otafiles = this.inpOtafile.value!.files!;
         if (otafiles.length == 0) {
             this.appManagement.ShowDialog(new OkDialog(Severity.WARN, "No file selected!"));
             return;
         }
+        const image = await otafiles[0].arrayBuffer();
+        let info: IAppImageInfo;
+        try {
+            info = await parseAppImage(image);
+        } catch (e: any) {
+            this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `The file is not a valid firmware image: ${e.message ?? e}`));
+            return;
+        }
+        if (!info.checksumValid || info.sha256Valid === false) {
+            this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `The firmware image is corrupted (${!info.checksumValid ? "checksum" : "SHA256"} mismatch)`));
+            return;
+        }
+        if (this.chipModel !== null && info.chipModel != this.chipModel) {
+            this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `The firmware image is built for ${findChipModel(info.chipModel)}, but the device is a ${findChipModel(this.chipModel)}`));
+            return;
+        }
+        const description = `${info.projectName} ${info.version} (${info.date} ${info.time}, IDF ${info.idfVersion})`;
+        if (this.runningProjectName !== null && info.projectName != this.runningProjectName) {
+            this.appManagement.ShowDialog(new OkCancelDialog(Severity.WARN, `The device runs ${this.runningProjectName}, but the firmware image contains ${description}. Are you really sure to continue?`, (ok) => { if (ok) this.uploadAndVerify(image, info); }));
+            return;
+        }
+        this.appManagement.ShowDialog(new OkCancelDialog(Severity.INFO, `Update to ${description}?`, (ok) => { if (ok) this.uploadAndVerify(image, info); }));
+    }
 
+    private setProgress(text: string, percent: number) {
+        this.lblProgress.value!.textContent = text;
+        this.prgbProgress.value!.value = percent.toFixed(0);
+    }
+
+    private async uploadAndVerify(image: ArrayBuffer, info: IAppImageInfo) {
         this.inpOtafile.value!.disabled = true;
         this.btnUpload.value!.disabled = true;
+        try {
+            if (await this.supportsChunkedUpload()) await this.uploadInChunks(image);
+            else await this.uploadAtOnce(image);
+            await this.waitForValidFirmware(info);
+            this.appManagement.ShowDialog(new OkDialog(Severity.SUCCESS, `Firmware ${info.projectName} ${info.version} is running and has been marked as valid`));
+        } catch (e: any) {
+            this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `Firmware update failed: ${e.message ?? e}`));
+        } finally {
+            this.inpOtafile.value!.disabled = false;
+            this.btnUpload.value!.disabled = false;
+        }
+    }
 
-        var file = otafiles[0];
-        var xhr = new XMLHttpRequest();
-        xhr.onreadystatechange = (e: Event) => {
-            console.info(`onreadystatechange: e:${e}; xhr:${xhr}; xhr.text:${xhr.responseText}; xhr.readyState:${xhr.readyState}`);
-            if (xhr.readyState == 4) {
-                if (xhr.status == 200) {
-                    this.appManagement.ShowDialog(new OkDialog(Severity.SUCCESS, xhr.responseText));
-                } else if (xhr.status == 0) {
-                    console.error("Server closed the connection abruptly!");
-                } else {
-                    console.error(" Error!\n" + xhr.responseText);
-                }
-            }
-        };
+    //older firmware does not answer GET /ota and only accepts the whole image in a single POST
+    private async supportsChunkedUpload(): Promise<boolean> {
+        try {
+            const res = await fetch(UPLOAD_URL);
+            if (!res.ok) return false;
+            const status: Partial<IOtaStatus> = await res.json();
+            return typeof status.received == "number";
+        } catch (e) {
+            return false;
+        }
+    }
 
+    private uploadAtOnce(image: ArrayBuffer) {
+        return new Promise<void>((resolve, reject) => {
+            const xhr = new XMLHttpRequest();
+            xhr.upload.onprogress = (e: ProgressEvent) => this.setProgress(`Progress: ${(e.loaded / e.total * 100).toFixed(0)}%`, e.loaded / e.total * 100);
+            xhr.onload = () => xhr.status == 200 ? resolve() : reject(new Error(`Device rejected the upload: ${xhr.responseText}`));
+            xhr.onerror = () => reject(new Error("Server closed the connection abruptly"));
+            console.log(`Trying to POST ${UPLOAD_URL}`);
+            xhr.open("POST", UPLOAD_URL, true);
+            xhr.send(image);
+        });
+    }
 
-        xhr.upload.onprogress = (e: ProgressEvent) => {
+    //The device answers every chunk with the number of bytes received so far. After a lost connection, the upload is resumed from there
+    private async uploadInChunks(image: ArrayBuffer) {
+        const sha256 = Array.from(new Uint8Array(await crypto.subtle.digest("SHA-256", image))).map(b => b.toString(16).padStart(2, "0")).join("");
+        const total = image.byteLength;
+        let offset = 0;
+        let failures = 0;
+        while (offset < total) {
+            let res: Response;
+            try {
+                res = await fetch(`${UPLOAD_URL}?offset=${offset}&total=${total}&sha256=${sha256}`, { method: "POST", body: image.slice(offset, offset + OTA_CHUNK_SIZE) });
+            } catch (e: any) {
+                if (++failures > OTA_MAX_RETRIES) throw new Error(`Upload aborted after ${OTA_MAX_RETRIES} retries: ${e.message ?? e}`);
+                this.setProgress(`Connection lost, resuming (attempt ${failures})...`, offset / total * 100);
+                await new Promise(r => setTimeout(r, OTA_RETRY_DELAY_MS));
+                offset = await this.queryUploadOffset(sha256, offset);
+                continue;
+            }
+            //409: the device expects another offset
+            if (!res.ok && res.status != 409) {
+                throw new Error(`Device rejected the upload: ${await res.text()}`);
+            }
+            const status: IOtaStatus = await res.json();
+            if (res.ok) {
+                offset = status.received;
+                failures = 0;
+            } else {
+                if (++failures > OTA_MAX_RETRIES) throw new Error(`Upload aborted after ${OTA_MAX_RETRIES} retries: the device expects offset ${status.received}`);
+                //the device still holds a partial upload of another image
+                offset = status.sha256 == sha256 ? status.received : 0;
+            }
+            this.setProgress(`Progress: ${(offset / total * 100).toFixed(0)}%`, offset / total * 100);
+        }
+    }
 
-            let percent = (e.loaded / e.total * 100).toFixed(0);
-            this.lblProgress.value!.textContent = "Progress: " + percent + "%";
-            this.prgbProgress.value!.value = percent;
-        };
-        console.log(`Trying to POST ${UPLOAD_URL}`);
-        xhr.open("POST", UPLOAD_URL, true);
-        xhr.send(file);
+    private async queryUploadOffset(sha256: string, fallback: number): Promise<number> {
+        try {
+            const status: IOtaStatus = await (await fetch(UPLOAD_URL)).json();
+            return status.sha256 == sha256 ? status.received : 0;
+        } catch (e) {
+            return fallback;
+        }
+    }
 
+    //the device restarts into the new firmware, which has to mark itself as valid
+    private async waitForValidFirmware(info: IAppImageInfo) {
+        const start = Date.now();
+        while (Date.now() - start < OTA_VALIDATION_TIMEOUT_MS) {
+            this.setProgress(`Waiting for the device to validate the new firmware (${((Date.now() - start) / 1000).toFixed(0)}s)...`, 100);
+            await new Promise(r => setTimeout(r, OTA_POLL_INTERVAL_MS));
+            let sd: ResponseSystemData;
+            try {
+                let b = new flatbuffers.Builder(1024);
+                b.finish(RequestWrapper.createRequestWrapper(b, Requests.RequestSystemData, RequestSystemData.createRequestSystemData(b)));
+                const rw = ResponseWrapper.getRootAsResponseWrapper(await this.appManagement.Request(Namespace.Value, b, { timeoutMs: OTA_POLL_INTERVAL_MS }));
+                if (rw.responseType() != Responses.ResponseSystemData) continue;
+                sd = rw.response(new ResponseSystemData());
+            } catch (e) {
+                continue;//device is restarting
+            }
+            this.onResponseSystemData(sd);
+            for (let i = 0; i < sd.partitionsLength(); i++) {
+                const p = sd.partitions(i)!;
+                if (p.type() != 0 || !p.running() || p.appName() != info.projectName || p.appVersion() != info.version) continue;
+                const state = otaStateToString(p.type(), p.subtype(), p.otaState());
+                if (p.otaState() == OTA_IMG_VALID) return;
+                if (p.otaState() == OTA_IMG_INVALID || p.otaState() == OTA_IMG_ABORTED) throw new Error(`New firmware is in state ${state}`);
+            }
+        }
+        throw new Error(`New firmware did not become valid within ${OTA_VALIDATION_TIMEOUT_MS / 1000}s`);
     }
 
     OnCreate(): void {
@@ -148,6 +286,9 @@ export class SystemController extends ScreenController {
     OnRestart(): void {
         this.sendRequestSystemdata();
     }
+    protected OnReconnect(): void {
+        this.sendRequestSystemdata();
+    }
     OnPause(): void {
     }
 
@@ -210,7 +351,7 @@ export class SystemController extends ScreenController {
                 </tr>
                 <tr>
                     <td>4.) Wait</td>
-                    <td>After Upload, the CPU is reset automatically. You have to reconnect after an appropriate waiting time</td>
+                    <td>After Upload, the CPU is reset automatically. The new firmware is polled until it has marked itself as valid</td>
                 </tr>
 
             </tbody>
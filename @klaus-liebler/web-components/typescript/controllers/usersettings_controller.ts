@@ -1,13 +1,26 @@
+import { Namespace as SysteminfoNamespace, RequestRestart, RequestWrapper as SysteminfoRequestWrapper, Requests as SysteminfoRequests } from "@generated/flatbuffers_ts/systeminfo";
 import {Namespace, RequestGetUserSettings, RequestSetUserSettings, RequestWrapper, Requests, ResponseGetUserSettings, ResponseSetUserSettings, ResponseWrapper, Responses } from "@generated/flatbuffers_ts/usersettings";
 import { ScreenController } from "./screen_controller";
 import * as flatbuffers from 'flatbuffers';
 
-import { BooleanItemRT, ConfigGroup, ConfigItemRT, EnumItemRT, IntegerItemRT, StringItemRT, ValueUpdater } from "@klaus-liebler/usersettings_runtime";
+import { BlobItemRT, BooleanItemRT, BuildConfigItemRt, ColorItemRT, ConfigItemRT, EnumItemRT, FloatItemRT, FormatSettingValue, IntegerItemRT, Ipv4ItemRT, IsSettingEnabled, IsSettingVisible, ISettingsExport, ISettingsGroup, ItemState, ItemStateClass, KeyOf, NormalizeSettingValue, SettingsSchema, SettingValue, StringItemRT, ValidateGroupValues, ValidateSettingValue, ValueUpdater } from "@klaus-liebler/usersettings_runtime";
 import { TemplateResult, html, render } from "lit-html";
 import { Ref, createRef, ref } from "lit-html/directives/ref.js";
 import { IAppManagement } from "../utils/interfaces.ts";
-import { OkDialog } from "../dialog_controller.ts";
+import { OkCancelDialog, OkDialog } from "../dialog_controller.ts";
 import { Severity } from "@klaus-liebler/commons";
+import "../../style/usersettings.css";
+
+//one row of the import preview
+interface IImportRow {
+    groupKey: string;
+    settingKey: string;
+    item: ConfigItemRT | null;//null, if the key is unknown
+    value: unknown;
+    state: ItemState;//NONSYNCHRONIZED: changed, SYNCHRONIZED: unchanged, NODATA: unknown, INVALID: invalid
+    message: string;
+    selected: boolean;
+}
 
 
 class ConfigGroupRT{
@@ -20,7 +33,7 @@ class ConfigGroupRT{
     public btnSave:Ref<HTMLButtonElement> = createRef();
     public btnUpdate:Ref<HTMLButtonElement> = createRef();
     public btnReset:Ref<HTMLButtonElement> = createRef();
-    constructor(private readonly groupCfg: ConfigGroup, private readonly appManagement:IAppManagement, private readonly itemKey2configItemRT:Map<string, ConfigItemRT>){}
+    constructor(private readonly groupCfg: ISettingsGroup, private readonly appManagement:IAppManagement, private readonly itemKey2configItemRT:Map<string, ConfigItemRT>, private readonly controller:UsersettingsController){}
 
     private Template=(itemTemplates:Array<TemplateResult<1>>)=>{
         return html`
@@ -30,7 +43,7 @@ class ConfigGroupRT{
             <span style="flex-grow:1; text-align:left; padding-left:10px;">${this.groupCfg.displayName}</span>
             <input ${ref(this.btnSave)}  @click=${(e:MouseEvent)=>this.onBtnSaveClicked(e)} disabled type="button" value="💾 Save Changes" />
             <input ${ref(this.btnUpdate)} @click=${(e:MouseEvent)=>this.onBtnUpdateClicked(e)} type="button" value=" ⟳ Fetch Values from Server" />
-            <input ${ref(this.btnReset)} @click=${(e:MouseEvent)=>this.onBtnResetClicked(e)} type="button" value=" 🗑 Reset Values" />
+            <input ${ref(this.btnReset)} @click=${(e:MouseEvent)=>this.onBtnResetClicked(e)} type="button" value=" 🗑 Reset to Defaults" />
         </button>
         <div ${ref(this.divPanel)} style="display:none">
             <table style="margin-top:0px">
@@ -43,33 +56,111 @@ class ConfigGroupRT{
         </div>
     </div>
     `}
-    private sendRequestGetUserSettings() {
+    private async request(b:flatbuffers.Builder):Promise<ResponseWrapper|null>{
+        try{
+            const bb = await this.appManagement.Request(Namespace.Value, b);
+            return ResponseWrapper.getRootAsResponseWrapper(bb);
+        }catch(e:any){
+            this.appManagement.ShowSnackbar(Severity.ERROR, `Request for settings group ${this.groupCfg.displayName} failed: ${e.message ?? e}`);
+            return null;
+        }
+    }
+
+    //returns false, if the request failed
+    public async Fetch() {
+        return this.sendRequestGetUserSettings();
+    }
+
+    public get DisplayName() {
+        return this.groupCfg.displayName;
+    }
+
+    //returns false, if the values are invalid or the device did not store all of them
+    public async Save() {
+        return this.sendRequestSetUserSettings();
+    }
+
+    //secrets are never sent by the firmware and an empty input means "unchanged", so they keep their current values
+    public ResetToDefaults() {
+        this.itemKey2configItemRT.forEach(v=>{ if(!v.definition.secret) v.ResetToDefault(); });
+    }
+
+    public SecretSettings() {
+        return [...this.itemKey2configItemRT.values()].filter(v=>v.definition.secret);
+    }
+
+    //updates visibility, enabled state and inline messages according to the current values; returns all validation errors of the group
+    public Evaluate():Array<string> {
+        const values=new Map<string, SettingValue>();
+        this.itemKey2configItemRT.forEach((item, key)=>values.set(key, item.Value()));
+        const key2messages=new Map<string, Array<string>>();
+        const errors=ValidateGroupValues(this.groupCfg, values).map(e=>{
+            e.keys.forEach(k=>key2messages.set(k, [...(key2messages.get(k) ?? []), e.message]));
+            return e.message;
+        });
+        this.itemKey2configItemRT.forEach((item, key)=>{
+            const visible=IsSettingVisible(this.groupCfg, item.definition, values);
+            const messages=key2messages.get(key) ?? [];
+            if(visible && !item.IsValid()){
+                messages.push(item.ValidationMessage());
+                errors.push(`${item.displayName}: ${item.ValidationMessage()}`);
+            }
+            item.SetVisible(visible);
+            item.SetEnabled(IsSettingEnabled(this.groupCfg, item.definition, values));
+            item.SetMessages(messages);
+        });
+        return errors;
+    }
+
+    private async sendRequestGetUserSettings() {
         let b = new flatbuffers.Builder(256);
         b.finish(
             RequestWrapper.createRequestWrapper(b,
                 Requests.RequestGetUserSettings,
-                RequestGetUserSettings.createRequestGetUserSettings(b, b.createString(this.groupCfg.Key))
+                RequestGetUserSettings.createRequestGetUserSettings(b, b.createString(KeyOf(this.groupCfg)))
             )
         )
-        this.appManagement.SendFinishedBuilder(Namespace.Value, b);
+        const rw = await this.request(b);
+        if(rw?.responseType()==Responses.ResponseGetUserSettings){
+            this.controller.onResponseGetUserSettings(rw);
+            return true;
+        }
+        return false;
     }
 
-    private sendRequestSetUserSettings() {
+    //returns null, if no value has been changed
+    public BuildRequestSetUserSettings():flatbuffers.Builder|null {
         let b = new flatbuffers.Builder(1024);
         let vectorOfSettings:number[]=[];
         for(let v of this.itemKey2configItemRT!.values()){
             if(!v.HasAChangedValue()) continue;
             vectorOfSettings.push(v.WriteToFlatbufferBufferAndReturnSettingWrapperOffset(b));
         }
+        if(vectorOfSettings.length==0) return null;
         b.finish(RequestWrapper.createRequestWrapper(
             b,
             Requests.RequestSetUserSettings,
             RequestSetUserSettings.createRequestSetUserSettings(
-                b,b.createString(this.groupCfg.Key), ResponseGetUserSettings.createSettingsVector(b, vectorOfSettings)
+                b,b.createString(KeyOf(this.groupCfg)), ResponseGetUserSettings.createSettingsVector(b, vectorOfSettings)
             )
 
         ))
-        this.appManagement.SendFinishedBuilder(Namespace.Value, b);
+        return b;
+    }
+
+    private async sendRequestSetUserSettings() {
+        const errors=this.Evaluate();
+        if(errors.length>0){
+            this.appManagement.ShowSnackbar(Severity.WARN, `${this.groupCfg.displayName} has invalid values: ${errors.join("; ")}`);
+            return false;
+        }
+        const b = this.BuildRequestSetUserSettings();
+        if(!b) return true;
+        const rw = await this.request(b);
+        if(rw?.responseType()==Responses.ResponseSetUserSettings){
+            return this.controller.onResponseSetUserSettings(rw);
+        }
+        return false;
     }
 
     private onBtnOpenCloseClicked(e:MouseEvent){
@@ -99,15 +190,19 @@ class ConfigGroupRT{
     }
 
     private onBtnResetClicked(e:MouseEvent){
-        this.onBtnUpdateClicked(e)
+        this.controller.ResetToDefaults([this], `all settings of ${this.groupCfg.displayName}`);
         e.stopPropagation()
     }
+    public RefreshIfOpen(){
+        if(this.panelOpen) this.sendRequestGetUserSettings();
+    }
+
     public BuildRtAndRender(templates:Array<TemplateResult<1>>, updater:ValueUpdater) {
         var itemTemplates:Array<TemplateResult<1>>=[];
-        for(const item of this.groupCfg.items){
-            var configItemRt = item.BuildConfigItemRt(this.groupCfg.displayName, updater)
+        for(const item of this.groupCfg.settings){
+            var configItemRt = BuildConfigItemRt(KeyOf(this.groupCfg), item, updater)
             itemTemplates.push(configItemRt.OverallTemplate());
-            this.itemKey2configItemRT.set(item.Key, configItemRt);
+            this.itemKey2configItemRT.set(KeyOf(item), configItemRt);
         }
         templates.push(this.Template(itemTemplates));
         return this.divPanel.value!;
@@ -116,12 +211,168 @@ class ConfigGroupRT{
 
 export class UsersettingsController extends ScreenController implements ValueUpdater{
 
-    constructor(appManagement:IAppManagement, private readonly cfg:Array<ConfigGroup>){
+    constructor(appManagement:IAppManagement, private readonly cfg:SettingsSchema){
         super(appManagement)
     }
 
     private mainElement:Ref<HTMLElement>= createRef();
-    public Template = () => html`<h1>User Settings</h1><section ${ref(this.mainElement)}></section>`
+    private divImportPreview:Ref<HTMLElement>= createRef();
+    private inpImport:Ref<HTMLInputElement>= createRef();
+    private importRows:Array<IImportRow>=[];
+    public Template = () => html`<h1>User Settings</h1>
+    <div class="usersettings-toolbar">
+        <input @click=${()=>this.onBtnExportClicked()} type="button" value="⤓ Export" />
+        <input ${ref(this.inpImport)} @change=${()=>this.onImportFileSelected()} type="file" accept=".json" style="display:none" />
+        <input @click=${()=>this.inpImport.value!.click()} type="button" value="⤒ Import" />
+        <input @click=${()=>this.ResetToDefaults([...this.groupKey2configGroupRT.values()], "all settings of all groups")} type="button" value="🗑 Reset all to Defaults" />
+    </div>
+    <section ${ref(this.divImportPreview)}></section>
+    <section ${ref(this.mainElement)}></section>`
+
+    //values of the device are necessary for exports and diffs, even if the group has never been opened
+    private async fetchAll(groups=[...this.groupKey2configGroupRT.values()]){
+        const results = await Promise.all(groups.map(g=>g.Fetch()));
+        return results.every(r=>r);
+    }
+
+    //returns the display names of the groups, that could not be saved
+    private async saveAll(groups:Iterable<ConfigGroupRT>){
+        const failed:Array<string>=[];
+        for(const g of groups){
+            if(!await g.Save()) failed.push(g.DisplayName);
+        }
+        return failed;
+    }
+
+    public ResetToDefaults(groups:Array<ConfigGroupRT>, what:string){
+        const secrets=groups.flatMap(g=>g.SecretSettings()).map(v=>v.displayName);
+        const secretsHint=secrets.length>0 ? ` Secret settings (${secrets.join(", ")}) cannot be reset and keep their current values.` : "";
+        this.appManagement.ShowDialog(new OkCancelDialog(Severity.WARN, `Do you really want to reset ${what} to the default values?${secretsHint}`, async (ok)=>{
+            if(!ok) return;
+            if(!await this.fetchAll(groups)) return;
+            groups.forEach(g=>g.ResetToDefaults());
+            const failed=await this.saveAll(groups);
+            if(failed.length>0){
+                this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `Resetting failed for ${failed.join(", ")}`));
+            }
+        }));
+    }
+
+    private async onBtnExportClicked(){
+        if(!await this.fetchAll()) return;
+        const exported:ISettingsExport={ exported: new Date().toISOString(), groups: {} };
+        this.groupKey2itemKey2configItemRT.forEach((items, groupKey)=>{
+            const values:{ [settingKey: string]: SettingValue }={};
+            items.forEach((item, settingKey)=>{
+                const v=item.DeviceValue();
+                if(v!==null && !item.definition.secret) values[settingKey]=v;
+            });
+            exported.groups[groupKey]=values;
+        });
+        const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `usersettings_${exported.exported.replace(/[:.]/g, "-")}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    private async onImportFileSelected(){
+        const file=this.inpImport.value!.files?.[0];
+        if(!file) return;
+        this.inpImport.value!.value="";
+        let imported:ISettingsExport;
+        try{
+            imported=JSON.parse(await file.text());
+            if(typeof imported?.groups!="object" || imported.groups===null) throw new Error("There are no groups");
+        }catch(e:any){
+            this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `${file.name} is not an export of user settings: ${e.message ?? e}`));
+            return;
+        }
+        if(!await this.fetchAll()) return;
+        this.importRows=this.diff(imported);
+        this.renderImportPreview();
+    }
+
+    private diff(imported:ISettingsExport):Array<IImportRow>{
+        const rows:Array<IImportRow>=[];
+        for(const [groupKey, values] of Object.entries(imported.groups)){
+            const items=this.groupKey2itemKey2configItemRT.get(groupKey);
+            for(const [settingKey, value] of Object.entries(values ?? {})){
+                const item=items?.get(settingKey) ?? null;
+                const row:IImportRow={ groupKey, settingKey, item, value, state: ItemState.NODATA, message: items ? "unknown setting" : "unknown group", selected: false };
+                rows.push(row);
+                if(!item) continue;
+                if(item.definition.readOnly){
+                    row.state=ItemState.SYNCHRONIZED;
+                    row.message="read only";
+                    continue;
+                }
+                const error=ValidateSettingValue(item.definition, value);
+                if(error){
+                    row.state=ItemState.INVALID;
+                    row.message=error;
+                    continue;
+                }
+                const changed=NormalizeSettingValue(item.definition, value as SettingValue)!==item.DeviceValue();
+                row.state=changed ? ItemState.NONSYNCHRONIZED : ItemState.SYNCHRONIZED;
+                row.message=changed ? "changed" : "unchanged";
+                row.selected=changed;
+            }
+        }
+        return rows;
+    }
+
+    private formatValue(item:ConfigItemRT|null, v:unknown){
+        if(v===null) return "-";
+        return item && ValidateSettingValue(item.definition, v)===null ? FormatSettingValue(item.definition, v as SettingValue) : JSON.stringify(v);
+    }
+
+    private renderImportPreview(){
+        render(this.importRows.length==0 ? html`` : html`
+        <div class="usersettings-import">
+            <h2>Import Preview</h2>
+            <table>
+                <thead>
+                    <tr><th></th><th>Group</th><th>Setting</th><th>Device</th><th>File</th><th>Status</th></tr>
+                </thead>
+                <tbody>${this.importRows.map(r=>html`
+                    <tr class=${ItemStateClass(r.state)}>
+                        <td><input type="checkbox" .checked=${r.selected} ?disabled=${r.state!=ItemState.NONSYNCHRONIZED} @change=${(e:Event)=>r.selected=(<HTMLInputElement>e.target).checked} /></td>
+                        <td>${r.groupKey}</td>
+                        <td>${r.item?.displayName ?? r.settingKey}</td>
+                        <td>${r.item ? this.formatValue(r.item, r.item.DeviceValue()) : "-"}</td>
+                        <td>${this.formatValue(r.item, r.value)}</td>
+                        <td>${r.message}</td>
+                    </tr>`)}
+                </tbody>
+            </table>
+            <input @click=${()=>this.onBtnApplyImportClicked()} type="button" value="✔ Apply selected" />
+            <input @click=${()=>this.closeImportPreview()} type="button" value="✖ Cancel" />
+        </div>`, this.divImportPreview.value!);
+    }
+
+    private closeImportPreview(){
+        this.importRows=[];
+        this.renderImportPreview();
+    }
+
+    private async onBtnApplyImportClicked(){
+        const selected=this.importRows.filter(r=>r.selected && r.item);
+        const groups=new Set<ConfigGroupRT>();
+        for(const r of selected){
+            r.item!.SetValue(r.value as SettingValue);
+            groups.add(this.groupKey2configGroupRT.get(r.groupKey)!);
+        }
+        const failed=await this.saveAll(groups);
+        this.closeImportPreview();
+        if(failed.length>0){
+            this.appManagement.ShowDialog(new OkDialog(Severity.ERROR, `Import failed for ${failed.join(", ")}; the other groups have been saved`));
+            return;
+        }
+        this.appManagement.ShowSnackbar(Severity.SUCCESS, `${selected.length} settings imported`);
+    }
 
     UpdateSaveButton(groupKey:string){
         let group=this.groupKey2itemKey2configItemRT.get(groupKey);
@@ -133,11 +384,13 @@ export class UsersettingsController extends ScreenController implements ValueUpd
             }
         }
         let gc=this.groupKey2configGroupRT.get(groupKey)!;
-        gc.btnSave.value!.disabled=!atLeastOneHasChanged;
+        const valid=gc.Evaluate().length==0;
+        gc.btnSave.value!.disabled=!atLeastOneHasChanged || !valid;
     }
 
     UpdateString(groupName:string, i:StringItemRT, v:string): void {
-        console.log(`${i.displayName}=${v}`);
+        //secrets must not end up in the console
+        console.log(`${i.displayName}=${i.definition.secret ? "••••••" : v}`);
         this.UpdateSaveButton(groupName);
        
     }
@@ -154,6 +407,23 @@ export class UsersettingsController extends ScreenController implements ValueUpd
         console.log(`${i.displayName}=${selectedIndex}`);
         this.UpdateSaveButton(groupName);
     }
+    UpdateFloat(groupName:string, i: FloatItemRT, v: number): void {
+        this.UpdateSaveButton(groupName);
+    }
+    UpdateBlob(groupName:string, i: BlobItemRT, v: Uint8Array): void {
+        this.UpdateSaveButton(groupName);
+    }
+    UpdateIpv4(groupName:string, i: Ipv4ItemRT, v: string): void {
+        this.UpdateSaveButton(groupName);
+    }
+    UpdateColor(groupName:string, i: ColorItemRT, v: string): void {
+        this.UpdateSaveButton(groupName);
+    }
+
+    //one request per group with changed values, e.g. to push the changes to other devices of a fleet
+    public BuildRequestsSetUserSettings():Array<flatbuffers.Builder>{
+        return [...this.groupKey2configGroupRT.values()].map(g=>g.BuildRequestSetUserSettings()).filter((b):b is flatbuffers.Builder=>b!==null);
+    }
 
     private groupKey2itemKey2configItemRT = new Map<string, Map<string,ConfigItemRT>>();
     private groupKey2configGroupRT = new Map<string, ConfigGroupRT>();
@@ -177,15 +447,17 @@ export class UsersettingsController extends ScreenController implements ValueUpd
                 break;
         }
     }
-    public onResponseSetUserSettings(messageWrapper: ResponseWrapper): void{
+    //returns false, if not all settings of the group have been stored
+    public onResponseSetUserSettings(messageWrapper: ResponseWrapper): boolean{
         let resp = <ResponseSetUserSettings>messageWrapper.response(new ResponseSetUserSettings());
         let groupRtMap=this.groupKey2itemKey2configItemRT.get(resp.groupKey()!);
         if(!groupRtMap){
             this.appManagement.ShowDialog(new OkDialog(Severity.WARN, `Received settings for unknown group index ${resp.groupKey()}`));
-            return;
+            return false;
         }
         groupRtMap.forEach((v,_k,_m)=>{v.Flag=false});
         let unknownKeys:string[]=[];
+        let restartRequiredFor:string[]=[];
         for (let i = 0; i < resp.settingKeysLength(); i++) {
             let key = resp.settingKeys(i);
             let itemRt = groupRtMap.get(key);
@@ -195,6 +467,7 @@ export class UsersettingsController extends ScreenController implements ValueUpd
             }
             itemRt.ConfirmSuccessfulWrite();
             itemRt.Flag=true;
+            if(itemRt.definition.requiresRestart) restartRequiredFor.push(itemRt.displayName);
         }
         let nonStoredEntryKeys:string[]=[];
         groupRtMap.forEach((v,_k,_m)=>{
@@ -206,6 +479,16 @@ export class UsersettingsController extends ScreenController implements ValueUpd
             this.appManagement.ShowDialog(new OkDialog(Severity.WARN, `The following errors occured while receiving data for ${resp.groupKey()}: Unknown names: ${unknownKeys.join(", ")}; No successful storage for: ${nonStoredEntryKeys.join(", ")};`));
         }
         groupRtMap.forEach((v,_k,_m)=>{v.Flag=false});
+        if(restartRequiredFor.length!=0){
+            this.appManagement.ShowDialog(new OkCancelDialog(Severity.INFO, `${restartRequiredFor.join(", ")} will take effect after a restart. Restart now?`, (ok)=>{ if(ok) this.sendRequestRestart(); }));
+        }
+        return unknownKeys.length==0 && nonStoredEntryKeys.length==0;
+    }
+
+    private sendRequestRestart() {
+        let b = new flatbuffers.Builder(1024);
+        b.finish(SysteminfoRequestWrapper.createRequestWrapper(b, SysteminfoRequests.RequestRestart, RequestRestart.createRequestRestart(b)));
+        this.appManagement.SendFinishedBuilder(SysteminfoNamespace.Value, b);
     }
     
     public onResponseGetUserSettings(messageWrapper: ResponseWrapper): void{
@@ -230,11 +513,15 @@ export class UsersettingsController extends ScreenController implements ValueUpd
         }
         let nonUpdatedEntries:string[]=[];
         itemKey2item.forEach((v,_k,_m)=>{
-            if(!v.Flag){
-                nonUpdatedEntries.push(v.displayName);
-                v.NoDataFromServerAvailable();
+            if(v.Flag) return;
+            if(v.definition.secret){
+                v.NoDataFromServerExpected();
+                return;
             }
+            nonUpdatedEntries.push(v.displayName);
+            v.NoDataFromServerAvailable();
         });
+        this.groupKey2configGroupRT.get(resp.groupKey()!)!.Evaluate();
         if(unknownKeys.length!=0 || nonUpdatedEntries.length!=0){
             this.appManagement.ShowDialog(new OkDialog(Severity.WARN, `The following errors occured while receiving data for ${resp.groupKey()}: Unknown keys: ${unknownKeys.join(", ")}; No updates for: ${nonUpdatedEntries.join(", ")};`));
         }
@@ -248,12 +535,13 @@ export class UsersettingsController extends ScreenController implements ValueUpd
         var templates:Array<TemplateResult<1>>=[]
         this.cfg.forEach((groupCfg, _groupIndex)=>{
             let itemDisplayName2configItemRT= new Map<string, ConfigItemRT>();
-            var groupRT = new ConfigGroupRT(groupCfg, this.appManagement, itemDisplayName2configItemRT);
+            var groupRT = new ConfigGroupRT(groupCfg, this.appManagement, itemDisplayName2configItemRT, this);
             groupRT.BuildRtAndRender(templates, this);
-            this.groupKey2configGroupRT.set(groupCfg.Key, groupRT);
-            this.groupKey2itemKey2configItemRT.set(groupCfg.Key, itemDisplayName2configItemRT);
+            this.groupKey2configGroupRT.set(KeyOf(groupCfg), groupRT);
+            this.groupKey2itemKey2configItemRT.set(KeyOf(groupCfg), itemDisplayName2configItemRT);
         });
         render(templates, this.mainElement.value!)
+        this.groupKey2configGroupRT.forEach(g=>g.Evaluate());
     }
    
     OnFirstStart(): void {
@@ -262,6 +550,9 @@ export class UsersettingsController extends ScreenController implements ValueUpd
     OnRestart(): void {
         this.onStart_or_onRestart();
     }
+    protected OnReconnect(): void {
+        this.groupKey2configGroupRT.forEach((g)=>g.RefreshIfOpen());
+    }
     OnPause(): void {
     }
 
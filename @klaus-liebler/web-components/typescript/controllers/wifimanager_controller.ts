@@ -167,6 +167,9 @@ export class WifimanagerController extends ScreenController {
     }
     OnRestart(): void {
 
+    }
+    protected OnReconnect(): void {
+        this.sendRequestWifiAccesspoints(false);
     }
     OnPause(): void {
 
@@ -104,23 +104,44 @@ export class OkCancelDialog extends SimpleDialogController {
     protected footerTemplate() { return html`<input @click=${() => this.okHandler("")} type="button" value="OK"></input><input @click=${() => this.cancelHandler()} type="button" value="Cancel"></input>` }
 }
 
+//shows preformatted text, e.g. the content of a file
+export class TextDialog extends SimpleDialogController {
+    constructor(headingStr: string, private text: string) {
+        super(headingStr, Severity.INFO, undefined)
+    }
+
+    protected mainTemplate() { return html`<pre>${this.text}</pre>` }
+    protected footerTemplate() { return html`<input @click=${() => this.okHandler("")} type="button" value="OK"></input>` }
+}
+
 export class FilelistDialog extends SimpleDialogWithInputController{
     
-    constructor(private files:string[], handler:((ok: boolean, filename: string) => any), private deletehandler: (ok: boolean, filename:string)=>any) {
+    //without filter, only json files are offered and the dialog stays open, when a file is opened or deleted. With filter, these actions close the dialog
+    constructor(private files:string[], handler:((ok: boolean, filename: string) => any), private deletehandler: (ok: boolean, filename:string)=>any, private filter?: (filename: string) => boolean) {
         super("Select File", "Please select a file to load", handler)
 
     }
 
+    private open(filename: string) {
+        if (this.filter) this.okHandler(filename);
+        else this.handler!(true, filename);
+    }
+
+    private delete(filename: string) {
+        if (this.filter) this.dialog.value!.close('Delete');
+        this.deletehandler(true, filename);
+    }
+
     protected mainTemplate(){
         return html`
         <table><thead><tr><th>File Name</th><th>File Operation</th></tr></thead><tbody>
-            ${this.files.filter(v=>v.endsWith(".json")).map((filename, num) =>
+            ${this.files.filter(this.filter ?? (v => v.endsWith(".json"))).map((filename, num) =>
             
-            html`<tr><td>${filename}</td><td><button @click=${() => this.handler!(true, filename)} type="button">${unsafeSVG(folderOpen)}</button><button @click=${() => this.deletehandler(true, filename)} type="button">${unsafeSVG(trash)}</button></td></tr>`
+            html`<tr><td>${filename}</td><td><button @click=${() => this.open(filename)} type="button">${unsafeSVG(folderOpen)}</button><button @click=${() => this.delete(filename)} type="button">${unsafeSVG(trash)}</button></td></tr>`
         )}</tbody></table>`
     
     }
 
-    protected footerTemplate() { return html`<input @click=${() => this.handler!(false, "")} type="button" value="Cancel"></input>` }
+    protected footerTemplate() { return html`<input @click=${() => this.filter ? this.cancelHandler() : this.handler!(false, "")} type="button" value="Cancel"></input>` }
     
 }
@@ -7,6 +7,9 @@ export * from "./controllers/screen_controller.ts"
 export * from "./controllers/systeminfo_controller.ts"
 export * from "./controllers/usersettings_controller.ts"
 export * from "./controllers/wifimanager_controller.ts"
+export * from "./controllers/messageinspector_controller.ts"
+export * from "./controllers/fleet_controller.ts"
+export * from "./controllers/files_controller.ts"
 export * from "./controllers/LiveViewController"
 export * from "./controllers/RecipeEditorController"
 export * from "./controllers/AnalyticsController"
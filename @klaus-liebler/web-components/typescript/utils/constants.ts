@@ -8,4 +8,14 @@ export const WS_URL_ESP32_AP = "wss://192.168.4.1:443/webmanager_ws"
 export const WS_URL_ESP32_STA = "wss://labathome_6550c0/webmanager_ws"
 export const HOST_PREFIX_ESP32_STA = "https://labathome_6550c0"
 export const UPLOAD_URL=URL_PREFIX+"/ota";
-export const LABBY_URL = URL_PREFIX+"/labathome"
\ No newline at end of file
+export const FILES_URL=URL_PREFIX+"/files";
+export const LABBY_URL = URL_PREFIX+"/labathome"
+//4-byte websocket framing header: the lower 16 bits carry the namespace, the upper 16 bits an optional correlation id.
+//The server echoes the correlation id in every response to a request. Id 0 means "no correlation" (plain messages and notifications)
+//Older firmware treats the whole header as namespace. So correlation ids are only sent, if the server selects the CORRELATION_SUBPROTOCOL;
+//otherwise the header is the plain namespace and responses are matched to the oldest pending request of their namespace.
+//Such firmware selects no subprotocol, which fails the handshake in browsers; see SubprotocolFallback
+export const NAMESPACE_MASK = 0xFFFF;
+export const CORRELATION_ID_SHIFT = 16;
+export const MAX_CORRELATION_ID = 0xFFFF;
+export const CORRELATION_SUBPROTOCOL = "webmanager.correlation.v1";
@@ -0,0 +1,132 @@
+import * as flatbuffers from "flatbuffers";
+import { CORRELATION_ID_SHIFT, CORRELATION_SUBPROTOCOL, MAX_CORRELATION_ID, NAMESPACE_MASK } from "./constants";
+import { SubprotocolFallback } from "./subprotocol_fallback";
+
+export enum DeviceState {
+    CONNECTING,
+    REACHABLE,
+    UNREACHABLE,
+}
+
+const RETRY_DELAY_MS = 10000;
+
+class PendingDeviceRequest {
+    constructor(public readonly namespace: number, public readonly resolve: (bb: flatbuffers.ByteBuffer) => void, public readonly reject: (reason: Error) => void, public readonly timeoutHandle: number) { }
+}
+
+//Lightweight websocket connection to one device of a fleet. In contrast to the AppController, it has no UI and only supports correlated requests
+export class DeviceConnection {
+    private socket: WebSocket | null = null;
+    private state = DeviceState.CONNECTING;
+    private correlationId2pendingRequest = new Map<number, PendingDeviceRequest>();
+    private lastCorrelationId = 0;
+    private correlationIdsSupported = false;
+    private subprotocol = new SubprotocolFallback(CORRELATION_SUBPROTOCOL);
+    private retryTimeoutHandle: number = -1;
+    private closed = true;
+
+    constructor(public readonly name: string, public readonly websocketUrl: string, private readonly onStateChanged: (d: DeviceConnection) => void) { }
+
+    public get State(): DeviceState {
+        return this.state;
+    }
+
+    public Connect() {
+        this.closed = false;
+        if (this.socket) return;
+        this.setState(DeviceState.CONNECTING);
+        const protocols = this.subprotocol.Protocols;
+        let opened = false;
+        this.socket = new WebSocket(this.websocketUrl, protocols);
+        this.socket.binaryType = 'arraybuffer';
+        this.socket.onopen = () => {
+            opened = true;
+            this.correlationIdsSupported = this.subprotocol.Opened(this.socket!.protocol);
+            this.setState(DeviceState.REACHABLE);
+        };
+        this.socket.onmessage = (event: MessageEvent<any>) => this.onWebsocketData(event.data);
+        //an error is always followed by a close event, which is handled there
+        this.socket.onerror = () => { };
+        this.socket.onclose = () => {
+            this.socket = null;
+            if (!opened && !this.closed && this.subprotocol.HandshakeFailed(protocols)) {
+                this.Connect();
+                return;
+            }
+            this.rejectAll(`Connection to ${this.name} has been closed`);
+            this.setState(DeviceState.UNREACHABLE);
+            if (!this.closed) {
+                this.retryTimeoutHandle = <number>(<unknown>setTimeout(() => this.Connect(), RETRY_DELAY_MS));
+            }
+        };
+    }
+
+    public Close() {
+        this.closed = true;
+        clearTimeout(this.retryTimeoutHandle);
+        this.socket?.close();
+    }
+
+    //fire and forget for requests, that are never answered (e.g. a restart); throws, if the device is not reachable
+    public Send(namespace: number, b: flatbuffers.Builder) {
+        if (!this.socket || this.socket.readyState != this.socket.OPEN) {
+            throw new Error(`${this.name} is not reachable`);
+        }
+        this.socket.send(this.frame(0, namespace, b));
+    }
+
+    public Request(namespace: number, b: flatbuffers.Builder, timeoutMs: number): Promise<flatbuffers.ByteBuffer> {
+        if (!this.socket || this.socket.readyState != this.socket.OPEN) {
+            return Promise.reject(new Error(`${this.name} is not reachable`));
+        }
+        this.lastCorrelationId = this.lastCorrelationId >= MAX_CORRELATION_ID ? 1 : this.lastCorrelationId + 1;
+        const correlationId = this.lastCorrelationId;
+        const buffer = this.frame(correlationId, namespace, b);
+        return new Promise<flatbuffers.ByteBuffer>((resolve, reject) => {
+            const timeoutHandle = <number>(<unknown>setTimeout(() => {
+                this.correlationId2pendingRequest.delete(correlationId);
+                reject(new Error(`${this.name} did not respond within ${timeoutMs}ms`));
+            }, timeoutMs));
+            this.correlationId2pendingRequest.set(correlationId, new PendingDeviceRequest(namespace, resolve, reject, timeoutHandle));
+            this.socket!.send(buffer);
+        });
+    }
+
+    private frame(correlationId: number, namespace: number, b: flatbuffers.Builder) {
+        const data = b.asUint8Array();
+        const buffer = new Uint8Array(4 + data.byteLength);
+        const headerCorrelationId = this.correlationIdsSupported ? correlationId : 0;
+        new DataView(buffer.buffer).setUint32(0, ((headerCorrelationId << CORRELATION_ID_SHIFT) | (namespace & NAMESPACE_MASK)) >>> 0, true);
+        buffer.set(data, 4);
+        return buffer;
+    }
+
+    private onWebsocketData(arrayBuffer: ArrayBuffer) {
+        const header = new DataView(arrayBuffer).getUint32(0, true);
+        let correlationId = header >>> CORRELATION_ID_SHIFT;
+        if (correlationId == 0 && !this.correlationIdsSupported) {
+            //older firmware: the oldest pending request of the namespace gets the response
+            correlationId = [...this.correlationId2pendingRequest.entries()].find(([_id, p]) => p.namespace == (header & NAMESPACE_MASK))?.[0] ?? 0;
+        }
+        const p = this.correlationId2pendingRequest.get(correlationId);
+        //notifications are of no interest in the fleet view
+        if (correlationId == 0 || !p || p.namespace != (header & NAMESPACE_MASK)) return;
+        clearTimeout(p.timeoutHandle);
+        this.correlationId2pendingRequest.delete(correlationId);
+        p.resolve(new flatbuffers.ByteBuffer(new Uint8Array(arrayBuffer, 4)));
+    }
+
+    private rejectAll(reason: string) {
+        this.correlationId2pendingRequest.forEach(p => {
+            clearTimeout(p.timeoutHandle);
+            p.reject(new Error(reason));
+        });
+        this.correlationId2pendingRequest.clear();
+    }
+
+    private setState(state: DeviceState) {
+        if (this.state == state) return;
+        this.state = state;
+        this.onStateChanged(this);
+    }
+}
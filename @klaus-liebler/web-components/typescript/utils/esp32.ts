@@ -1,4 +1,4 @@
-export const chip2name = new Map<number, string>([[1, "ESP32"], [2, "ESP32-S2"], [9, "ESP32-S3"], [5, "ESP32-C3"], [6, "ESP32-H2"], [12, "ESP32-C2"]]);
+export const chip2name = new Map<number, string>([[1, "ESP32"], [2, "ESP32-S2"], [9, "ESP32-S3"], [5, "ESP32-C3"], [12, "ESP32-C2"], [13, "ESP32-C6"], [16, "ESP32-H2"], [18, "ESP32-P4"]]);
 export const chipfeature = new Map<number, string>([[0, "Embedded Flash Memory"], [1, "2.4GHz WiFi"], [4, "Bluetooth LE"], [5, "Bluetooth Classic"], [6, "IEEE 802.15.4"], [7, "Embedded Psram"]]);/* Chip feature flags, used in esp_chip_info_t */
 
 
@@ -86,4 +86,92 @@ export function findChipFeatures(featuresBitSet: number): string {
     }
   }
   return s;
-}
\ No newline at end of file
+}
+
+export const OTA_IMG_VALID = 2;
+export const OTA_IMG_INVALID = 3;
+export const OTA_IMG_ABORTED = 4;
+
+const ESP_IMAGE_HEADER_MAGIC = 0xE9;
+const ESP_IMAGE_HEADER_SIZE = 24;
+const ESP_IMAGE_SEGMENT_HEADER_SIZE = 8;
+const ESP_IMAGE_CHECKSUM_SEED = 0xEF;
+const ESP_APP_DESC_MAGIC_WORD = 0xABCD5432;
+
+export interface IAppImageInfo {
+  chipModel: number;//same numbering as ResponseSystemData.chipModel
+  segmentCount: number;
+  minChipRevision: number;
+  projectName: string;
+  version: string;
+  date: string;
+  time: string;
+  idfVersion: string;
+  secureVersion: number;
+  checksumValid: boolean;
+  sha256Valid: boolean | null;//null, if no hash is appended
+}
+
+function readCString(bytes: Uint8Array, offset: number, maxLength: number): string {
+  const raw = bytes.subarray(offset, offset + maxLength);
+  const end = raw.indexOf(0);
+  return new TextDecoder().decode(end < 0 ? raw : raw.subarray(0, end));
+}
+
+//parses an ESP-IDF application image (esp_image_header_t, segments, checksum, optional SHA256) and its esp_app_desc_t
+export async function parseAppImage(image: ArrayBuffer): Promise<IAppImageInfo> {
+  const bytes = new Uint8Array(image);
+  const view = new DataView(image);
+  if (bytes.length < ESP_IMAGE_HEADER_SIZE + ESP_IMAGE_SEGMENT_HEADER_SIZE + 256) {
+    throw new Error(`File is too small for an application image (${bytes.length} bytes)`);
+  }
+  if (bytes[0] != ESP_IMAGE_HEADER_MAGIC) {
+    throw new Error(`Wrong magic byte 0x${bytes[0].toString(16)} (expected 0x${ESP_IMAGE_HEADER_MAGIC.toString(16)})`);
+  }
+  const segmentCount = bytes[1];
+  const imageChipId = view.getUint16(12, true);
+  const minChipRevision = bytes[14];
+  const hashAppended = bytes[23] == 1;
+
+  let pos = ESP_IMAGE_HEADER_SIZE;
+  let checksum = ESP_IMAGE_CHECKSUM_SEED;
+  for (let i = 0; i < segmentCount; i++) {
+    if (pos + ESP_IMAGE_SEGMENT_HEADER_SIZE > bytes.length) throw new Error(`Segment ${i} header exceeds the file`);
+    const dataLength = view.getUint32(pos + 4, true);
+    pos += ESP_IMAGE_SEGMENT_HEADER_SIZE;
+    if (pos + dataLength > bytes.length) throw new Error(`Segment ${i} data exceeds the file`);
+    for (let j = pos; j < pos + dataLength; j++) checksum ^= bytes[j];
+    pos += dataLength;
+  }
+  //the checksum is the last byte of a 16 byte block
+  const checksumPos = pos + (15 - pos % 16);
+  if (checksumPos >= bytes.length) throw new Error("Checksum is missing");
+  const checksumValid = bytes[checksumPos] == checksum;
+
+  let sha256Valid: boolean | null = null;
+  if (hashAppended) {
+    const hashPos = checksumPos + 1;
+    if (hashPos + 32 > bytes.length) throw new Error("SHA256 is missing");
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes.subarray(0, hashPos)));
+    sha256Valid = digest.every((v, i) => v == bytes[hashPos + i]);
+  }
+
+  //esp_app_desc_t is located at the beginning of the first segment
+  const desc = ESP_IMAGE_HEADER_SIZE + ESP_IMAGE_SEGMENT_HEADER_SIZE;
+  if (view.getUint32(desc, true) != ESP_APP_DESC_MAGIC_WORD) {
+    throw new Error("Application description is missing (wrong magic word)");
+  }
+  return {
+    chipModel: imageChipId == 0 ? 1 : imageChipId,//esp_chip_id_t equals esp_chip_model_t except for the ESP32
+    segmentCount,
+    minChipRevision,
+    secureVersion: view.getUint32(desc + 4, true),
+    version: readCString(bytes, desc + 16, 32),
+    projectName: readCString(bytes, desc + 48, 32),
+    time: readCString(bytes, desc + 80, 16),
+    date: readCString(bytes, desc + 96, 16),
+    idfVersion: readCString(bytes, desc + 112, 32),
+    checksumValid,
+    sha256Valid,
+  };
+}
@@ -0,0 +1,89 @@
+import { FILES_URL } from "./constants";
+
+//Client of the file API of the device (and of the websocket_file_testserver). Paths are relative to the root of the storage partition and start with "/"
+
+export interface IFileEntry {
+    name: string;
+    dir: boolean;
+    size: number;
+    modified: number;//ms since epoch
+}
+
+export interface IDirectoryListing {
+    files: Array<string>;
+    dirs: Array<string>;
+    entries: Array<IFileEntry>;
+    usedBytes: number;
+    quotaBytes: number | null;
+}
+
+export function joinPath(dir: string, name: string) {
+    return (dir.endsWith("/") ? dir : dir + "/") + name;
+}
+
+function fileUrl(path: string) {
+    return FILES_URL + path.split("/").map(encodeURIComponent).join("/");
+}
+
+//e.g. 404 for missing files or 507, if the quota of the storage partition is exceeded
+export class FilesError extends Error {
+    constructor(public readonly statusCode: number, message: string) {
+        super(`${message} (HTTP ${statusCode})`);
+    }
+}
+
+//the file API answers errors with {error:string}
+async function check(res: Response) {
+    if (res.ok) return res;
+    let message = res.statusText;
+    try {
+        message = ((await res.json()) as { error?: string }).error ?? message;
+    } catch { }
+    throw new FilesError(res.status, message);
+}
+
+export class FilesClient {
+    public async List(dir: string): Promise<IDirectoryListing> {
+        const listing: IDirectoryListing = await (await check(await fetch(fileUrl(dir.endsWith("/") ? dir : dir + "/")))).json();
+        listing.entries ??= [...listing.dirs.map(name => ({ name, dir: true, size: 0, modified: 0 })), ...listing.files.map(name => ({ name, dir: false, size: 0, modified: 0 }))];//older firmware only delivers the names
+        return listing;
+    }
+
+    //all files below dir with their path, depth first
+    public async ListRecursive(dir: string): Promise<Array<string>> {
+        const listing = await this.List(dir);
+        const ret = listing.files.map(f => joinPath(dir, f));
+        for (const d of listing.dirs) {
+            ret.push(...await this.ListRecursive(joinPath(dir, d)));
+        }
+        return ret;
+    }
+
+    //maxBytes: only the beginning of the file is read with a Range request, e.g. for a preview
+    public async Read(path: string, maxBytes?: number): Promise<{ data: ArrayBuffer, contentType: string, totalSize: number }> {
+        const res = await check(await fetch(fileUrl(path), maxBytes ? { headers: { Range: `bytes=0-${maxBytes - 1}` } } : {}));
+        const data = await res.arrayBuffer();
+        const range = res.headers.get("Content-Range")?.match(/\/(\d+)$/);
+        return { data, contentType: res.headers.get("Content-Type") ?? "application/octet-stream", totalSize: range ? parseInt(range[1]) : data.byteLength };
+    }
+
+    public async Write(path: string, data: BodyInit) {
+        await check(await fetch(fileUrl(path), { method: "POST", body: data }));
+    }
+
+    public async Mkdir(path: string) {
+        await check(await fetch(fileUrl(path.endsWith("/") ? path : path + "/"), { method: "POST" }));
+    }
+
+    public async Rename(from: string, to: string) {
+        await check(await fetch(`${fileUrl(from)}?renameTo=${encodeURIComponent("/files" + to)}`, { method: "POST" }));
+    }
+
+    public async Delete(path: string) {
+        await check(await fetch(fileUrl(path), { method: "DELETE" }));
+    }
+
+    public DownloadUrl(path: string) {
+        return fileUrl(path);
+    }
+}
@@ -20,14 +20,29 @@ export interface IHtmlRenderer {
 export interface IWebsocketMessageListener {
     OnMessage(namespace:number, byteBuffer: flatbuffers.ByteBuffer): void;
   }
+export type MessageDirection = "in" | "out";
+
+//sees every websocket message regardless of namespace, e.g. for debugging purposes
+export interface IWebsocketMessageTap {
+    OnTap(direction: MessageDirection, namespace:number, correlationId:number, data: Uint8Array): void;
+}
 export interface IScreenControllerHost {
    AddScreenController(url: string, urlPattern: RegExp, caption: TemplateResult<1>, controller:ScreenController):void;
 }
 
+export interface RequestOptions {
+    timeoutMs?: number;//the returned promise rejects, if no response arrived in time
+    modal?: boolean;//show the modal spinner as long as the request is pending
+}
+
 export interface IAppManagement {
     RegisterWebsocketMessageNamespace(listener: IWebsocketMessageListener, namespace: number): (() => void);
     Unregister(listener: IWebsocketMessageListener): void;
+    RegisterWebsocketMessageTap(tap: IWebsocketMessageTap): (() => void);
     SendFinishedBuilder(namespace:number, b:flatbuffers.Builder, maxlockingTimeMs?: number):void;
+    Request(namespace:number, b:flatbuffers.Builder, options?: RequestOptions):Promise<flatbuffers.ByteBuffer>;
     ShowSnackbar(severity: Severity, text: string): void;
     ShowDialog(dialogController: DialogController): void;
+    readonly WebsocketUrl: string;
+    SwitchDevice(websocketUrl: string): void;
 };
\ No newline at end of file
@@ -0,0 +1,31 @@
+//Browsers fail the handshake, if a subprotocol has been requested and the server does not select one (e.g. older firmware).
+//A failed handshake cannot be told apart from an unreachable server, so a socket that closed before it was open is retried once without the subprotocol
+export class SubprotocolFallback {
+    private rejected = false;
+
+    constructor(private readonly subprotocol: string) { }
+
+    public get Protocols(): Array<string> {
+        return this.rejected ? [] : [this.subprotocol];
+    }
+
+    //to be called with WebSocket.protocol of the opened socket
+    public Opened(protocol: string): boolean {
+        return protocol == this.subprotocol;
+    }
+
+    //to be called, if a socket created with "protocols" closed before it was open; true means: connect again immediately
+    public HandshakeFailed(protocols: Array<string>): boolean {
+        if (protocols.length > 0) {
+            this.rejected = true;
+            return true;
+        }
+        //the server was not reachable at all, so the next attempt asks for the subprotocol again
+        this.rejected = false;
+        return false;
+    }
+
+    public Reset() {
+        this.rejected = false;
+    }
+}
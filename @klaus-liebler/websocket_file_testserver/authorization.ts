@@ -0,0 +1,146 @@
+import http from "node:http"
+import * as fs from "node:fs"
+import * as path from "node:path"
+import * as forge from "node-forge";
+import { PeerCertificate, TLSSocket } from "node:tls"
+import { ROLE_CLAIM_OID } from "@klaus-liebler/commons";
+
+//Role based authorization with client certificates.
+//Roles are assigned by rules on the attributes of the certificate, routes are granted to roles. All conditions of a rule have to match.
+//Requests without (valid) certificate only have the role "anonymous", every authenticated requester additionally has the role "authenticated"
+
+export const ANONYMOUS_ROLE = "anonymous";
+export const AUTHENTICATED_ROLE = "authenticated";
+
+export interface IRoleRule {
+    role: string;
+    cn?: string;//regex on the subject common name
+    san?: string;//regex on one of the subject alternative names in node notation, e.g. "DNS:labathome_123456" or "IP Address:192.168.4.1"
+    claim?: string;//role claim embedded in the certificate (ROLE_CLAIM_OID)
+    extension?: { oid: string, value?: string };//any custom extension; without value, its presence is sufficient
+}
+
+export interface IRouteRule {
+    route: string;//url prefix
+    methods?: Array<string>;//all methods, if not specified
+    roles: Array<string>;
+}
+
+export interface IAuthorizationPolicy {
+    roles: Array<IRoleRule>;
+    routes: Array<IRouteRule>;
+}
+
+//corresponds to the hard coded check of earlier versions
+export const DEFAULT_AUTHORIZATION_POLICY: IAuthorizationPolicy = {
+    roles: [{ role: "device", cn: "^(mosquitto|labathome)" }],
+    routes: [{ route: "/labathome", methods: ["GET"], roles: ["device"] }],
+};
+
+export interface IAuthorizationResult {
+    statusCode: number;//200, 401 or 403
+    message: string;
+    commonName: string | null;
+    roles: Array<string>;
+}
+
+//custom extensions are not available in PeerCertificate; forge.pki.certificateFromPem fails for ECDSA keys, so the extensions are read from the raw DER
+function readExtensions(raw: Buffer) {
+    const ret = new Map<string, string>();
+    const tbs = (forge.asn1.fromDer(raw.toString("binary")).value as Array<forge.asn1.Asn1>)[0].value as Array<forge.asn1.Asn1>;
+    const container = tbs.find(x => x.tagClass == forge.asn1.Class.CONTEXT_SPECIFIC && x.type == 3);
+    if (!container) return ret;
+    for (const ext of (container.value as Array<forge.asn1.Asn1>)[0].value as Array<forge.asn1.Asn1>) {
+        const v = ext.value as Array<forge.asn1.Asn1>;
+        ret.set(forge.asn1.derToOid(v[0].value as string), v[v.length - 1].value as string);
+    }
+    return ret;
+}
+
+//the value may be DER encoded (string or SEQUENCE OF strings) or plain bytes like the labathome flag
+function extensionValueAsStrings(bytes: string): Array<string> {
+    try {
+        const a = forge.asn1.fromDer(bytes);
+        if (typeof a.value == "string") return [forge.util.decodeUtf8(a.value)];
+        return (a.value as Array<forge.asn1.Asn1>).map(x => forge.util.decodeUtf8(x.value as string));
+    } catch {
+        return [forge.util.decodeUtf8(bytes)];
+    }
+}
+
+//the path as the FileService resolves it: percent escapes are decoded and dot segments are removed, so that "/files/public/%2e%2e/private" is checked as "/files/private".
+//Backslashes are treated as separators like on Windows. null, if the url cannot be decoded
+function normalizedPathOf(url: string) {
+    try {
+        return path.posix.resolve("/", decodeURIComponent(new URL(url, "http://localhost").pathname).replace(/\\/g, "/"));
+    } catch {
+        return null;
+    }
+}
+
+function matchesRoute(route: string, normalizedPath: string) {
+    const r = route.endsWith("/") ? route.slice(0, -1) : route;
+    return normalizedPath == r || normalizedPath.startsWith(r + "/");
+}
+
+function commonNameOf(peerCert: PeerCertificate) {
+    return String(peerCert.subject.CN);
+}
+
+export class AuthorizationPolicy {
+    constructor(private readonly policy: IAuthorizationPolicy = DEFAULT_AUTHORIZATION_POLICY) {}
+
+    public static Load(policyFile: string) {
+        const p = JSON.parse(fs.readFileSync(policyFile).toString()) as IAuthorizationPolicy;
+        console.info(`Authorization policy ${policyFile} with ${p.roles.length} role rules and ${p.routes.length} routes loaded`);
+        return new AuthorizationPolicy(p);
+    }
+
+    public RolesOf(peerCert: PeerCertificate): Array<string> {
+        const extensions = readExtensions(peerCert.raw);
+        const sans = peerCert.subjectaltname?.split(", ") ?? [];
+        const claims = extensions.has(ROLE_CLAIM_OID) ? extensionValueAsStrings(extensions.get(ROLE_CLAIM_OID)!) : [];
+        const roles = this.policy.roles.filter(r => {
+            if (r.cn && !new RegExp(r.cn).test(commonNameOf(peerCert))) return false;
+            if (r.san && !sans.some(s => new RegExp(r.san!).test(s))) return false;
+            if (r.claim && !claims.includes(r.claim)) return false;
+            if (r.extension) {
+                if (!extensions.has(r.extension.oid)) return false;
+                if (r.extension.value !== undefined && !extensionValueAsStrings(extensions.get(r.extension.oid)!).includes(r.extension.value)) return false;
+            }
+            return true;
+        }).map(r => r.role);
+        return [...new Set([ANONYMOUS_ROLE, AUTHENTICATED_ROLE, ...roles])];
+    }
+
+    //the most specific route wins; urls without a route are forbidden. A route matches whole path segments: "/files/public" matches "/files/public/x", but not "/files/publicity"
+    public IsAllowed(roles: Array<string>, method: string, url: string) {
+        const p = normalizedPathOf(url);
+        if (p === null) return false;
+        const route = this.policy.routes
+            .filter(r => matchesRoute(r.route, p) && (!r.methods || r.methods.includes(method)))
+            .sort((a, b) => b.route.length - a.route.length)[0];
+        return route ? route.roles.some(r => roles.includes(r)) : false;
+    }
+
+    public Authorize(req: http.IncomingMessage): IAuthorizationResult {
+        const socket = req.socket as TLSSocket;
+        const peerCert = socket.getPeerCertificate ? socket.getPeerCertificate() : null;
+        let roles = [ANONYMOUS_ROLE];
+        let commonName: string | null = null;
+        if (peerCert?.subject) {
+            commonName = commonNameOf(peerCert);
+            if (!socket.authorized) {
+                //e.g. CERT_REVOKED, UNABLE_TO_VERIFY_LEAF_SIGNATURE (other rootCA), CERT_HAS_EXPIRED
+                return { statusCode: 401, message: `Certificate of ${commonName} issued by ${peerCert.issuer.CN} is not accepted: ${socket.authorizationError}`, commonName, roles: [] };
+            }
+            roles = this.RolesOf(peerCert);
+        }
+        if (!this.IsAllowed(roles, req.method!, req.url!)) {
+            return commonName ?
+                { statusCode: 403, message: `Sorry ${commonName} (roles ${roles.join(", ")}), you are not allowed to ${req.method} ${req.url}`, commonName, roles } :
+                { statusCode: 401, message: `Sorry, but you need to provide a client certificate to continue.`, commonName, roles };
+        }
+        return { statusCode: 200, message: "", commonName, roles };
+    }
+}
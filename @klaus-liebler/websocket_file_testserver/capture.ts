@@ -0,0 +1,109 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { ISender } from "./utils";
+
+//A capture file contains one JSON record per line. Every record is a websocket frame between browser and device.
+//Recording: the test server is a proxy in front of a real device. Replay: the recorded device frames are sent back to the browser with the original timing
+
+export type CaptureDirection = "c2s" | "s2c";//client (browser) to server (device) and vice versa
+
+export interface ICaptureRecord {
+    t: number;//ms since start of recording
+    dir: CaptureDirection;
+    ns: number;
+    correlationId: number;
+    data: string;//base64 encoded flatbuffer without the 4-byte header
+}
+
+export class CaptureRecorder {
+    private readonly start = Date.now();
+    private readonly stream: fs.WriteStream;
+
+    constructor(public readonly captureFile: string) {
+        fs.mkdirSync(path.dirname(path.resolve(captureFile)), { recursive: true });
+        this.stream = fs.createWriteStream(captureFile, { flags: "w" });
+        console.info(`Recording websocket traffic to ${captureFile}`);
+    }
+
+    public Record(dir: CaptureDirection, ns: number, correlationId: number, data: Uint8Array) {
+        const r: ICaptureRecord = { t: Date.now() - this.start, dir, ns, correlationId, data: Buffer.from(data).toString("base64") };
+        this.stream.write(JSON.stringify(r) + "\n");
+    }
+
+    public Close() {
+        this.stream.end();
+    }
+}
+
+export function ReadCaptureFile(captureFile: string): Array<ICaptureRecord> {
+    return fs.readFileSync(captureFile).toString()
+        .split("\n")
+        .filter(l => l.trim() != "")
+        .map(l => JSON.parse(l) as ICaptureRecord);
+}
+
+//All device frames between a browser frame and the next browser frame are regarded as the answer to that browser frame
+class CaptureSegment {
+    constructor(public readonly request: ICaptureRecord | null, public readonly responses: Array<ICaptureRecord>) {}
+
+    public get StartTime() {
+        return this.request?.t ?? 0;
+    }
+}
+
+export class CaptureReplayer {
+    private readonly segments: Array<CaptureSegment> = [];
+    private connection2usedSegments = new Map<ISender, Set<CaptureSegment>>();
+    private connection2timers = new Map<ISender, Array<NodeJS.Timeout>>();
+
+    constructor(public readonly captureFile: string, private readonly speed: number = 1) {
+        let current = new CaptureSegment(null, []);
+        this.segments.push(current);
+        for (const r of ReadCaptureFile(captureFile)) {
+            if (r.dir == "c2s") {
+                current = new CaptureSegment(r, []);
+                this.segments.push(current);
+            } else {
+                current.responses.push(r);
+            }
+        }
+        console.info(`Replaying ${this.segments.length - 1} requests from ${captureFile}`);
+    }
+
+    public OnConnect(connection: ISender) {
+        this.connection2usedSegments.set(connection, new Set());
+        this.connection2timers.set(connection, []);
+        //frames, that the device sent before the first request of the browser
+        this.replay(this.segments[0], connection);
+    }
+
+    public OnDisconnect(connection: ISender) {
+        (this.connection2timers.get(connection) ?? []).forEach(t => clearTimeout(t));
+        this.connection2timers.delete(connection);
+        this.connection2usedSegments.delete(connection);
+    }
+
+    //notificationConnection is the connection passed to OnConnect; it owns the used segments and the timers
+    public OnRequest(ns: number, data: Uint8Array, notificationConnection: ISender, responseConnection: ISender) {
+        const used = this.connection2usedSegments.get(notificationConnection)!;
+        const base64 = Buffer.from(data).toString("base64");
+        const candidates = this.segments.filter(s => s.request && s.request.ns == ns && !used.has(s));
+        //prefer an identical request, otherwise take the next request of the same namespace
+        const segment = candidates.find(s => s.request!.data == base64) ?? candidates[0];
+        if (!segment) {
+            console.warn(`Capture contains no (further) request for namespace ${ns} --> no response`);
+            return;
+        }
+        used.add(segment);
+        this.replay(segment, responseConnection, notificationConnection);
+    }
+
+    private replay(segment: CaptureSegment, connection: ISender, timerOwner: ISender = connection) {
+        const timers = this.connection2timers.get(timerOwner)!;
+        for (const r of segment.responses) {
+            timers.push(setTimeout(() => {
+                connection.sendBytes(r.ns, new Uint8Array(Buffer.from(r.data, "base64")));
+            }, (r.t - segment.StartTime) / this.speed));
+        }
+    }
+}
@@ -0,0 +1,259 @@
+import http from "node:http"
+import * as fs from "node:fs"
+import * as path from "node:path"
+
+//Counterpart of the file API of the device. All paths are relative to the root directory, that models the storage partition:
+//GET /files/dir/ lists a directory, GET /files/dir/name reads a file (Range requests supported)
+//POST or PUT /files/dir/name writes a file, POST /files/dir/ creates a directory, POST /files/dir/name?renameTo=/files/other/name renames
+//DELETE /files/dir/name deletes a file or an empty directory
+//Errors are answered with {error:string}
+
+const FILES_URL = "/files";
+const BLOCK_SIZE = 4096;//LittleFS block size of the device; every file and directory occupies at least one block
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+    ".json": "application/json",
+    ".txt": "text/plain",
+    ".csv": "text/csv",
+    ".log": "text/plain",
+    ".html": "text/html",
+    ".css": "text/css",
+    ".js": "text/javascript",
+    ".svg": "image/svg+xml",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".ico": "image/x-icon",
+    ".wav": "audio/wav",
+    ".mp3": "audio/mpeg",
+    ".bin": "application/octet-stream",
+};
+
+export interface IFileEntry {
+    name: string;
+    dir: boolean;
+    size: number;
+    modified: number;//ms since epoch
+}
+
+export interface IDirectoryListing {
+    files: Array<string>;
+    dirs: Array<string>;
+    entries: Array<IFileEntry>;
+    usedBytes: number;
+    quotaBytes: number | null;
+}
+
+class FileServiceError extends Error {
+    constructor(public readonly statusCode: number, message: string) {
+        super(message);
+    }
+}
+
+function contentTypeOf(file: string) {
+    return CONTENT_TYPES[path.extname(file).toLowerCase()] ?? "application/octet-stream";
+}
+
+function blocksOf(size: number) {
+    return Math.max(1, Math.ceil(size / BLOCK_SIZE)) * BLOCK_SIZE;
+}
+
+export class FileService {
+    private readonly root: string;
+
+    //quotaBytes: size of the storage partition of the device; null=unlimited
+    constructor(rootDirectory: string, private readonly quotaBytes: number | null = null) {
+        this.root = path.resolve(rootDirectory);
+        fs.mkdirSync(this.root, { recursive: true });
+    }
+
+    public static IsFileUrl(url: string) {
+        return url == FILES_URL || url.startsWith(FILES_URL + "/") || url.startsWith(FILES_URL + "?");
+    }
+
+    //the request body is only read by writes, so that the quota is checked while the data arrives
+    public Handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        try {
+            const url = new URL(req.url!, "http://localhost");
+            let pathname: string;
+            try {
+                pathname = decodeURIComponent(url.pathname);
+            } catch {
+                throw new FileServiceError(400, `Invalid path ${url.pathname}`);
+            }
+            const p = this.sandboxed(pathname);
+            const isDirUrl = url.pathname.endsWith("/") || url.pathname == FILES_URL;
+            switch (req.method) {
+                case "GET":
+                    return isDirUrl ? this.list(res, p) : this.read(req, res, p);
+                case "POST":
+                case "PUT":
+                    if (url.searchParams.has("renameTo")) return this.rename(res, p, this.sandboxed(url.searchParams.get("renameTo")!));
+                    return isDirUrl ? this.mkdir(res, p) : this.write(req, res, p);
+                case "DELETE":
+                    return this.delete(res, p);
+                default:
+                    throw new FileServiceError(405, "Method not allowed");
+            }
+        } catch (e: unknown) {
+            this.sendError(req, res, e);
+        }
+    }
+
+    private sendError(req: http.IncomingMessage, res: http.ServerResponse, e: unknown) {
+        const statusCode = e instanceof FileServiceError ? e.statusCode : (e as NodeJS.ErrnoException).code == "ENOENT" ? 404 : 500;
+        const message = e instanceof Error ? e.message : String(e);
+        console.warn(`Files: ${req.method} ${req.url} failed with ${statusCode}: ${message}`);
+        req.resume();//a body, that has not been read, must not block the connection
+        this.sendJson(res, statusCode, { error: message });
+    }
+
+    //maps a decoded url path to the file system; "../" must not leave the root
+    private sandboxed(urlPath: string) {
+        if (!FileService.IsFileUrl(urlPath) || urlPath.includes("\0")) {
+            throw new FileServiceError(400, `Invalid path ${urlPath}`);
+        }
+        const p = path.resolve(this.root, "." + urlPath.substring(FILES_URL.length));
+        if (p != this.root && !p.startsWith(this.root + path.sep)) {
+            throw new FileServiceError(403, `Path ${urlPath} is outside of the file system`);
+        }
+        return p;
+    }
+
+    private usedBytes(dir: string = this.root): number {
+        let used = 0;
+        for (const e of fs.readdirSync(dir, { withFileTypes: true })) {
+            const p = path.join(dir, e.name);
+            used += e.isDirectory() ? BLOCK_SIZE + this.usedBytes(p) : blocksOf(fs.statSync(p).size);
+        }
+        return used;
+    }
+
+    private checkQuota(additionalBytes: number) {
+        if (this.quotaBytes === null) return;
+        const used = this.usedBytes();
+        if (used + additionalBytes > this.quotaBytes) {
+            throw new FileServiceError(507, `Not enough space: ${used} of ${this.quotaBytes} bytes used, ${additionalBytes} more bytes requested`);
+        }
+    }
+
+    //bytes a file may have, if it replaces a file with the given number of blocks; Infinity=unlimited
+    private maxFileSize(replacedBytes: number) {
+        if (this.quotaBytes === null) return Infinity;
+        const free = this.quotaBytes - this.usedBytes() + replacedBytes;
+        return Math.floor(free / BLOCK_SIZE) * BLOCK_SIZE;
+    }
+
+    private list(res: http.ServerResponse, dir: string) {
+        if (!fs.statSync(dir).isDirectory()) throw new FileServiceError(400, `${path.basename(dir)} is not a directory`);
+        const entries = fs.readdirSync(dir, { withFileTypes: true }).map(e => {
+            const s = fs.statSync(path.join(dir, e.name));
+            return { name: e.name, dir: e.isDirectory(), size: e.isDirectory() ? 0 : s.size, modified: s.mtimeMs } as IFileEntry;
+        });
+        const ret: IDirectoryListing = {
+            files: entries.filter(e => !e.dir).map(e => e.name),
+            dirs: entries.filter(e => e.dir).map(e => e.name),
+            entries,
+            usedBytes: this.usedBytes(),
+            quotaBytes: this.quotaBytes,
+        };
+        this.sendJson(res, 200, ret);
+    }
+
+    private read(req: http.IncomingMessage, res: http.ServerResponse, file: string) {
+        const s = fs.statSync(file);
+        if (s.isDirectory()) throw new FileServiceError(400, `${path.basename(file)} is a directory`);
+        const headers = { 'Content-Type': contentTypeOf(file), 'Accept-Ranges': 'bytes' };
+        const range = req.headers.range?.match(/^bytes=(\d*)-(\d*)$/);
+        if (!req.headers.range) {
+            return res.writeHead(200, { ...headers, 'Content-Length': s.size }).end(fs.readFileSync(file));
+        }
+        //bytes=first-last, bytes=first- or bytes=-suffixLength
+        let first = range && range[1] ? parseInt(range[1]) : NaN;
+        let last = range && range[2] ? parseInt(range[2]) : s.size - 1;
+        if (range && !range[1] && range[2]) {
+            first = Math.max(0, s.size - parseInt(range[2]));
+            last = s.size - 1;
+        }
+        last = Math.min(last, s.size - 1);
+        if (!range || isNaN(first) || first > last) {
+            return res.writeHead(416, { 'Content-Range': `bytes */${s.size}` }).end();
+        }
+        const b = Buffer.alloc(last - first + 1);
+        const fd = fs.openSync(file, "r");
+        try {
+            fs.readSync(fd, b, 0, b.length, first);
+        } finally {
+            fs.closeSync(fd);
+        }
+        res.writeHead(206, { ...headers, 'Content-Length': b.length, 'Content-Range': `bytes ${first}-${last}/${s.size}` }).end(b);
+    }
+
+    //the upload is rejected as soon as it exceeds the quota, either by its Content-Length or by the received bytes
+    private write(req: http.IncomingMessage, res: http.ServerResponse, file: string) {
+        const existing = fs.existsSync(file) ? fs.statSync(file) : null;
+        if (existing?.isDirectory()) throw new FileServiceError(409, `${path.basename(file)} is a directory`);
+        const limit = this.maxFileSize(existing ? blocksOf(existing.size) : 0);
+        const quotaError = (size: number) => new FileServiceError(507, `Not enough space: ${size} bytes do not fit into the ${limit} free bytes`);
+        const chunks: Array<Buffer> = [];
+        let received = 0;
+        let aborted = false;
+        const abort = (e: unknown) => {
+            aborted = true;
+            chunks.length = 0;
+            //the connection is closed after the answer, so the client stops sending the rest of the body
+            res.setHeader("Connection", "close");
+            res.once("finish", () => req.destroy());
+            this.sendError(req, res, e);
+        };
+        const contentLength = parseInt(req.headers["content-length"] ?? "");
+        if (contentLength > limit) return abort(quotaError(contentLength));
+        req.on("data", (chunk: Buffer) => {
+            if (aborted) return;
+            received += chunk.length;
+            if (received > limit) return abort(quotaError(received));
+            chunks.push(chunk);
+        });
+        req.on("end", () => {
+            if (aborted) return;
+            try {
+                const body = Buffer.concat(chunks);
+                fs.mkdirSync(path.dirname(file), { recursive: true });//missing directories are created like before
+                fs.writeFileSync(file, body);
+                this.sendJson(res, 200, { size: body.length });
+            } catch (e: unknown) {
+                this.sendError(req, res, e);
+            }
+        });
+    }
+
+    private mkdir(res: http.ServerResponse, dir: string) {
+        if (fs.existsSync(dir)) throw new FileServiceError(409, `${path.basename(dir)} already exists`);
+        this.checkQuota(BLOCK_SIZE);
+        fs.mkdirSync(dir, { recursive: true });
+        this.sendJson(res, 200, {});
+    }
+
+    private rename(res: http.ServerResponse, from: string, to: string) {
+        if (from == this.root || to == this.root) throw new FileServiceError(400, "The root directory cannot be renamed");
+        if (!fs.existsSync(from)) throw new FileServiceError(404, `${path.basename(from)} does not exist`);
+        if (fs.existsSync(to)) throw new FileServiceError(409, `${path.basename(to)} already exists`);
+        fs.renameSync(from, to);
+        this.sendJson(res, 200, {});
+    }
+
+    private delete(res: http.ServerResponse, p: string) {
+        if (p == this.root) throw new FileServiceError(400, "The root directory cannot be deleted");
+        if (fs.statSync(p).isDirectory()) {
+            if (fs.readdirSync(p).length > 0) throw new FileServiceError(409, `Directory ${path.basename(p)} is not empty`);
+            fs.rmdirSync(p);
+        } else {
+            fs.unlinkSync(p);
+        }
+        this.sendJson(res, 200, {});
+    }
+
+    private sendJson(res: http.ServerResponse, statusCode: number, o: object) {
+        res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(o));
+    }
+}
@@ -0,0 +1,115 @@
+import http from "node:http"
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { createHash } from "node:crypto";
+
+//Counterpart of the chunked OTA upload of the SystemController:
+//GET /ota returns the status of the current upload, POST /ota?offset=&total=&sha256= appends a chunk. The status always contains the number of bytes received so far.
+//POST /ota without query parameters is the legacy upload of the whole image in one request
+
+const ESP_IMAGE_HEADER_SIZE = 24;
+const ESP_IMAGE_SEGMENT_HEADER_SIZE = 8;
+const ESP_APP_DESC_MAGIC_WORD = 0xABCD5432;
+const VALIDATION_DELAY_MS = 5000;//the simulated device needs some time to restart and to validate the new firmware
+
+export interface IAppDescription {
+    projectName: string;
+    version: string;
+    date: string;
+    time: string;
+}
+
+function readCString(b: Buffer, offset: number, maxLength: number) {
+    const raw = b.subarray(offset, offset + maxLength);
+    const end = raw.indexOf(0);
+    return raw.subarray(0, end < 0 ? raw.length : end).toString();
+}
+
+export class OtaReceiver {
+    private chunks: Array<Buffer> = [];
+    private received = 0;
+    private total = 0;
+    private sha256 = "";
+    private installed: IAppDescription | null = null;
+    private installedAt = 0;
+
+    constructor(private readonly directory: string) {}
+
+    //the app of the last successful upload; null, if there was no upload yet
+    public get InstalledApp() {
+        return this.installed;
+    }
+
+    public get InstalledAppIsValid() {
+        return Date.now() - this.installedAt > VALIDATION_DELAY_MS;
+    }
+
+    public Handle(req: http.IncomingMessage, res: http.ServerResponse, body: Buffer) {
+        const url = new URL(req.url!, "http://localhost");
+        if (req.method == "GET") {
+            return this.sendStatus(res, 200);
+        }
+        if (req.method != "POST") {
+            return res.writeHead(405).end("Method not allowed");
+        }
+        if (!url.searchParams.has("offset")) {
+            this.reset(body.length, "");
+            return this.append(res, body);
+        }
+        const offset = parseInt(url.searchParams.get("offset")!);
+        const total = parseInt(url.searchParams.get("total") ?? "0");
+        const sha256 = url.searchParams.get("sha256") ?? "";
+        if (offset == 0) {
+            this.reset(total, sha256);
+        } else if (total != this.total || sha256 != this.sha256 || offset != this.received) {
+            console.warn(`OTA: unexpected chunk at offset ${offset}, expected ${this.received}`);
+            return this.sendStatus(res, 409);
+        }
+        this.append(res, body);
+    }
+
+    private reset(total: number, sha256: string) {
+        this.chunks = [];
+        this.received = 0;
+        this.total = total;
+        this.sha256 = sha256;
+    }
+
+    private append(res: http.ServerResponse, chunk: Buffer) {
+        if (this.received + chunk.length > this.total) {
+            return res.writeHead(400).end("Chunk exceeds the announced size");
+        }
+        this.chunks.push(chunk);
+        this.received += chunk.length;
+        console.log(`OTA: ${this.received}/${this.total} bytes received`);
+        if (this.received < this.total) {
+            return this.sendStatus(res, 200);
+        }
+        const image = Buffer.concat(this.chunks);
+        if (this.sha256 && createHash("sha256").update(image).digest("hex") != this.sha256) {
+            this.reset(0, "");
+            return res.writeHead(400).end("SHA256 of the received image does not match");
+        }
+        const desc = ESP_IMAGE_HEADER_SIZE + ESP_IMAGE_SEGMENT_HEADER_SIZE;
+        if (image.length < desc + 144 || image.readUint32LE(desc) != ESP_APP_DESC_MAGIC_WORD) {
+            this.reset(0, "");
+            return res.writeHead(400).end("Image contains no application description");
+        }
+        fs.mkdirSync(this.directory, { recursive: true });
+        fs.writeFileSync(path.join(this.directory, "firmware.bin"), image);
+        this.installed = {
+            version: readCString(image, desc + 16, 32),
+            projectName: readCString(image, desc + 48, 32),
+            time: readCString(image, desc + 80, 16),
+            date: readCString(image, desc + 96, 16),
+        };
+        this.installedAt = Date.now();
+        console.info(`OTA: ${this.installed.projectName} ${this.installed.version} installed`);
+        this.sendStatus(res, 200);
+    }
+
+    private sendStatus(res: http.ServerResponse, statusCode: number) {
+        res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ received: this.received, total: this.total, sha256: this.sha256 }));
+    }
+}
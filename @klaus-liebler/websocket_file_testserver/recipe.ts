@@ -0,0 +1,549 @@
+import * as fs from "node:fs"
+import path from "node:path"
+import * as flatbuffers from "flatbuffers"
+import { randomBytes } from "node:crypto";
+import { RequestWrapper } from "@generated/flatbuffers_ts/recipemanagement/request-wrapper";
+import { Requests } from "@generated/flatbuffers_ts/recipemanagement/requests";
+import { RequestJson } from "@generated/flatbuffers_ts/recipemanagement/request-json";
+import { ResponseWrapper } from "@generated/flatbuffers_ts/recipemanagement/response-wrapper";
+import { Responses } from "@generated/flatbuffers_ts/recipemanagement/responses";
+import { ResponseJson } from "@generated/flatbuffers_ts/recipemanagement/response-json";
+import { JsonPayload } from "@generated/flatbuffers_ts/recipemanagement/json-payload";
+import { ISender, NamespaceAndHandler } from "./utils";
+
+//Simulates the recipe engine of the device. Commands and responses are JSON strings (see web-components/typescript/recipe_management/types.ts)
+
+const RECIPE_NAMESPACE = 11;
+const RECIPESTORE_BASE_DIRECTORY = "recipestore";
+const RECIPES_DIRECTORY = "recipes";
+const TIMESERIES_DIRECTORY = "timeseries";
+const EXECUTIONS_FILEPATH = "executions.json";
+const PINS_FILEPATH = "pins.json";
+const TICK_MS = 500;
+const AMBIENT_TEMPERATURE = 22;
+const MAX_HEATER_TEMPERATURE = 120;
+const TSRD_MAGIC_NUMBER = 0x54535244;
+const TSRD_VERSION = 1;
+
+type Role = 'Admin' | 'RecipeEditor' | 'RecipeStarter' | 'Observer';
+type StepState = 'activating' | 'active' | 'deactivating' | 'idle';
+type RecipeStatus = 'running' | 'paused' | 'stopped' | 'completed' | 'error';
+
+const ROLE_HIERARCHY: Record<Role, number> = { Observer: 0, RecipeStarter: 1, RecipeEditor: 2, Admin: 3 };
+const DEFAULT_PINS: Record<Role, string> = { Admin: "0000", RecipeEditor: "1111", RecipeStarter: "2222", Observer: "3333" };
+
+//minimum role for each command; commands that are not listed here are allowed for everyone
+const COMMAND2ROLE: Record<string, Role> = {
+    start_recipe: 'RecipeStarter',
+    stop_recipe: 'RecipeStarter',
+    pause_recipe: 'RecipeStarter',
+    resume_recipe: 'RecipeStarter',
+    acknowledge_step: 'RecipeStarter',
+    save_recipe: 'RecipeEditor',
+    delete_recipe: 'RecipeEditor',
+    delete_execution: 'RecipeEditor',
+    change_pin: 'Observer',
+};
+
+interface StepConfig {
+    stepTypeId: string;
+    parameters: Record<string, string>;
+    aliases: Record<string, string>;
+    order: number;
+}
+
+interface Recipe {
+    id: string;
+    name: string;
+    description: string;
+    steps: StepConfig[];
+    author: string;
+    version: string;
+    createdAt?: number;
+    lastModified?: number;
+    globalParameters?: Record<string, string>;
+}
+
+interface Execution {
+    executionId: string;
+    recipeId: string;
+    recipeName: string;
+    startTime: number;
+    endTime: number;
+    duration: number;
+    status: string;
+    errorMessage: string;
+    globalParameters?: Record<string, string>;
+}
+
+interface SensorSeries {
+    sensorName: string;
+    unit: string;
+    points: Array<{ t: number, value: number }>;//t relative to execution start in ms
+}
+
+interface Process {
+    temperature: number;
+    rpm: number;
+    heaterOn: boolean;
+    targetRpm: number;
+}
+
+class StepType {
+    constructor(
+        public readonly metadata: any,
+        public readonly onTick: (p: Process, step: StepConfig, activeMs: number) => number,//returns the progress of the step 0..1; >=1 means finished
+        public readonly instruction: (step: StepConfig) => string = () => "",
+        public readonly needsAcknowledgment: boolean = false,
+    ) {}
+}
+
+function param(step: StepConfig, name: string, fallback: number): number {
+    const v = parseFloat(step.parameters?.[name]);
+    return isNaN(v) ? fallback : v;
+}
+
+const STEP_TYPES: Array<StepType> = [
+    new StepType({
+        typeId: "heat_to", displayName: "Heat to", description: "Heats until the target temperature is reached", category: "Temperature",
+        parameters: [
+            { name: "targetTemperature", type: "float", description: "Target temperature", defaultValue: "60", minValue: "20", maxValue: "100", required: true, unit: "°C" },
+        ],
+        ioAliases: [
+            { aliasName: "HEATER", isInput: false, isOutput: true, isSensor: false, valueType: "bool", description: "Heater relay", defaultPhysicalName: "RELAY0", unit: "" },
+            { aliasName: "TEMPERATURE", isInput: true, isOutput: false, isSensor: true, valueType: "float", description: "Temperature sensor", defaultPhysicalName: "TEMP0", unit: "°C" },
+        ],
+    }, (p, step) => {
+        const target = param(step, "targetTemperature", 60);
+        p.heaterOn = p.temperature < target;
+        return p.heaterOn ? Math.min(0.99, (p.temperature - AMBIENT_TEMPERATURE) / Math.max(1, target - AMBIENT_TEMPERATURE)) : 1;
+    }),
+    new StepType({
+        typeId: "hold_temperature", displayName: "Hold temperature", description: "Holds the temperature for a given time", category: "Temperature",
+        parameters: [
+            { name: "targetTemperature", type: "float", description: "Target temperature", defaultValue: "60", minValue: "20", maxValue: "100", required: true, unit: "°C" },
+            { name: "durationS", type: "int", description: "Duration", defaultValue: "30", minValue: "1", maxValue: "3600", required: true, unit: "s" },
+        ],
+        ioAliases: [
+            { aliasName: "HEATER", isInput: false, isOutput: true, isSensor: false, valueType: "bool", description: "Heater relay", defaultPhysicalName: "RELAY0", unit: "" },
+            { aliasName: "TEMPERATURE", isInput: true, isOutput: false, isSensor: true, valueType: "float", description: "Temperature sensor", defaultPhysicalName: "TEMP0", unit: "°C" },
+        ],
+    }, (p, step, activeMs) => {
+        p.heaterOn = p.temperature < param(step, "targetTemperature", 60);
+        return activeMs / (param(step, "durationS", 30) * 1000);
+    }),
+    new StepType({
+        typeId: "stir", displayName: "Stir", description: "Runs the stirrer for a given time", category: "Motion",
+        parameters: [
+            { name: "speedRpm", type: "int", description: "Stirrer speed", defaultValue: "300", minValue: "0", maxValue: "1500", required: true, unit: "RPM" },
+            { name: "durationS", type: "int", description: "Duration", defaultValue: "20", minValue: "1", maxValue: "3600", required: true, unit: "s" },
+            { name: "batchSize", type: "int", description: "Batch size", defaultValue: "1", minValue: "1", maxValue: "10", required: false, unit: "", isGlobal: true },
+        ],
+        ioAliases: [
+            { aliasName: "MOTOR", isInput: false, isOutput: true, isSensor: false, valueType: "int", description: "Stirrer motor", defaultPhysicalName: "PWM0", unit: "" },
+            { aliasName: "SPEED", isInput: true, isOutput: false, isSensor: true, valueType: "float", description: "Stirrer speed sensor", defaultPhysicalName: "RPM0", unit: "RPM" },
+        ],
+    }, (p, step, activeMs) => {
+        p.targetRpm = param(step, "speedRpm", 300);
+        return activeMs / (param(step, "durationS", 20) * param(step, "batchSize", 1) * 1000);
+    }),
+    new StepType({
+        typeId: "wait", displayName: "Wait", description: "Waits for a given time", category: "Flow",
+        parameters: [
+            { name: "durationS", type: "int", description: "Duration", defaultValue: "10", minValue: "1", maxValue: "3600", required: true, unit: "s" },
+        ],
+        ioAliases: [],
+    }, (p, step, activeMs) => activeMs / (param(step, "durationS", 10) * 1000)),
+    new StepType({
+        typeId: "user_instruction", displayName: "User instruction", description: "Shows an instruction and waits for the acknowledgment of the user", category: "Flow",
+        parameters: [
+            { name: "instruction", type: "string", description: "Text shown to the user", defaultValue: "Please add the ingredients", minValue: "", maxValue: "", required: true, unit: "" },
+        ],
+        ioAliases: [],
+    }, () => 0, (step) => step.parameters?.["instruction"] ?? "", true),
+];
+
+class RecipeRun {
+    public stepIndex = 0;
+    public stepState: StepState = 'activating';
+    public status: RecipeStatus = 'running';
+    public stepActiveMs = 0;
+    public stepProgress = 0;
+    public acknowledged = false;
+    public errorMessage = "";
+    public readonly series: Array<SensorSeries> = [
+        { sensorName: "Temperature", unit: "°C", points: [] },
+        { sensorName: "Stirrer", unit: "RPM", points: [] },
+    ];
+    constructor(public readonly recipe: Recipe, public readonly execution: Execution) {}
+
+    public get Step(): StepConfig | undefined {
+        return this.recipe.steps[this.stepIndex];
+    }
+}
+
+export class RecipeHandler extends NamespaceAndHandler {
+    private recipes = new Map<string, Recipe>();
+    private executions: Array<Execution> = [];
+    private pins: Record<Role, string> = { ...DEFAULT_PINS };
+    private sessions = new Map<string, Role>();
+    private process: Process = { temperature: AMBIENT_TEMPERATURE, rpm: 0, heaterOn: false, targetRpm: 0 };
+    private run: RecipeRun | null = null;
+    private ticker: NodeJS.Timeout | null = null;
+    private liveViewSender: ISender | null = null;//the device pushes live view updates to the client, that sent the last command
+
+    constructor(private readonly storeRoot: string = RECIPESTORE_BASE_DIRECTORY) {
+        super(RECIPE_NAMESPACE)
+        fs.mkdirSync(path.join(this.storeRoot, RECIPES_DIRECTORY), { recursive: true });
+        fs.mkdirSync(path.join(this.storeRoot, TIMESERIES_DIRECTORY), { recursive: true });
+        this.load();
+    }
+
+    public Handle(buffer: flatbuffers.ByteBuffer, sender: ISender) {
+        const rw = RequestWrapper.getRootAsRequestWrapper(buffer);
+        if (rw.requestType() != Requests.RequestJson) {
+            console.warn(`RecipeHandler: Unexpected requestType=${rw.requestType()}`);
+            return;
+        }
+        const json = (<RequestJson>rw.request(new RequestJson())).payload()?.json();
+        if (!json) {
+            console.warn(`RecipeHandler: Empty JSON string in request`);
+            return;
+        }
+        let cmd: any;
+        try {
+            cmd = JSON.parse(json);
+        } catch (e) {
+            console.error(`RecipeHandler: Could not parse command ${json}`);
+            return;
+        }
+        this.liveViewSender = sender;
+        console.log(`RecipeHandler: command ${cmd.command}`);
+        this.handleCommand(cmd, sender);
+    }
+
+    private handleCommand(cmd: any, sender: ISender) {
+        const requiredRole = COMMAND2ROLE[cmd.command];
+        if (requiredRole) {
+            const role = this.sessions.get(cmd.sessionToken ?? "");
+            if (!role) {
+                return this.sendCommandResponse(sender, cmd, 401, "Not authenticated");
+            }
+            if (ROLE_HIERARCHY[role] < ROLE_HIERARCHY[requiredRole]) {
+                return this.sendCommandResponse(sender, cmd, 403, `Role ${role} is not allowed to ${cmd.command}`);
+            }
+        }
+        switch (cmd.command) {
+            case "login": {
+                const role = <Role>cmd.loginRole;
+                if (!(role in ROLE_HIERARCHY) || this.pins[role] != cmd.pin) {
+                    return this.sendTyped(sender, "auth_response", { success: false, role: "Observer", sessionToken: "", errorMessage: "Wrong PIN" });
+                }
+                const token = randomBytes(16).toString("hex");
+                this.sessions.set(token, role);
+                return this.sendTyped(sender, "auth_response", { success: true, role, sessionToken: token, errorMessage: "" });
+            }
+            case "logout":
+                this.sessions.delete(cmd.sessionToken ?? "");
+                return this.sendCommandResponse(sender, cmd);
+            case "change_pin": {
+                const [role, oldPin, newPin] = String(cmd.payload ?? "").split(",");
+                if (!(role in ROLE_HIERARCHY) || this.pins[<Role>role] != oldPin) {
+                    return this.sendCommandResponse(sender, cmd, 400, "Wrong role or old PIN");
+                }
+                if (!/^\d{4}$/.test(newPin ?? "")) {
+                    return this.sendCommandResponse(sender, cmd, 400, "The new PIN has to consist of 4 digits");
+                }
+                this.pins[<Role>role] = newPin;
+                this.save();
+                return this.sendCommandResponse(sender, cmd);
+            }
+            case "get_recipe_list":
+                return this.sendRecipeList(sender);
+            case "get_available_steps":
+                return this.sendTyped(sender, "available_steps", { steps: STEP_TYPES.map(s => s.metadata) });
+            case "get_recipe": {
+                const r = this.recipes.get(String(cmd.recipeId));
+                if (!r) return this.sendCommandResponse(sender, cmd, 404, `Unknown recipe ${cmd.recipeId}`);
+                return this.sendTyped(sender, "recipe", r);
+            }
+            case "save_recipe": {
+                const r = <Recipe>this.parsePayload(cmd.payload);
+                if (!r || !Array.isArray(r.steps)) return this.sendCommandResponse(sender, cmd, 400, "Payload is not a recipe");
+                const now = Date.now();
+                if (!r.id) r.id = (Math.max(0, ...[...this.recipes.keys()].map(k => parseInt(k) || 0)) + 1).toString();
+                r.createdAt = this.recipes.get(r.id)?.createdAt ?? now;
+                r.lastModified = now;
+                this.recipes.set(r.id, r);
+                this.save();
+                this.sendCommandResponse(sender, cmd, 0, "", { recipe: r });
+                return this.sendRecipeList(sender);
+            }
+            case "delete_recipe":
+                if (!this.recipes.delete(String(cmd.recipeId))) return this.sendCommandResponse(sender, cmd, 404, `Unknown recipe ${cmd.recipeId}`);
+                fs.rmSync(this.recipePath(String(cmd.recipeId)), { force: true });
+                this.sendCommandResponse(sender, cmd);
+                return this.sendRecipeList(sender);
+            case "start_recipe": {
+                if (this.run && (this.run.status == 'running' || this.run.status == 'paused')) {
+                    return this.sendCommandResponse(sender, cmd, 409, `Recipe ${this.run.recipe.name} is already running`);
+                }
+                const r = <Recipe>this.parsePayload(cmd.payload) ?? this.recipes.get(String(cmd.recipeId));
+                if (!r || !Array.isArray(r.steps) || r.steps.length == 0) return this.sendCommandResponse(sender, cmd, 400, "Recipe has no steps");
+                this.startRun(r);
+                this.sendCommandResponse(sender, cmd);
+                return this.sendLiveView(sender);
+            }
+            case "pause_recipe":
+            case "resume_recipe":
+            case "stop_recipe":
+            case "acknowledge_step":
+                if (!this.run || (this.run.status != 'running' && this.run.status != 'paused')) {
+                    return this.sendCommandResponse(sender, cmd, 409, "No recipe is running");
+                }
+                if (cmd.command == "pause_recipe") this.run.status = 'paused';
+                else if (cmd.command == "resume_recipe") this.run.status = 'running';
+                else if (cmd.command == "acknowledge_step") this.run.acknowledged = true;
+                else this.finishRun('stopped', "aborted");
+                this.sendCommandResponse(sender, cmd);
+                return this.sendLiveView(sender);
+            case "request_live_view":
+                return this.sendLiveView(sender);
+            case "get_execution_history":
+                return this.sendTyped(sender, "execution_history", { executions: this.executions });
+            case "delete_execution": {
+                const before = this.executions.length;
+                this.executions = this.executions.filter(e => e.executionId != cmd.executionId);
+                if (this.executions.length == before) return this.sendCommandResponse(sender, cmd, 404, `Unknown execution ${cmd.executionId}`);
+                fs.rmSync(this.timeseriesPath(cmd.executionId), { force: true });
+                this.save();
+                this.sendCommandResponse(sender, cmd);
+                return this.sendTyped(sender, "execution_history", { executions: this.executions });
+            }
+            case "get_timeseries": {
+                const e = this.executions.find(e => e.executionId == cmd.executionId);
+                if (!e) return this.sendCommandResponse(sender, cmd, 404, `Unknown execution ${cmd.executionId}`);
+                const binary = this.run?.execution === e ? serializeTimeSeries(this.run.series) : (fs.existsSync(this.timeseriesPath(e.executionId)) ? fs.readFileSync(this.timeseriesPath(e.executionId)) : Buffer.alloc(0));
+                return this.sendTyped(sender, "timeseries_binary", { executionId: e.executionId, startTime: e.startTime, binaryData: Buffer.from(binary).toString("base64") });
+            }
+            default:
+                console.warn(`RecipeHandler: Unknown command ${cmd.command}`);
+                return this.sendCommandResponse(sender, cmd, 400, `Unknown command ${cmd.command}`);
+        }
+    }
+
+    private startRun(recipe: Recipe) {
+        const now = Date.now();
+        const execution: Execution = {
+            executionId: now.toString(), recipeId: recipe.id, recipeName: recipe.name,
+            startTime: now, endTime: 0, duration: 0, status: "running", errorMessage: "",
+            globalParameters: recipe.globalParameters,
+        };
+        this.executions.push(execution);
+        this.run = new RecipeRun({ ...recipe, steps: [...recipe.steps].sort((a, b) => a.order - b.order) }, execution);
+        if (this.ticker) clearInterval(this.ticker);
+        this.ticker = setInterval(() => this.tick(), TICK_MS);
+        console.info(`RecipeHandler: recipe ${recipe.name} started as execution ${execution.executionId}`);
+    }
+
+    private finishRun(status: RecipeStatus, executionStatus: string, errorMessage: string = "") {
+        const run = this.run!;
+        run.status = status;
+        run.stepState = 'idle';
+        run.errorMessage = errorMessage;
+        run.execution.endTime = Date.now();
+        run.execution.duration = run.execution.endTime - run.execution.startTime;
+        run.execution.status = executionStatus;
+        run.execution.errorMessage = errorMessage;
+        this.process.heaterOn = false;
+        this.process.targetRpm = 0;
+        fs.writeFileSync(this.timeseriesPath(run.execution.executionId), serializeTimeSeries(run.series));
+        this.save();
+        console.info(`RecipeHandler: execution ${run.execution.executionId} finished with status ${executionStatus}`);
+    }
+
+    private tick() {
+        const p = this.process;
+        //first order models of heater and stirrer
+        p.temperature += p.heaterOn ? (MAX_HEATER_TEMPERATURE - p.temperature) * 0.03 : (AMBIENT_TEMPERATURE - p.temperature) * 0.01;
+        p.rpm += (p.targetRpm - p.rpm) * 0.3;
+        const run = this.run;
+        if (!run || run.status == 'paused') return;
+        if (run.status != 'running') {
+            //keep the simulation running until the process has cooled down, but there is nothing to report
+            if (p.rpm < 1 && Math.abs(p.temperature - AMBIENT_TEMPERATURE) < 1) {
+                clearInterval(this.ticker!);
+                this.ticker = null;
+            }
+            return;
+        }
+        const t = Date.now() - run.execution.startTime;
+        run.series[0].points.push({ t, value: p.temperature });
+        run.series[1].points.push({ t, value: p.rpm });
+
+        const step = run.Step!;
+        const stepType = STEP_TYPES.find(s => s.metadata.typeId == step.stepTypeId);
+        if (!stepType) {
+            this.finishRun('error', "failed", `Unknown step type ${step.stepTypeId}`);
+        } else {
+            switch (run.stepState) {
+                case 'activating':
+                    run.stepActiveMs = 0;
+                    run.stepProgress = 0;
+                    run.acknowledged = false;
+                    run.stepState = 'active';
+                    break;
+                case 'active':
+                    run.stepActiveMs += TICK_MS;
+                    run.stepProgress = stepType.needsAcknowledgment ? (run.acknowledged ? 1 : 0) : Math.max(0, stepType.onTick(p, step, run.stepActiveMs));
+                    if (run.stepProgress >= 1) run.stepState = 'deactivating';
+                    break;
+                case 'deactivating':
+                    p.heaterOn = false;
+                    p.targetRpm = 0;
+                    run.stepIndex++;
+                    if (run.stepIndex >= run.recipe.steps.length) {
+                        this.finishRun('completed', "completed");
+                    } else {
+                        run.stepState = 'activating';
+                    }
+                    break;
+            }
+        }
+        if (this.liveViewSender) this.sendLiveView(this.liveViewSender);
+    }
+
+    private createLiveView() {
+        const run = this.run;
+        if (!run) {
+            return {
+                recipeId: "", recipeName: "", currentStepIndex: 0, totalSteps: 0, currentStepName: "", stepState: 'idle', recipeStatus: 'stopped',
+                userInstruction: "", awaitingUserAcknowledgment: false, progress: 0, timestamp: Date.now(), errorMessage: "", sensorValues: {},
+            };
+        }
+        const step = run.Step;
+        const stepType = step && STEP_TYPES.find(s => s.metadata.typeId == step.stepTypeId);
+        const total = run.recipe.steps.length;
+        const active = run.status == 'running' || run.status == 'paused';
+        return {
+            recipeId: run.recipe.id,
+            recipeName: run.recipe.name,
+            currentStepIndex: Math.min(run.stepIndex, total - 1),
+            totalSteps: total,
+            currentStepName: stepType?.metadata.displayName ?? step?.stepTypeId ?? "",
+            stepState: run.stepState,
+            recipeStatus: run.status,
+            userInstruction: active && step && stepType ? stepType.instruction(step) : "",
+            awaitingUserAcknowledgment: active && run.stepState == 'active' && !!stepType?.needsAcknowledgment && !run.acknowledged,
+            progress: run.status == 'completed' ? 1 : (run.stepIndex + Math.min(1, run.stepProgress)) / total,
+            timestamp: Date.now(),
+            errorMessage: run.errorMessage,
+            sensorValues: {
+                Temperature: Math.round(this.process.temperature * 10) / 10,
+                Stirrer: Math.round(this.process.rpm),
+            },
+        };
+    }
+
+    private sendLiveView(sender: ISender) {
+        this.sendTyped(sender, "liveview", this.createLiveView());
+    }
+
+    private sendRecipeList(sender: ISender) {
+        const recipes = [...this.recipes.values()].map(r => ({
+            id: r.id, name: r.name, description: r.description, version: r.version, createdAt: r.createdAt ?? 0, lastModified: r.lastModified ?? 0,
+        }));
+        this.sendTyped(sender, "available_recipes", { recipes });
+    }
+
+    private sendCommandResponse(sender: ISender, cmd: any, errorCode: number = 0, errorMessage: string = "", extra: object = {}) {
+        if (errorCode != 0) console.warn(`RecipeHandler: ${cmd.command} failed with ${errorCode}: ${errorMessage}`);
+        this.sendTyped(sender, "command_response", { success: errorCode == 0, errorCode, errorMessage, requestId: cmd.requestId ?? "", ...extra });
+    }
+
+    private sendTyped(sender: ISender, type: string, data: any) {
+        const b = new flatbuffers.Builder(1024);
+        const jsonOffset = b.createString(JSON.stringify({ type, data }));
+        JsonPayload.startJsonPayload(b);
+        JsonPayload.addJson(b, jsonOffset);
+        const payloadOffset = JsonPayload.endJsonPayload(b);
+        ResponseJson.startResponseJson(b);
+        ResponseJson.addPayload(b, payloadOffset);
+        const responseOffset = ResponseJson.endResponseJson(b);
+        ResponseWrapper.startResponseWrapper(b);
+        ResponseWrapper.addResponseType(b, Responses.ResponseJson);
+        ResponseWrapper.addResponse(b, responseOffset);
+        b.finish(ResponseWrapper.endResponseWrapper(b));
+        sender.send(RECIPE_NAMESPACE, b);
+    }
+
+    private parsePayload(payload: any): any {
+        if (typeof payload !== "string") return payload;
+        try {
+            return JSON.parse(payload);
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    //ids come from the client; basename keeps the files in RECIPES_DIRECTORY
+    private recipePath(recipeId: string) {
+        return path.join(this.storeRoot, RECIPES_DIRECTORY, `${path.basename(recipeId)}.json`);
+    }
+
+    private timeseriesPath(executionId: string) {
+        return path.join(this.storeRoot, TIMESERIES_DIRECTORY, `${path.basename(String(executionId))}.tsrd`);
+    }
+
+    private load() {
+        for (const f of fs.readdirSync(path.join(this.storeRoot, RECIPES_DIRECTORY))) {
+            if (!f.endsWith(".json")) continue;
+            const r = <Recipe>JSON.parse(fs.readFileSync(path.join(this.storeRoot, RECIPES_DIRECTORY, f)).toString());
+            this.recipes.set(r.id, r);
+        }
+        const executionsPath = path.join(this.storeRoot, EXECUTIONS_FILEPATH);
+        if (fs.existsSync(executionsPath)) {
+            this.executions = JSON.parse(fs.readFileSync(executionsPath).toString());
+            //a running execution could not survive the restart of the server
+            this.executions.filter(e => e.status == "running").forEach(e => { e.status = "failed"; e.errorMessage = "Server restarted"; });
+        }
+        const pinsPath = path.join(this.storeRoot, PINS_FILEPATH);
+        if (fs.existsSync(pinsPath)) {
+            this.pins = { ...DEFAULT_PINS, ...JSON.parse(fs.readFileSync(pinsPath).toString()) };
+        }
+        console.info(`RecipeHandler: loaded ${this.recipes.size} recipes and ${this.executions.length} executions from ${this.storeRoot}`);
+    }
+
+    private save() {
+        for (const r of this.recipes.values()) {
+            fs.writeFileSync(this.recipePath(r.id), JSON.stringify(r, null, 2));
+        }
+        fs.writeFileSync(path.join(this.storeRoot, EXECUTIONS_FILEPATH), JSON.stringify(this.executions, null, 2));
+        fs.writeFileSync(path.join(this.storeRoot, PINS_FILEPATH), JSON.stringify(this.pins, null, 2));
+    }
+}
+
+//see TimeSeriesDeserializer.ts in web-components for the format
+function serializeTimeSeries(series: Array<SensorSeries>): Uint8Array {
+    const encoder = new TextEncoder();
+    const encoded = series.map(s => ({ name: encoder.encode(s.sensorName), unit: encoder.encode(s.unit), points: s.points }));
+    const size = 4 + 1 + 4 + encoded.reduce((sum, s) => sum + 4 + s.name.length + 4 + s.unit.length + 4 + s.points.length * 12, 0);
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+    let pos = 0;
+    view.setUint32(pos, TSRD_MAGIC_NUMBER, true); pos += 4;
+    view.setUint8(pos, TSRD_VERSION); pos += 1;
+    view.setUint32(pos, encoded.length, true); pos += 4;
+    for (const s of encoded) {
+        view.setUint32(pos, s.name.length, true); pos += 4;
+        bytes.set(s.name, pos); pos += s.name.length;
+        view.setUint32(pos, s.unit.length, true); pos += 4;
+        bytes.set(s.unit, pos); pos += s.unit.length;
+        view.setUint32(pos, s.points.length, true); pos += 4;
+        for (const p of s.points) {
+            view.setBigUint64(pos, BigInt(p.t), true); pos += 8;
+            view.setFloat32(pos, p.value, true); pos += 4;
+        }
+    }
+    return bytes;
+}
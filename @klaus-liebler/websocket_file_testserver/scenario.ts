@@ -0,0 +1,227 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import * as flatbuffers from "flatbuffers"
+import type { IConnection, NamespaceAndHandler } from "./utils";
+
+//A scenario describes, how the test server deviates from the regular handlers for each namespace.
+//Scenarios are either JSON files (responses as base64 encoded flatbuffers) or TS/JS modules with a default export (responses may be built with a function)
+
+export type ResponseBuilder = (b: flatbuffers.Builder, request: flatbuffers.ByteBuffer | null, state: string) => void;
+
+export interface IScenarioResponse {
+    base64?: string;//finished flatbuffer without the 4-byte header
+    build?: ResponseBuilder;//only available in TS/JS scenarios; has to call b.finish(...)
+}
+
+export type ScenarioError = "drop" | "close" | "corrupt";
+
+export interface IScenarioRule {
+    requestType?: number;//union type of the request wrapper; matches all requests, when missing
+    inState?: string;//rule only matches in this state
+    times?: number;//rule only matches this number of times
+    delayMs?: number;
+    error?: ScenarioError;//drop: no response; close: close websocket; corrupt: send a truncated response
+    response?: IScenarioResponse;//when missing, the regular handler answers the request
+    nextState?: string;
+}
+
+export interface IScenarioNotification {
+    namespace: number;
+    afterMs: number;//after connection
+    intervalMs?: number;//repeat
+    inState?: string;
+    response: IScenarioResponse;
+    nextState?: string;
+}
+
+export interface IScenario {
+    name: string;
+    description?: string;
+    initialState?: string;
+    passthrough?: boolean;//requests, that match no rule, are answered by the regular handler (default: true)
+    namespaces?: Record<string, Array<IScenarioRule>>;//key is the namespace number
+    notifications?: Array<IScenarioNotification>;
+}
+
+const DEFAULT_STATE = "initial";
+
+//all generated RequestWrapper tables have the union type as first field
+function requestTypeOfWrapper(bb: flatbuffers.ByteBuffer): number {
+    const tablePos = bb.readInt32(bb.position()) + bb.position();
+    const offset = bb.__offset(tablePos, 4);
+    return offset ? bb.readUint8(tablePos + offset) : 0;
+}
+
+export class ScenarioEngine {
+    private scenarios = new Map<string, IScenario>();
+    private active: IScenario | null = null;
+    private state = DEFAULT_STATE;
+    private rule2useCount = new Map<IScenarioRule, number>();
+    private connection2timers = new Map<IConnection, Array<NodeJS.Timeout>>();
+
+    public get ActiveScenario() {
+        return this.active;
+    }
+
+    public get State() {
+        return this.state;
+    }
+
+    public get ScenarioNames() {
+        return [...this.scenarios.keys()];
+    }
+
+    public SetState(state: string) {
+        if (state == this.state) return;
+        console.info(`Scenario state '${this.state}' --> '${state}'`);
+        this.state = state;
+    }
+
+    public Add(s: IScenario) {
+        if (!s.name) throw new Error("A scenario needs a name");
+        this.scenarios.set(s.name, s);
+    }
+
+    //TS modules can only be loaded, if the server runs with ts-node (or another loader, that registers the extension .ts)
+    public async LoadDirectory(directory: string) {
+        for (const f of fs.readdirSync(directory)) {
+            const p = path.resolve(directory, f);
+            if (f.endsWith(".json")) {
+                this.Add(JSON.parse(fs.readFileSync(p).toString()) as IScenario);
+            } else if (f.endsWith(".js") || (f.endsWith(".ts") && !f.endsWith(".d.ts"))) {
+                if (f.endsWith(".ts") && !require.extensions[".ts"]) {
+                    console.warn(`Scenario file ${p} skipped, TS files require ts-node`);
+                    continue;
+                }
+                const m = require(p);
+                this.Add((m.default ?? m) as IScenario);
+            } else {
+                continue;
+            }
+            console.info(`Scenario file ${p} loaded`);
+        }
+    }
+
+    //null deactivates all scenarios, so that only the regular handlers answer
+    public Activate(name: string | null) {
+        if (name === null) {
+            this.active = null;
+        } else {
+            const s = this.scenarios.get(name);
+            if (!s) throw new Error(`Unknown scenario '${name}'. Known scenarios are ${this.ScenarioNames.join(", ")}`);
+            this.active = s;
+        }
+        this.rule2useCount.clear();
+        this.state = this.active?.initialState ?? DEFAULT_STATE;
+        console.info(`Scenario '${name ?? "(none)"}' is active now`);
+        for (const c of this.connection2timers.keys()) {
+            this.stopNotifications(c);
+            this.startNotifications(c);
+        }
+    }
+
+    public OnConnect(connection: IConnection) {
+        this.connection2timers.set(connection, []);
+        this.startNotifications(connection);
+    }
+
+    public OnDisconnect(connection: IConnection) {
+        this.stopNotifications(connection);
+        this.connection2timers.delete(connection);
+    }
+
+    public Dispatch(ns: number, request: flatbuffers.ByteBuffer, connection: IConnection, handler: NamespaceAndHandler | undefined) {
+        const rule = this.findRule(ns, request);
+        if (!rule) {
+            if (this.active && this.active.passthrough === false) {
+                console.warn(`Scenario '${this.active.name}' has no rule for namespace ${ns} --> no response`);
+                return;
+            }
+            this.handleRegularly(ns, request, connection, handler);
+            return;
+        }
+        this.rule2useCount.set(rule, (this.rule2useCount.get(rule) ?? 0) + 1);
+        const execute = () => {
+            if (rule.nextState !== undefined) this.SetState(rule.nextState);
+            switch (rule.error) {
+                case "drop":
+                    console.info(`Scenario drops request for namespace ${ns}`);
+                    return;
+                case "close":
+                    console.info(`Scenario closes connection on request for namespace ${ns}`);
+                    connection.close();
+                    return;
+                case "corrupt": {
+                    const data = this.buildResponse(rule.response, request) ?? new Uint8Array(16).fill(0xFF);
+                    connection.sendBytes(ns, data.slice(0, Math.max(1, data.byteLength >> 1)));
+                    return;
+                }
+            }
+            if (rule.response) {
+                connection.sendBytes(ns, this.buildResponse(rule.response, request)!);
+            } else {
+                this.handleRegularly(ns, request, connection, handler);
+            }
+        };
+        if (rule.delayMs) {
+            setTimeout(execute, rule.delayMs);
+        } else {
+            execute();
+        }
+    }
+
+    private handleRegularly(ns: number, request: flatbuffers.ByteBuffer, connection: IConnection, handler: NamespaceAndHandler | undefined) {
+        if (!handler) {
+            console.error(`No handler registered for namespace ${ns}`);
+            return;
+        }
+        handler.Handle(request, connection);
+    }
+
+    private findRule(ns: number, request: flatbuffers.ByteBuffer): IScenarioRule | undefined {
+        const rules = this.active?.namespaces?.[ns.toString()];
+        if (!rules) return undefined;
+        const requestType = requestTypeOfWrapper(request);
+        return rules.find(r =>
+            (r.requestType === undefined || r.requestType == requestType) &&
+            (r.inState === undefined || r.inState == this.state) &&
+            (r.times === undefined || (this.rule2useCount.get(r) ?? 0) < r.times)
+        );
+    }
+
+    private buildResponse(r: IScenarioResponse | undefined, request: flatbuffers.ByteBuffer | null): Uint8Array | null {
+        if (!r) return null;
+        if (r.build) {
+            const b = new flatbuffers.Builder(1024);
+            r.build(b, request, this.state);
+            return b.asUint8Array();
+        }
+        if (r.base64 !== undefined) {
+            return new Uint8Array(Buffer.from(r.base64, "base64"));
+        }
+        return null;
+    }
+
+    private startNotifications(connection: IConnection) {
+        const timers = this.connection2timers.get(connection)!;
+        for (const n of this.active?.notifications ?? []) {
+            const fire = () => {
+                if (n.inState !== undefined && n.inState != this.state) return;
+                connection.sendBytes(n.namespace, this.buildResponse(n.response, null)!);
+                if (n.nextState !== undefined) this.SetState(n.nextState);
+            };
+            const timeout = setTimeout(() => {
+                timers.splice(timers.indexOf(timeout), 1);//fired timeouts must not accumulate
+                fire();
+                if (n.intervalMs) timers.push(setInterval(fire, n.intervalMs));
+            }, n.afterMs);
+            timers.push(timeout);
+        }
+    }
+
+    private stopNotifications(connection: IConnection) {
+        const timers = this.connection2timers.get(connection) ?? [];
+        timers.forEach(t => clearTimeout(t));
+        timers.length = 0;
+    }
+}
@@ -1,6 +1,6 @@
 import * as flatbuffers from "flatbuffers"
 import * as system from "@generated/flatbuffers_ts/systeminfo"
-import { ISender, NamespaceAndHandler } from "./utils";
+import { ISender, NamespaceAndHandler, otaReceiver } from "./utils";
 export class SystemHandler extends NamespaceAndHandler {
     constructor() {
         super(system.Namespace.Value)
@@ -11,7 +11,13 @@ export class SystemHandler extends NamespaceAndHandler {
             case system.Requests.RequestSystemData: {
                 let b = new flatbuffers.Builder(1024);
                 var partitionsOffset = new Array<number>();
-                partitionsOffset.push(system.PartitionInfo.createPartitionInfo(b, b.createString("Label0"), 0, 0x10, 3072, 1, true, b.createString("AppName"), b.createString("AppVersion"), b.createString("AppDate"), b.createString("AppTime")));
+                const app = otaReceiver.InstalledApp;
+                if (app) {//after an OTA upload, the new app runs from the second OTA partition and is pending verification for some seconds
+                    partitionsOffset.push(system.PartitionInfo.createPartitionInfo(b, b.createString("Label0"), 0, 0x10, 3072, 2, false, b.createString("AppName"), b.createString("AppVersion"), b.createString("AppDate"), b.createString("AppTime")));
+                    partitionsOffset.push(system.PartitionInfo.createPartitionInfo(b, b.createString("Label2"), 0, 0x11, 3072, otaReceiver.InstalledAppIsValid ? 2 : 1, true, b.createString(app.projectName), b.createString(app.version), b.createString(app.date), b.createString(app.time)));
+                } else {
+                    partitionsOffset.push(system.PartitionInfo.createPartitionInfo(b, b.createString("Label0"), 0, 0x10, 3072, 1, true, b.createString("AppName"), b.createString("AppVersion"), b.createString("AppDate"), b.createString("AppTime")));
+                }
                 partitionsOffset.push(system.PartitionInfo.createPartitionInfo(b, b.createString("Label1"), 1, 0x01, 16384, 1, true, b.createString("AppName"), b.createString("AppVersion"), b.createString("AppDate"), b.createString("AppTime")));
                 const partVectOffset =system.ResponseSystemData.createPartitionsVector(b, partitionsOffset)
                 
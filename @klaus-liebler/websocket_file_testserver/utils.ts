@@ -4,109 +4,265 @@ import * as fs from "node:fs"
 import * as flatbuffers from "flatbuffers"
 import * as weso from "ws"
 import * as path from "node:path"
-import * as forge from "node-forge";
-import { PeerCertificate, TLSSocket } from "node:tls"
+import * as stream from "node:stream"
+import { ScenarioEngine } from "./scenario";
+import { CaptureRecorder, CaptureReplayer } from "./capture";
+import { OtaReceiver } from "./ota";
+import { AuthorizationPolicy } from "./authorization";
+import { FileService } from "./files";
 
 export interface ISender{
     send(ns:number, builder:flatbuffers.Builder):void;
+    sendBytes(ns:number, data:Uint8Array):void;
  }
 
+export interface IConnection extends ISender{
+    close():void;
+}
+
 export abstract class NamespaceAndHandler{
     constructor(public readonly namespace:number){}
     public abstract Handle(buffer: flatbuffers.ByteBuffer, sender: ISender);
 }
 
+export interface IServerOptions{
+    scenarioDirectory?:string;//all *.json and *.js files in this directory are loaded as scenarios, *.ts files only with ts-node
+    scenario?:string;//name of the scenario, that is active after startup
+    record?:{deviceUrl:string, captureFile:string};//proxy all websocket traffic to a real device (e.g. wss://192.168.1.10/webmanager_ws) and record it
+    replay?:{captureFile:string, speed?:number};//answer websocket requests from a recorded capture file instead of the handlers
+    filesPartitionSize?:number;//quota of the /files API in bytes, should match the size of the storage partition of the device; unlimited if not set
+    authorizationPolicy?:string;//JSON file with an IAuthorizationPolicy; if set, it is enforced on both servers, the plain http server only grants the role "anonymous"
+}
+
+//4-byte framing header: lower 16 bits namespace, upper 16 bits correlation id of the request (0=none)
+//clients only send correlation ids, if the server selects the subprotocol (older firmware does not know it)
+const NAMESPACE_MASK = 0xFFFF;
+const CORRELATION_ID_SHIFT = 16;
+const CORRELATION_SUBPROTOCOL = "webmanager.correlation.v1";
 const WEBSERVER_PORT = 3000;
 const AUTHSERVER_PORT = 3001;
+const ADMIN_SCENARIOS_URL = "/admin/scenarios";
+const OTA_URL = "/ota";
+const WEBSOCKET_URL = "/webmanager_ws";
 var websocket_server:weso.WebSocketServer;
 var http_server: http.Server<typeof http.IncomingMessage, typeof http.ServerResponse>;
+var fileService: FileService;
+export const scenarioEngine = new ScenarioEngine();
+export const otaReceiver = new OtaReceiver("./ota");
+
+class WebsocketConnection implements IConnection{
+    constructor(private readonly ws:weso.WebSocket, private readonly correlationId:number=0){}
+
+    public send(ns:number, builder:flatbuffers.Builder){
+        this.sendBytes(ns, builder.asUint8Array());
+    }
+
+    public sendBytes(ns:number, data:Uint8Array){
+        const arrayBuffer = new ArrayBuffer(4 + data.byteLength);
+        //every message sent via the connection of a request is a response to it; notifications use a connection without correlation id
+        new DataView(arrayBuffer).setUint32(0, ((this.correlationId << CORRELATION_ID_SHIFT) | ns) >>> 0, true);
+        const newData = new Uint8Array(arrayBuffer);
+        newData.set(data, 4);
+        this.ws.send(newData);
+    }
+
+    public close(){
+        this.ws.close();
+    }
+}
+
+function parseFrame(buffer:Buffer){
+    const header = buffer.readUint32LE(0);
+    return {
+        ns: header & NAMESPACE_MASK,
+        correlationId: header >>> CORRELATION_ID_SHIFT,
+        data: new Uint8Array(buffer.buffer, buffer.byteOffset + 4, buffer.length - 4),
+    };
+}
+
+function withCorrelationId(buffer:Buffer, correlationId:number){
+    const b = Buffer.from(buffer);
+    b.writeUint32LE(((correlationId << CORRELATION_ID_SHIFT) | (b.readUint32LE(0) & NAMESPACE_MASK)) >>> 0, 0);
+    return b;
+}
+
+//The device is connected without subprotocol, because older firmware selects none and the handshake would fail.
+//So the correlation ids of the client are stripped and the responses get the id of the oldest pending request of their namespace, like in the web UI fallback
+function proxyConnection(ws:weso.WebSocket, deviceUrl:string, recorder:CaptureRecorder){
+    const device = new weso.WebSocket(deviceUrl, { rejectUnauthorized: false });//devices use self signed certificates
+    const pending: Buffer[] = [];
+    const ns2pendingCorrelationIds = new Map<number, Array<number>>();
+    device.on('open', () => {
+        console.info(`Proxy connection to ${deviceUrl} established`);
+        pending.forEach(b => device.send(b));
+        pending.length = 0;
+    });
+    device.on('message', (buffer: Buffer) => {
+        const f = parseFrame(buffer);
+        const correlationId = ns2pendingCorrelationIds.get(f.ns)?.shift() ?? 0;
+        recorder.Record("s2c", f.ns, correlationId, f.data);
+        ws.send(correlationId == f.correlationId ? buffer : withCorrelationId(buffer, correlationId));
+    });
+    device.on('error', console.error);
+    device.on('close', () => ws.close());
+    ws.on('error', console.error);
+    ws.on('close', () => device.close());
+    ws.on('message', (buffer: Buffer) => {
+        const f = parseFrame(buffer);
+        recorder.Record("c2s", f.ns, f.correlationId, f.data);
+        if (f.correlationId != 0) {
+            ns2pendingCorrelationIds.set(f.ns, [...(ns2pendingCorrelationIds.get(f.ns) ?? []), f.correlationId]);
+            buffer = withCorrelationId(buffer, 0);
+        }
+        if (device.readyState == weso.WebSocket.OPEN) {
+            device.send(buffer);
+        } else {
+            pending.push(buffer);
+        }
+    });
+}
+
+function handleAdminScenarios(req:http.IncomingMessage, res:http.ServerResponse, body:Buffer){
+    const rest = decodeURIComponent(req.url!.slice(ADMIN_SCENARIOS_URL.length)).replace(/^\//, "");
+    const sendState=()=>{
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ scenarios: scenarioEngine.ScenarioNames, active: scenarioEngine.ActiveScenario?.name ?? null, state: scenarioEngine.State }));
+    }
+    try {
+        if (req.method == "GET" && rest == "") {
+            return sendState();
+        }
+        if (req.method == "POST" && rest == "") {//register and activate an ad-hoc JSON scenario
+            const s = JSON.parse(body.toString());
+            scenarioEngine.Add(s);
+            scenarioEngine.Activate(s.name);
+            return sendState();
+        }
+        if (req.method == "POST" && rest.startsWith("state/")) {
+            scenarioEngine.SetState(rest.slice("state/".length));
+            return sendState();
+        }
+        if (req.method == "POST" && rest == "none") {
+            scenarioEngine.Activate(null);
+            return sendState();
+        }
+        if (req.method == "POST") {
+            scenarioEngine.Activate(rest);
+            return sendState();
+        }
+        res.writeHead(405).end("Method not allowed");
+    } catch (error: any) {
+        res.writeHead(400).end(`${error.message ?? error}`);
+    }
+}
+
+function handleHttpRequest(req:http.IncomingMessage, res:http.ServerResponse){
+    //let server = https.createServer({key: hostPrivateKey, cert: hostCert}, (req, res) => {
+    console.log(`Request received for '${req.url}'`);
+    //var local_path = new URL(req.url).pathname;
+
+    if (req.url!.startsWith(ADMIN_SCENARIOS_URL)) {
+        const req_body_chunks: any[] = [];
+        req.on("data", (chunk: any) => req_body_chunks.push(chunk));
+        req.on("end", () => handleAdminScenarios(req, res, Buffer.concat(req_body_chunks)));
+    }
+    else if (req.url! == OTA_URL || req.url!.startsWith(OTA_URL + "?")) {
+        const req_body_chunks: any[] = [];
+        req.on("data", (chunk: any) => req_body_chunks.push(chunk));
+        req.on("end", () => otaReceiver.Handle(req, res, Buffer.concat(req_body_chunks)));
+    }
+    else if (FileService.IsFileUrl(req.url!)) {
+        fileService.Handle(req, res);
+    } else {
+        console.log(`Request unknwon '${req.url}'`);
+        res.writeHead(404);
+        res.end("Not found");
+    }
+}
 
+function handleUpgrade(req:http.IncomingMessage, sock:stream.Duplex, head:Buffer){
+    if (req.url == WEBSOCKET_URL) {
+        console.info("Handle upgrade to websocket");
+        websocket_server.handleUpgrade(req, sock, head, ws => websocket_server.emit('connection', ws, req));
+    } else {
+        sock.destroy();
+    }
+}
+
+//null, if the request has been denied and answered
+function authorize(policy:AuthorizationPolicy, req:http.IncomingMessage, res:http.ServerResponse){
+    const a = policy.Authorize(req);
+    if (a.statusCode != 200) {
+        console.warn(`${req.method} ${req.url} denied: ${a.message}`);
+        res.writeHead(a.statusCode).end(a.message);
+        return null;
+    }
+    return a;
+}
 
+//there is no response object yet, so the status is written directly to the socket
+function authorizeUpgrade(policy:AuthorizationPolicy, req:http.IncomingMessage, sock:stream.Duplex){
+    const a = policy.Authorize(req);
+    if (a.statusCode != 200) {
+        console.warn(`Websocket upgrade ${req.url} denied: ${a.message}`);
+        sock.end(`HTTP/1.1 ${a.statusCode} ${http.STATUS_CODES[a.statusCode]}\r\nConnection: close\r\n\r\n`);
+        return false;
+    }
+    return true;
+}
 
-export function StartServers(sslCertificatesRoot:string, handlers:Array<NamespaceAndHandler>){
-    websocket_server = new weso.WebSocketServer({ noServer: true });
+//the servers start listening after the scenarios have been loaded
+export async function StartServers(sslCertificatesRoot:string, handlers:Array<NamespaceAndHandler>, options:IServerOptions={}){
+    if (options.scenarioDirectory) {
+        //the first requests must already be answered by the scenario
+        try {
+            await scenarioEngine.LoadDirectory(options.scenarioDirectory);
+            if (options.scenario) scenarioEngine.Activate(options.scenario);
+        } catch (e: unknown) {
+            console.error(`Could not load scenarios: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+    const recorder = options.record ? new CaptureRecorder(options.record.captureFile) : null;
+    const replayer = options.replay ? new CaptureReplayer(options.replay.captureFile, options.replay.speed) : null;
+    websocket_server = new weso.WebSocketServer({ noServer: true, handleProtocols: (protocols) => protocols.has(CORRELATION_SUBPROTOCOL) ? CORRELATION_SUBPROTOCOL : false });
     websocket_server.on('connection', (ws: weso.WebSocket) => {
         console.info("Handle connection");
+        if (recorder) {
+            return proxyConnection(ws, options.record!.deviceUrl, recorder);
+        }
+        const notificationConnection = new WebsocketConnection(ws);
+        if (replayer) {
+            replayer.OnConnect(notificationConnection);
+            ws.on('error', console.error);
+            ws.on('close', () => replayer.OnDisconnect(notificationConnection));
+            ws.on('message', (buffer: Buffer) => {
+                const f = parseFrame(buffer);
+                console.log(`Replay for Namespace ${f.ns} (correlation id ${f.correlationId})`);
+                replayer.OnRequest(f.ns, f.data, notificationConnection, new WebsocketConnection(ws, f.correlationId));
+            });
+            return;
+        }
+        scenarioEngine.OnConnect(notificationConnection);
         ws.on('error', console.error);
+        ws.on('close', () => scenarioEngine.OnDisconnect(notificationConnection));
         ws.on('message', (buffer: Buffer, isBinary: boolean) => {
-            var b_req = new flatbuffers.ByteBuffer(new Uint8Array(buffer.buffer, buffer.byteOffset + 4, buffer.length - 4));
-            let ns = buffer.readUint32LE(0);
-            console.log(`Received buffer length ${buffer.byteLength} for Namespace ${ns}`);
-            var cb = new class implements ISender{
-                public send(ns:number, builder:flatbuffers.Builder){
-                    const data = builder.asUint8Array();
-                    const arrayBuffer = new ArrayBuffer(4 + data.byteLength);
-                    new DataView(arrayBuffer).setUint32(0, ns, true);
-                    const newData = new Uint8Array(arrayBuffer);
-                    newData.set(data, 4);
-                    ws.send(newData);
-                      
-                }
-            }
-            const h =handlers.find(h=>h.namespace==ns);
-            if(!h){
-                console.error(`No handler registered for namespace ${ns}`);
-                return;
-            }
-            h.Handle(b_req, cb);
+            const f = parseFrame(buffer);
+            var b_req = new flatbuffers.ByteBuffer(f.data);
+            console.log(`Received buffer length ${buffer.byteLength} for Namespace ${f.ns} (correlation id ${f.correlationId})`);
+            const h =handlers.find(h=>h.namespace==f.ns);
+            scenarioEngine.Dispatch(f.ns, b_req, new WebsocketConnection(ws, f.correlationId), h);
         });
     });
+    fileService = new FileService("./files", options.filesPartitionSize ?? null);
+    const policy = options.authorizationPolicy ? AuthorizationPolicy.Load(options.authorizationPolicy) : null;
     http_server = http.createServer((req, res) => {
-        //let server = https.createServer({key: hostPrivateKey, cert: hostCert}, (req, res) => {
-        console.log(`Request received for '${req.url}'`);
-        //var local_path = new URL(req.url).pathname;
-    
-        if (req.method == "POST" && req.url!.startsWith("/files")) {
-            const req_body_chunks: any[] = [];
-            req.on("data", (chunk: any) => req_body_chunks.push(chunk));
-            req.on("end", () => {
-                var p = path.join("./", req.url!)
-                fs.mkdirSync(path.dirname(p.toString()), { recursive: true });
-                fs.writeFileSync(p, Buffer.concat(req_body_chunks), {});
-                res.writeHead(200, { 'Content-Type': 'text/html' });
-                res.write('<p>OK</p>');
-                res.end();
-                //process(res, req.url!, Buffer.concat(req_body_chunks));
-            });
-        }
-        else if (req.method == "GET" && req.url!.startsWith("/files")) {
-            if (req.url!.endsWith("/")) {
-                res.writeHead(200, { 'Content-Type': 'application/json' });
-                var ret = { files: new Array<string>(), dirs: new Array<string>() }
-                for (const f of fs.readdirSync(path.join("./", req.url!.slice(0, -1)), { withFileTypes: true })) {
-                    if (f.isFile()) ret.files.push(f.name);
-                    if (f.isDirectory()) ret.dirs.push(f.name);
-                }
-                res.write(JSON.stringify(ret));
-                res.end();
-            } else {
-                try {
-                    var p = path.join("./", req.url!)
-                    var b = fs.readFileSync(p);
-                    res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
-                    res.write(b);
-                    res.end();
-                }
-                catch (error) {
-                    res.writeHead(500);
-                    res.write("Resource not available");
-                    res.end();
-                }
-            }
-        } else {
-            console.log(`Request unknwon '${req.url}'`);
-            res.writeHead(404);
-            res.end("Not found");
-        }
+        if (policy && !authorize(policy, req, res)) return;
+        handleHttpRequest(req, res);
     });
     
     http_server.on('upgrade', (req, sock, head) => {
-        if (req.url == '/webmanager_ws') {
-            console.info("Handle upgrade to websocket");
-            websocket_server.handleUpgrade(req, sock, head, ws => websocket_server.emit('connection', ws, req));
-        } else {
-            sock.destroy();
-        }
+        if (policy && !authorizeUpgrade(policy, req, sock)) return;
+        handleUpgrade(req, sock, head);
     });
     
     http_server.on("error", (e) => {
@@ -121,54 +277,54 @@ export function StartServers(sslCertificatesRoot:string, handlers:Array<Namespac
     let hostPrivateKey = fs.readFileSync(path.join(sslCertificatesRoot, "testserver.pem.key")).toString();
     let clientCert = fs.readFileSync(path.join(sslCertificatesRoot, "client.pem.crt")).toString();
     let clientPrivateKey = fs.readFileSync(path.join(sslCertificatesRoot, "client.pem.key")).toString();
-    let rootCACert = fs.readFileSync(path.join(sslCertificatesRoot, "rootCA.pem.crt")).toString();
-    let authserver = https.createServer({ key: hostPrivateKey, cert: hostCert, requestCert:true, rejectUnauthorized:false, ca:[hostCert] }, (req, res) => {
+    //the root CA and the optional intermediate CA with their CRLs, see CreateIntermediateCA and CreateCRL in espidf-vite-secure-build-tools/certificates.ts
+    const cas = [
+        { cert: path.join(sslCertificatesRoot, "rootCA.pem.crt"), crl: path.join(sslCertificatesRoot, "rootCA.crl.pem") },
+        { cert: path.join(sslCertificatesRoot, "intermediateCA", "intermediateCA.pem.crt"), crl: path.join(sslCertificatesRoot, "intermediateCA", "intermediateCA.crl.pem") },
+    ];
+    //the chain and the revocation status are checked by TLS itself; rejectUnauthorized is false in order to send a meaningful answer
+    const secureContextOptions = () => {
+        const existingCas = cas.filter(ca => fs.existsSync(ca.cert));
+        const ca = existingCas.map(ca => fs.readFileSync(ca.cert).toString());
+        //with a CRL, OpenSSL checks the revocation of every certificate in the chain and rejects certificates of CAs without CRL
+        const missingCrls = existingCas.filter(ca => !fs.existsSync(ca.crl)).map(ca => ca.crl);
+        if (missingCrls.length) {
+            console.warn(`There is no CRL ${missingCrls.join(", ")}, revoked certificates are accepted`);
+            return { key: hostPrivateKey, cert: hostCert, ca };
+        }
+        return { key: hostPrivateKey, cert: hostCert, ca, crl: existingCas.map(ca => fs.readFileSync(ca.crl).toString()) };
+    };
+    //without a policy file, only the /labathome route of the DEFAULT_AUTHORIZATION_POLICY is available
+    const authPolicy = policy ?? new AuthorizationPolicy();
+    let authserver = https.createServer({ ...secureContextOptions(), requestCert:true, rejectUnauthorized:false }, (req, res) => {
         console.log(`Request received for '${req.url}'`);
-        const peerCert = ((req.socket) as TLSSocket).getPeerCertificate();
-        //var local_path = new URL(req.url).pathname;
-
+        const a = authorize(authPolicy, req, res);
+        if (!a) return;
         if (req.method == "GET" && req.url!.startsWith("/labathome")) {
-            const i = peerCert.issuer.CN;
-            if(peerCert.issuer.CN!="AAA Klaus Liebler personal Root CA"){
-                return res.writeHead(401).end(`Certificate is not signed from right rootCA, but from ${i}`);
-            }
-            if (!peerCert.subject) {
-                return res.writeHead(401).end(`Sorry, but you need to provide a client certificate to continue.`);
-            }
-            const cn = peerCert.subject.CN;
-            if(!(cn.startsWith("mosquitto") ||cn.startsWith("labathome"))){
-                return res.writeHead(403).end(`Sorry ${peerCert.subject.CN}, certificates from ${peerCert.issuer.CN} are not welcome here.`);
-            }
-            
-            res.writeHead(200).end(`Welcome ${cn} with certificate from ${peerCert.issuer.CN}. Access granted is ${extractCustomExtension(peerCert)}`);
-
+            res.writeHead(200).end(`Welcome ${a.commonName}. Your roles are ${a.roles.join(", ")}`);
         } else {
-            console.log(`Request unknwon '${req.url}'`);
-            res.writeHead(404);
-            res.end("Not found");
+            handleHttpRequest(req, res);
         }
     });
-
+    authserver.on('upgrade', (req, sock, head) => {
+        if (!authorizeUpgrade(authPolicy, req, sock)) return;
+        handleUpgrade(req, sock, head);
+    });
 
     authserver.on("error", (e) => {
         console.error(e);
     })
 
+    //CAs and CRLs, that have been created by CreateIntermediateCA or CreateCRL while the server is running, are used for new connections
+    for (const file of cas.flatMap(ca => [ca.cert, ca.crl])) {
+        fs.watchFile(file, () => {
+            console.info(`${file} changed, reloading`);
+            authserver.setSecureContext(secureContextOptions());
+        });
+    }
+
     authserver.listen(AUTHSERVER_PORT, () => {
         console.log(`AuthServer is running on port ${AUTHSERVER_PORT}`);
         
     });
 }
-
-
-
-
-
-
-function extractCustomExtension(peerCert:PeerCertificate) {
-    const cert = forge.pki.certificateFromPem('-----BEGIN CERTIFICATE-----\n' + peerCert.raw.toString('base64') + '\n-----END CERTIFICATE-----');
-    const ext = (cert.extensions as Array<any>).find(v=>v.id== '1.3.6.1.4.1.54392.5.2757');
-    return ext?.value;
-  };
-
-